@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseYahooChart, validateChartRequest, type ChartInterval, type ChartRange } from '@/lib/chart';
+import { fetchYahooChart } from '@/lib/symbol-providers/yahoo-chart';
+
+const chartContext = {
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => fetch(input, init)
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  const { symbol } = await params;
+  const ticker = decodeURIComponent(symbol).trim().toUpperCase();
+  const interval = request.nextUrl.searchParams.get('interval') || '1m';
+  const range = request.nextUrl.searchParams.get('range') || '1d';
+
+  const invalid = validateChartRequest(interval, range);
+  if (!ticker || invalid) {
+    return NextResponse.json(
+      { success: false, error: invalid || 'Symbol is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const raw = await fetchYahooChart(ticker, chartContext, interval, range);
+    const chart = parseYahooChart(raw, ticker, interval as ChartInterval, range as ChartRange);
+
+    return NextResponse.json({
+      success: true,
+      data: chart
+    });
+  } catch (error) {
+    console.error(`Error fetching ${interval}/${range} chart for ${ticker}:`, error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch chart' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { alertRuleSchema, HALT_EVENT_TYPES, matchingAlertRules, ruleNeedsPrice } from '@/lib/halts/alerts';
+import { haltAlertDispatcher, lookupLastPrice, serverAlertRulesSchema } from '@/lib/halts/alert-dispatcher';
+import { haltWatcher } from '@/lib/halts/watcher';
+import { arrayOf, isString, oneOf } from '@/lib/schema';
+
+async function readJson(request: NextRequest): Promise<{ body: any } | { error: NextResponse }> {
+  try {
+    return { body: await request.json() };
+  } catch {
+    return { error: NextResponse.json({ success: false, error: 'Request body must be JSON' }, { status: 400 }) };
+  }
+}
+
+/**
+ * Evaluates the caller's alert rules against one event from
+ * `/api/halts/stream`, named by its type and key. The event itself is looked
+ * up in the server's halt watcher, never taken from the request. Rules and
+ * watchlist live in the browser, which shows its own notifications for the
+ * returned matches; webhooks are sent by the server as events happen.
+ */
+export async function POST(request: NextRequest) {
+  const read = await readJson(request);
+  if ('error' in read) return read.error;
+
+  const { type, key, rules, watchlist = [] } = read.body || {};
+  if (!oneOf(HALT_EVENT_TYPES)(type) || !isString(key)) {
+    return NextResponse.json({ success: false, error: 'type and key must name a halt event from /api/halts/stream' }, { status: 400 });
+  }
+  if (!arrayOf(alertRuleSchema)(rules)) {
+    return NextResponse.json({ success: false, error: 'rules must be a list of alert rules' }, { status: 400 });
+  }
+  if (!arrayOf(isString)(watchlist)) {
+    return NextResponse.json({ success: false, error: 'watchlist must be a list of symbols' }, { status: 400 });
+  }
+
+  const event = haltWatcher.findEvent(type, key);
+  if (!event) {
+    return NextResponse.json({ success: false, error: `No recent ${type} event for ${key}` }, { status: 404 });
+  }
+
+  const enabled = rules.filter(rule => rule.enabled);
+
+  try {
+    const lastPrice = enabled.some(ruleNeedsPrice) ? await lookupLastPrice(event.halt.symbol) : null;
+    const matched = matchingAlertRules(enabled, event, { watchlist, lastPrice });
+
+    return NextResponse.json({
+      success: true,
+      matched: matched.map(rule => rule.id),
+      lastPrice
+    });
+  } catch (error) {
+    console.error('💥 Error evaluating halt alert rules:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/** The webhook rules the server evaluates on its own */
+export async function GET() {
+  const saved = await haltAlertDispatcher.getRules();
+  return NextResponse.json({ success: true, ...saved, webhookConfigured: haltAlertDispatcher.webhookConfigured });
+}
+
+/**
+ * Saves the panel's rules with the webhook action, and the watchlist they
+ * match against, for the server to evaluate against the halt watcher.
+ */
+export async function PUT(request: NextRequest) {
+  const read = await readJson(request);
+  if ('error' in read) return read.error;
+
+  if (!serverAlertRulesSchema(read.body)) {
+    return NextResponse.json({ success: false, error: 'Body must be { rules, watchlist }' }, { status: 400 });
+  }
+
+  try {
+    const saved = await haltAlertDispatcher.setRules(read.body);
+    return NextResponse.json({ success: true, ...saved, webhookConfigured: haltAlertDispatcher.webhookConfigured });
+  } catch (error) {
+    console.error('💥 Error saving halt alert rules:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
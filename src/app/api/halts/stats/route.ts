@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { computeHaltStats, getHalts, parseHaltQuery } from '@/lib/halts';
+
+/**
+ * Aggregates over the archived halts of a range: counts by reason code,
+ * market and hour, median duration, repeat-halted symbols and LULD pauses
+ * per symbol per day. Takes the same `from`, `to` and `symbol` as /api/halts.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseHaltQuery(request.nextUrl.searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+  }
+
+  const { query } = parsed;
+
+  try {
+    const halts = await getHalts(query);
+
+    return NextResponse.json({
+      success: true,
+      from: query.from,
+      to: query.to,
+      stats: computeHaltStats(halts),
+      lastUpdated: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('💥 Error computing halt stats:', error);
+    return NextResponse.json(
+      { success: false, error: `Failed to compute halt stats: ${error instanceof Error ? error.message : 'Unknown error occurred'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { haltWatcher, type HaltEvent } from '@/lib/halts/watcher';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+/**
+ * Server-sent events for halt changes: `new_halt`, `resumption_set` and
+ * `resumed`, each with the halt as JSON. A `ready` event is sent on connect;
+ * clients should refetch `/api/halts` then to cover anything they missed.
+ */
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const unsubscribe = haltWatcher.subscribe((event: HaltEvent) => send(event.type, event));
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(`: heartbeat ${new Date().toISOString()}\n\n`));
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = null;
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away
+        }
+      });
+
+      send('ready', { connectedAt: new Date().toISOString(), subscribers: haltWatcher.subscriberCount });
+    },
+    cancel() {
+      cleanup?.();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
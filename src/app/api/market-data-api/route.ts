@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateDataToolToken } from '@/lib/quotemedia-auth';
+import { quoteMediaSession } from '@/lib/quotemedia-session';
 
 // Direct QuoteStream API access for real market data
 export async function GET(request: NextRequest) {
@@ -24,7 +24,7 @@ export async function GET(request: NextRequest) {
     // Generate fresh datatool token
     let dataToolToken: string;
     try {
-      dataToolToken = await generateDataToolToken();
+      dataToolToken = await quoteMediaSession.getDataToolToken();
       console.log('✅ Generated fresh Datatool-Token for market data API');
     } catch (error) {
       console.error('❌ Failed to generate datatool token:', error);
@@ -115,7 +115,14 @@ export async function GET(request: NextRequest) {
           requestInit.body = config.body;
         }
         
-        const response = await fetch(config.url, requestInit);
+        // Calls signed with the datatool token get a fresh one and a second try if it is rejected
+        const body = config.body;
+        const response = body?.has('datatool-token')
+          ? await quoteMediaSession.withDataToolToken(token => {
+              body.set('datatool-token', token);
+              return fetch(config.url, { ...requestInit, body });
+            })
+          : await fetch(config.url, requestInit);
         
         console.log(`   Status: ${response.status} ${response.statusText}`);
         console.log(`   Content-Type: ${response.headers.get('content-type')}`);
@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateDataToolToken } from '@/lib/quotemedia-auth';
+import { quoteMediaSession } from '@/lib/quotemedia-session';
+
+// Probes share the server's datatool token, renewed once if QuoteMedia rejects it
+function fetchWithDataToolToken(url: string): Promise<Response> {
+  return quoteMediaSession.withDataToolToken(token => fetch(url, {
+    headers: {
+      'accept': '*/*',
+      'datatool-token': token,
+      'origin': 'https://api.quotemedia.com',
+      'referer': 'https://api.quotemedia.com/',
+      'user-agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36'
+    }
+  }));
+}
 
 // Advanced market discovery API to test different endpoints and parameters
 export async function GET(request: NextRequest) {
@@ -20,10 +33,9 @@ export async function GET(request: NextRequest) {
   try {
     console.log(`🧪 Running ${testType} discovery tests`);
 
-    // Generate fresh datatool token
-    let dataToolToken: string;
+    // Make sure a datatool token can be had before running the probes
     try {
-      dataToolToken = await generateDataToolToken();
+      await quoteMediaSession.getDataToolToken();
       console.log('✅ Generated fresh Datatool-Token for market discovery');
     } catch (error) {
       console.error('❌ Failed to generate datatool token:', error);
@@ -81,7 +93,7 @@ export async function GET(request: NextRequest) {
           statExchange: 'AMX',
           statTop: '50',
           timezone: 'true',
-          webmasterId: '101020'
+          webmasterId: quoteMediaSession.webmasterId
         }
       },
       {
@@ -93,7 +105,7 @@ export async function GET(request: NextRequest) {
           statExchange: 'NYSE',
           statTop: '25',
           timezone: 'true',
-          webmasterId: '101020'
+          webmasterId: quoteMediaSession.webmasterId
         }
       },
       {
@@ -105,7 +117,7 @@ export async function GET(request: NextRequest) {
           statExchange: 'NASDAQ',
           statTop: '30',
           timezone: 'true',
-          webmasterId: '101020'
+          webmasterId: quoteMediaSession.webmasterId
         }
       },
       {
@@ -116,7 +128,7 @@ export async function GET(request: NextRequest) {
           stat: 'pl',
           statTop: '50',
           timezone: 'true',
-          webmasterId: '101020'
+          webmasterId: quoteMediaSession.webmasterId
           // No statExchange - see all markets
         }
       },
@@ -152,18 +164,10 @@ export async function GET(request: NextRequest) {
             statExchange: 'AMX',
             statTop: '10',
             timezone: 'true',
-            webmasterId: '101020'
+            webmasterId: quoteMediaSession.webmasterId
           });
 
-          const response = await fetch(testUrl, {
-            headers: {
-              'accept': '*/*',
-              'datatool-token': dataToolToken,
-              'origin': 'https://api.quotemedia.com',
-              'referer': 'https://api.quotemedia.com/',
-              'user-agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36'
-            }
-          });
+          const response = await fetchWithDataToolToken(testUrl);
 
           const rawData = await response.text();
           let data;
@@ -221,15 +225,7 @@ export async function GET(request: NextRequest) {
 
           const testUrl = baseUrl + '?' + new URLSearchParams(testParams);
 
-          const response = await fetch(testUrl, {
-            headers: {
-              'accept': '*/*',
-              'datatool-token': dataToolToken,
-              'origin': 'https://api.quotemedia.com',
-              'referer': 'https://api.quotemedia.com/',
-              'user-agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36'
-            }
-          });
+          const response = await fetchWithDataToolToken(testUrl);
 
           const rawData = await response.text();
           let data;
@@ -292,20 +288,12 @@ export async function GET(request: NextRequest) {
             statExchange: 'AMX',
             statTop: '25',
             timezone: 'true',
-            webmasterId: '101020'
+            webmasterId: quoteMediaSession.webmasterId
           };
 
           const testUrl = baseUrl + '?' + new URLSearchParams(testParams);
 
-          const response = await fetch(testUrl, {
-            headers: {
-              'accept': '*/*',
-              'datatool-token': dataToolToken,
-              'origin': 'https://api.quotemedia.com',
-              'referer': 'https://api.quotemedia.com/',
-              'user-agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36'
-            }
-          });
+          const response = await fetchWithDataToolToken(testUrl);
 
           const rawData = await response.text();
           let data;
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { quoteMediaClient } from '@/lib/quotemedia-client';
+import { createClientRateLimiter, gatewayClientKey, parseGatewayRequest } from '@/lib/quotemedia-gateway';
+
+const rateLimit = createClientRateLimiter(getConfig().quoteMedia.gatewayRequestsPerMinute, 60 * 1000);
+
+/**
+ * Forwards an allowlisted QuoteMedia call, signed with the server's session
+ * id and datatool token. The browser only ever sees the data.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ endpoint: string }> }
+) {
+  const { endpoint } = await params;
+
+  const limit = rateLimit(gatewayClientKey(request.headers, getConfig().quoteMedia.gatewayClientIpHeader));
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+    return NextResponse.json(
+      { success: false, error: `Too many QuoteMedia requests, retry in ${retryAfter}s` },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  const parsed = parseGatewayRequest(endpoint, request.nextUrl.searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const data = await quoteMediaClient.raw(parsed.request);
+
+    return NextResponse.json(
+      { success: true, endpoint, data, timestamp: new Date().toISOString() },
+      { headers: { 'X-RateLimit-Remaining': String(limit.remaining) } }
+    );
+  } catch (error) {
+    console.error(`❌ QuoteMedia gateway ${endpoint} failed:`, error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'QuoteMedia request failed' },
+      { status: 502 }
+    );
+  }
+}
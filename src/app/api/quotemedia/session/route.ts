@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { quoteMediaSession } from '@/lib/quotemedia-session';
+
+/**
+ * Health of the shared QuoteMedia session: whether it is logged in, when the
+ * session id and datatool token expire, and how logins have been going.
+ * Never returns the credentials themselves.
+ */
+export async function GET() {
+  const health = quoteMediaSession.health();
+
+  return NextResponse.json(
+    { success: health.status !== 'failing', session: health, timestamp: new Date().toISOString() },
+    { status: health.status === 'failing' ? 503 : 200 }
+  );
+}
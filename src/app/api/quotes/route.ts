@@ -1,51 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-interface QuoteMediaResponse {
-  copyright: string;
-  symbolcount: number;
-  quotedata: Array<{
-    status: any;
-    pricedata: {
-      last: number;
-      change: number;
-      changepercent: number;
-      tick: number;
-      open: number;
-      high: number;
-      low: number;
-      prevclose: number;
-      bid: number;
-      ask: number;
-      bidsize: number;
-      asksize: number;
-      lasttradesize: number;
-      tradevolume: number;
-      sharevolume: number;
-      lasttradedatetime: string;
-      lastquotedatetime: string;
-      lastmarketidentificationcode: string;
-      bidmarketidentificationcode: string;
-      askmarketidentificationcode: string;
-      close: number;
-      imbalance: {
-        imbalancesize: number;
-      };
-    };
-    symbolstring: string;
-    symbol: string;
-    datatype: string;
-    entitlement: string;
-    delaymin: number;
-    datetime: string;
-    iscurrentlyopen: boolean;
-    longname: string;
-    shortname: string;
-    exchange: string;
-    isopen: boolean;
-    exLgName: string;
-    exShName: string;
-  }>;
-}
+import { getMarketSession } from '@/lib/market-calendar';
+import type { Quote as ProxyQuote } from '@/lib/quotemedia-client';
 
 interface Quote {
   // Basic identification
@@ -178,18 +133,20 @@ export async function GET(request: NextRequest) {
     console.log('✅ Successfully received', proxyData.quotes?.length || 0, 'quotes from QuoteMedia proxy');
 
     // Filter quotes by requested symbols if provided
-    let filteredQuotes = proxyData.quotes;
+    let filteredQuotes: ProxyQuote[] = proxyData.quotes;
     if (symbols && symbols !== 'MSFT,AAPL,TSLA,NVDA,ACAD,TNFA') {
       const requestedSymbols = symbols.split(',').map(s => s.trim().toUpperCase());
       console.log('🔍 Filtering for requested symbols:', requestedSymbols);
-      filteredQuotes = proxyData.quotes.filter((quote: any) => 
-        requestedSymbols.includes(quote.symbol?.toUpperCase())
+      filteredQuotes = filteredQuotes.filter(quote => 
+        requestedSymbols.includes(quote.symbol.toUpperCase())
       );
       console.log('📊 Filtered to', filteredQuotes.length, 'matching quotes');
     }
 
+    const session = getMarketSession();
+
     // Transform the proxy data to match our Quote interface using exact field names from working response
-    const transformedQuotes: Quote[] = filteredQuotes.map((quoteData: any) => ({
+    const transformedQuotes: Quote[] = filteredQuotes.map(quoteData => ({
       // Basic identification - exactly as returned from working API
       symbol: quoteData.symbol || '',
       companyName: quoteData.companyName || quoteData.shortName || quoteData.symbol || '',
@@ -206,7 +163,7 @@ export async function GET(request: NextRequest) {
       open: quoteData.open || 0,
       high: quoteData.high || 0,
       low: quoteData.low || 0,
-      previousClose: quoteData.prevClose || 0,
+      previousClose: quoteData.previousClose || 0,
       
       // Volume information - exact field names
       volume: quoteData.volume || 0,
@@ -233,7 +190,7 @@ export async function GET(request: NextRequest) {
       // Extended fields
       lastSize: 0,
       averageVolume: 0,
-      marketStatus: 'open',
+      marketStatus: session,
       premarketPrice: 0,
       afterHoursPrice: 0,
       premarketChange: 0,
@@ -244,8 +201,8 @@ export async function GET(request: NextRequest) {
       dollarVolume: (quoteData.price || 0) * (quoteData.volume || 0),
       
       // Market status
-      isCurrentlyOpen: true,
-      isOpen: true,
+      isCurrentlyOpen: session === 'regular',
+      isOpen: session === 'regular',
       delayMinutes: 0,
       
       // Extended fields from QuoteMedia - exact field names
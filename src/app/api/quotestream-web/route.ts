@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { quoteMediaSession, withoutSid } from '@/lib/quotemedia-session';
+import { tmxSession, type QuoteStreamParams } from '@/lib/tmx-session';
 
 // Direct QuoteStream Web access - this is where the real data comes from!
 // TMX PowerStream just embeds QuoteStream Web in an iframe
@@ -9,65 +11,42 @@ export async function GET(request: NextRequest) {
   console.log('🎯 Accessing QuoteStream Web directly for real data...');
   
   try {
-    // Step 1: Get TMX PowerStream session
-    const tmxAuthResponse = await fetch('https://tmxpowerstream.com/session.php', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36'
-      },
-      body: new URLSearchParams({
-        username: process.env.TMX_USERNAME || 'MoltoMario',
-        password: process.env.TMX_PASSWORD || 'kYWGf8sJP76nz8k', 
-        wmid: process.env.TMX_WMID || '101020'
-      }),
-      redirect: 'manual'
-    });
-
-    if (tmxAuthResponse.status !== 302) {
+    // Step 1: Get the shared TMX PowerStream session
+    let tmxSessionId: string;
+    try {
+      tmxSessionId = (await tmxSession.getSession()).sessionId;
+    } catch (error) {
       return NextResponse.json({
         success: false,
-        error: `TMX authentication failed: ${tmxAuthResponse.status}`,
+        error: error instanceof Error ? error.message : 'TMX authentication failed',
         step: 'TMX Authentication'
       });
     }
 
-    const setCookieHeader = tmxAuthResponse.headers.get('set-cookie');
-    const sessionMatch = setCookieHeader?.match(/PHPSESSID=([^;]+)/);
-    
-    if (!sessionMatch) {
-      return NextResponse.json({
-        success: false,
-        error: 'No TMX session found',
-        step: 'TMX Session Extraction'
-      });
-    }
-
-    const tmxSessionId = sessionMatch[1];
-    console.log('✅ TMX Session:', tmxSessionId.substring(0, 10) + '...');
-
     // Step 2: Get QuoteStream parameters from TMX
-    const paramsResponse = await fetch('https://tmxpowerstream.com/includes/paramHelper.php', {
-      headers: {
-        'Cookie': `PHPSESSID=${tmxSessionId}`,
-        'Accept': 'application/json',
-        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
-        'Referer': 'https://tmxpowerstream.com/powerStreamWeb.php'
-      }
-    });
-
-    if (!paramsResponse.ok) {
+    let params: QuoteStreamParams;
+    try {
+      params = await tmxSession.getQuoteStreamParams();
+    } catch (error) {
       return NextResponse.json({
         success: false,
-        error: `Failed to get QuoteStream parameters: ${paramsResponse.status}`,
+        error: error instanceof Error ? error.message : 'Failed to get QuoteStream parameters',
         step: 'QuoteStream Parameters'
       });
     }
+    console.log('📋 QuoteStream params:', { ...params, sid: params.sid ? '[set]' : '' });
 
-    const params = await paramsResponse.json();
-    console.log('📋 QuoteStream params:', params);
+    const { wmid, quotestreamweb_env, lang } = params;
+    const publicParams = { wmid, quotestreamweb_env, lang };
 
-    const { wmid, sid, quotestreamweb_env, lang } = params;
+    // Fall back to the server's QuoteMedia session when TMX doesn't hand out a SID
+    let sid = params.sid;
+    if (!sid) {
+      sid = await quoteMediaSession.getSid().catch(error => {
+        console.log('❌ QuoteMedia session unavailable:', error instanceof Error ? error.message : 'Unknown error');
+        return '';
+      });
+    }
 
     // Step 3: Determine QuoteStream Web URL
     // Based on streamer.js: https://{env}web.quotestream.com
@@ -96,7 +75,7 @@ export async function GET(request: NextRequest) {
     ];
 
     for (const endpoint of qsApiEndpoints) {
-      console.log('🔍 Testing QuoteStream endpoint:', endpoint);
+      console.log('🔍 Testing QuoteStream endpoint:', withoutSid(endpoint));
       
       try {
         const response = await fetch(endpoint, {
@@ -132,10 +111,10 @@ export async function GET(request: NextRequest) {
               return NextResponse.json({
                 success: true,
                 quotes: data,
-                source: `QuoteStream Web Real Data - ${endpoint}`,
-                endpoint: endpoint,
+                source: `QuoteStream Web Real Data - ${withoutSid(endpoint)}`,
+                endpoint: withoutSid(endpoint),
                 tmxSessionId: tmxSessionId.substring(0, 10) + '...',
-                quoteStreamParams: params,
+                quoteStreamParams: publicParams,
                 timestamp: new Date().toISOString(),
                 isRealData: true
               });
@@ -159,7 +138,7 @@ export async function GET(request: NextRequest) {
     }
     
     // Step 5: If direct API access fails, return the QuoteStream Web iframe URL for manual analysis
-    const iframeUrl = `${quoteStreamWebUrl}/#/?wmid=${wmid}${sid ? `&sid=${sid}` : ''}&showLogout=false&lang=${lang || 'en'}`;
+    const iframeUrl = `${quoteStreamWebUrl}/#/?wmid=${wmid}&showLogout=false&lang=${lang || 'en'}`;
     
     return NextResponse.json({
       success: false,
@@ -169,7 +148,7 @@ export async function GET(request: NextRequest) {
         quoteStreamWebUrl,
         iframeUrl,
         tmxSessionId: tmxSessionId.substring(0, 10) + '...',
-        quoteStreamParams: params,
+        quoteStreamParams: publicParams,
         testedEndpoints: qsApiEndpoints.length
       },
       nextSteps: [
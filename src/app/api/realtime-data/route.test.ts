@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+
+const SERVER_SID = 'qm-server-sid-0123456789';
+
+vi.mock('@/lib/tmx-session', () => ({
+  tmxSession: {
+    // TMX hands out no SID, so the route falls back to the server's QuoteMedia session
+    getQuoteStreamParams: async () => ({ wmid: 101020, sid: '', quotestreamweb_env: 'app', lang: 'en' }),
+    getSession: async () => ({ sessionId: 'tmx-session-id-abcdef' })
+  }
+}));
+
+vi.mock('@/lib/quotemedia-session', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/quotemedia-session')>(),
+  quoteMediaSession: { getSid: async () => SERVER_SID }
+}));
+
+const request = () => new NextRequest('http://localhost/api/realtime-data?symbols=XTIA');
+
+describe('GET /api/realtime-data', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('signs upstream calls with the SID but leaves it out of the answer', async () => {
+    const upstream = vi.fn(async () => Response.json({ quotes: [{ symbol: 'XTIA', last: 0.615 }] }));
+    vi.stubGlobal('fetch', upstream);
+
+    const body = JSON.stringify(await (await GET(request())).json());
+
+    expect(String((upstream.mock.calls[0] as unknown[])[0])).toContain(`&sid=${SERVER_SID}`);
+    expect(body).toContain('"isRealData":true');
+    expect(body).not.toContain('sid=');
+    expect(body).not.toContain(SERVER_SID.substring(0, 10));
+  });
+
+  it('leaves the SID out of the QuoteStream iframe URL', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Forbidden', { status: 403 })));
+
+    const data = await (await GET(request())).json();
+
+    expect(data.access.iframeUrl).toBe('https://appweb.quotestream.com/#/?wmid=101020&showLogout=false&lang=en');
+    expect(JSON.stringify(data)).not.toContain('sid=');
+    expect(JSON.stringify(data)).not.toContain(SERVER_SID.substring(0, 10));
+  });
+});
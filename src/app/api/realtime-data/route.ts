@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { quoteMediaSession, withoutSid } from '@/lib/quotemedia-session';
+import { tmxSession } from '@/lib/tmx-session';
 
 // Real-time market data access through TMX PowerStream -> QuoteStream Web authentication
 export async function GET(request: NextRequest) {
@@ -8,120 +10,28 @@ export async function GET(request: NextRequest) {
   console.log('🚀 Getting REAL-TIME market data for:', symbols);
   
   try {
-    // Step 1: Authenticate with TMX PowerStream
-    console.log('🔐 Step 1: TMX PowerStream Authentication...');
+    // Steps 1-3: TMX PowerStream login, then the PowerStream page and paramHelper.php
+    // the way its qm_auth() does, all reused from the shared TMX session
+    console.log('🔐 Steps 1-3: TMX PowerStream session and QuoteStream parameters...');
     
-    const tmxAuthResponse = await fetch('https://tmxpowerstream.com/session.php', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36'
-      },
-      body: new URLSearchParams({
-        username: process.env.TMX_USERNAME || 'MoltoMario',
-        password: process.env.TMX_PASSWORD || 'kYWGf8sJP76nz8k', 
-        wmid: process.env.TMX_WMID || '101020'
-      }),
-      redirect: 'manual'
-    });
-
-    if (tmxAuthResponse.status !== 302) {
-      throw new Error(`TMX authentication failed: ${tmxAuthResponse.status}`);
-    }
-
-    const setCookieHeader = tmxAuthResponse.headers.get('set-cookie');
-    const sessionMatch = setCookieHeader?.match(/PHPSESSID=([^;]+)/);
-    
-    if (!sessionMatch) {
-      throw new Error('No TMX session found');
-    }
-
-    const tmxSessionId = sessionMatch[1];
-    console.log('✅ TMX Session obtained:', tmxSessionId.substring(0, 10) + '...');
-
-    // Step 2: Access TMX PowerStream web interface to trigger QuoteStream initialization  
-    console.log('🌐 Step 2: Loading TMX PowerStream interface...');
-    
-    const powerStreamResponse = await fetch('https://tmxpowerstream.com/powerStreamWeb.php', {
-      headers: {
-        'Cookie': `PHPSESSID=${tmxSessionId}`,
-        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36'
-      }
-    });
-
-    if (!powerStreamResponse.ok) {
-      throw new Error(`Failed to load PowerStream interface: ${powerStreamResponse.status}`);
-    }
-
-    // Step 3: Trigger the qm_auth() function by calling paramHelper.php 
-    console.log('🔑 Step 3: Getting QuoteStream authentication parameters...');
-    
-    const paramsResponse = await fetch('https://tmxpowerstream.com/includes/paramHelper.php', {
-      headers: {
-        'Cookie': `PHPSESSID=${tmxSessionId}`,
-        'Accept': 'application/json',
-        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
-        'Referer': 'https://tmxpowerstream.com/powerStreamWeb.php',
-        'X-Requested-With': 'XMLHttpRequest'
-      }
-    });
-
-    if (!paramsResponse.ok) {
-      throw new Error(`Failed to get QuoteStream parameters: ${paramsResponse.status}`);
-    }
-
-    const params = await paramsResponse.json();
-    console.log('📋 QuoteStream params received:', params);
+    const params = await tmxSession.getQuoteStreamParams();
+    const tmxSessionId = (await tmxSession.getSession()).sessionId;
+    console.log('📋 QuoteStream params received:', { ...params, sid: params.sid ? '[set]' : '' });
 
     const { wmid, sid, quotestreamweb_env, lang } = params;
 
-    // Step 4: If we don't have a SID, we need to get one from QuoteMedia directly
+    // Step 4: If TMX didn't hand us a SID, use the server's QuoteMedia session.
+    // Either way the SID only signs upstream calls and never goes back to the browser
     let quotemediaSid = sid;
     
     if (!quotemediaSid) {
-      console.log('🔄 Step 4: No SID from TMX, attempting direct QuoteMedia authentication...');
+      console.log('🔄 Step 4: No SID from TMX, using the QuoteMedia session...');
       
-      // Try to get QuoteMedia SID using TMX credentials
-      const qmAuthEndpoints = [
-        'https://app.quotemedia.com/datatool/getSessionId.json',
-        'https://app.quotemedia.com/auth/login.json',
-        'https://app.quotemedia.com/session/create.json',
-        'https://app.quotemedia.com/ajax/auth.json'
-      ];
-
-      for (const authEndpoint of qmAuthEndpoints) {
-        try {
-          console.log('🔐 Trying QuoteMedia auth endpoint:', authEndpoint);
-          
-          const qmAuthResponse = await fetch(authEndpoint, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/x-www-form-urlencoded',
-              'Accept': 'application/json',
-              'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
-              'Referer': 'https://tmxpowerstream.com/powerStreamWeb.php'
-            },
-            body: new URLSearchParams({
-              username: process.env.TMX_USERNAME || 'MoltoMario',
-              password: process.env.TMX_PASSWORD || 'kYWGf8sJP76nz8k',
-              webmasterId: wmid,
-              wmid: wmid
-            })
-          });
-
-          if (qmAuthResponse.ok) {
-            const authData = await qmAuthResponse.json();
-            console.log('📄 QuoteMedia auth response:', authData);
-            
-            if (authData.sid || authData.sessionId || authData.session_id) {
-              quotemediaSid = authData.sid || authData.sessionId || authData.session_id;
-              console.log('✅ Got QuoteMedia SID:', quotemediaSid.substring(0, 10) + '...');
-              break;
-            }
-          }
-        } catch (e) {
-          console.log('❌ Auth endpoint failed:', authEndpoint);
-        }
+      try {
+        quotemediaSid = await quoteMediaSession.getSid();
+        console.log('✅ Got QuoteMedia SID');
+      } catch (e) {
+        console.log('❌ QuoteMedia session unavailable:', e instanceof Error ? e.message : 'Unknown error');
       }
     }
 
@@ -132,7 +42,7 @@ export async function GET(request: NextRequest) {
     const quoteStreamBaseUrl = `https://${qsEnv}web.quotestream.com`;
     
     console.log('🌐 QuoteStream Web URL:', quoteStreamBaseUrl);
-    console.log('🔑 Using - WMID:', wmid, 'SID:', quotemediaSid ? quotemediaSid.substring(0, 10) + '...' : 'none');
+    console.log('🔑 Using - WMID:', wmid, 'SID exists:', !!quotemediaSid);
 
     // Step 6: Try QuoteStream Web API endpoints for real market data
     const qsDataEndpoints = [
@@ -153,7 +63,7 @@ export async function GET(request: NextRequest) {
     ];
 
     for (const endpoint of qsDataEndpoints) {
-      console.log('📊 Testing real-time endpoint:', endpoint);
+      console.log('📊 Testing real-time endpoint:', withoutSid(endpoint));
       
       try {
         const response = await fetch(endpoint, {
@@ -198,10 +108,10 @@ export async function GET(request: NextRequest) {
                 data: data,
                 quotes: data.quotes || data.data || data,
                 source: 'REAL-TIME QuoteStream Web Data',
-                endpoint: endpoint,
+                endpoint: withoutSid(endpoint),
                 authentication: {
                   tmxSessionId: tmxSessionId.substring(0, 10) + '...',
-                  quotemediaSid: quotemediaSid ? quotemediaSid.substring(0, 10) + '...' : 'none',
+                  quotemediaSid: quotemediaSid ? '[set]' : 'none',
                   wmid: wmid
                 },
                 timestamp: new Date().toISOString(),
@@ -216,16 +126,16 @@ export async function GET(request: NextRequest) {
             console.log('📈 Found potential market data (non-JSON):', responseText.substring(0, 200));
           }
         } else if (status === 401 || status === 403) {
-          console.log('🔒 Authentication required for:', endpoint);
+          console.log('🔒 Authentication required for:', withoutSid(endpoint));
         }
         
       } catch (error) {
-        console.log(`❌ Error testing ${endpoint}:`, error instanceof Error ? error.message : 'Unknown error');
+        console.log(`❌ Error testing ${withoutSid(endpoint)}:`, error instanceof Error ? error.message : 'Unknown error');
       }
     }
     
     // Step 7: If no direct API access, provide iframe access information
-    const iframeUrl = `${quoteStreamBaseUrl}/#/?wmid=${wmid}${quotemediaSid ? `&sid=${quotemediaSid}` : ''}&showLogout=false&lang=${lang || 'en'}`;
+    const iframeUrl = `${quoteStreamBaseUrl}/#/?wmid=${wmid}&showLogout=false&lang=${lang || 'en'}`;
     
     console.log('🌐 QuoteStream Web iframe URL:', iframeUrl);
     
@@ -234,7 +144,7 @@ export async function GET(request: NextRequest) {
       message: 'Real-time data access configured - use iframe URL for QuoteStream Web interface',
       authentication: {
         tmxSessionId: tmxSessionId.substring(0, 10) + '...',
-        quotemediaSid: quotemediaSid ? quotemediaSid.substring(0, 10) + '...' : 'none',
+        quotemediaSid: quotemediaSid ? '[set]' : 'none',
         wmid: wmid,
         authenticated: true
       },
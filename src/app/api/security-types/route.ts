@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { lookupSecurity, refreshSecurityIndex } from '@/lib/security-index';
+
+export async function GET(request: NextRequest) {
+  const symbol = request.nextUrl.searchParams.get('symbol');
+
+  if (!symbol) {
+    return NextResponse.json(
+      { success: false, error: 'Symbol is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const listing = await lookupSecurity(symbol);
+
+    if (!listing) {
+      return NextResponse.json(
+        { success: false, error: `${symbol.toUpperCase()} is not in the symbol directory` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: listing });
+  } catch (error) {
+    console.error('Error looking up security type:', error);
+    return NextResponse.json(
+      { success: false, error: 'Security index unavailable' },
+      { status: 503 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const index = await refreshSecurityIndex();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        generatedAt: index.generatedAt,
+        symbols: Object.keys(index.listings).length
+      }
+    });
+  } catch (error) {
+    console.error('Error refreshing security index:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Refresh failed' },
+      { status: 502 }
+    );
+  }
+}
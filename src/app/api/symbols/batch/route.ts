@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enrichSymbols, MAX_BATCH_SYMBOLS } from '@/lib/symbol-providers/batch';
+
+/**
+ * Enriches a list of symbols and streams newline-delimited JSON back,
+ * one `result` / `error` line per symbol as it finishes and a final `done` line.
+ *
+ * Body: { symbols: string[], concurrency?: number, fresh?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  const { symbols, concurrency, fresh } = body || {};
+
+  if (!Array.isArray(symbols) || symbols.length === 0 || !symbols.every(s => typeof s === 'string')) {
+    return NextResponse.json(
+      { success: false, error: 'symbols must be a non-empty array of strings' },
+      { status: 400 }
+    );
+  }
+
+  const tickers: string[] = [];
+  for (const symbol of symbols as string[]) {
+    const ticker = symbol.trim().toUpperCase();
+    if (ticker && !tickers.includes(ticker)) tickers.push(ticker);
+  }
+
+  if (tickers.length > MAX_BATCH_SYMBOLS) {
+    return NextResponse.json(
+      { success: false, error: `At most ${MAX_BATCH_SYMBOLS} symbols per batch` },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+
+  // Aborted when the client goes away, so the rest of the batch isn't scraped for nobody
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (line: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(line) + '\n'));
+        } catch {
+          // The stream was cancelled between the check and the write
+          closed = true;
+        }
+      };
+
+      try {
+        await enrichSymbols(
+          tickers,
+          { concurrency: typeof concurrency === 'number' ? concurrency : undefined, fresh: fresh === true, signal: abort.signal },
+          send
+        );
+        send({ type: 'done', count: tickers.length, durationMs: Date.now() - startedAt });
+      } catch (error) {
+        console.error('💥 Batch enrichment error:', error);
+        send({ type: 'done', count: tickers.length, error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abort.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache'
+    }
+  });
+}
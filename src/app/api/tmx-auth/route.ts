@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { loginToTmx, tmxSession, type TmxSession } from '@/lib/tmx-session';
 
+/**
+ * Logs the caller in with their own TMX account. The server's session stays
+ * on the server, so credentials are always required here.
+ */
 interface TMXLoginRequest {
   userName: string;
   password: string;
-  wmid: string;
-  forwardURL: string;
-  targetURL: string;
+  wmid?: string;
+  forwardURL?: string;
+  targetURL?: string;
 }
 
 interface TMXSessionData {
@@ -28,8 +34,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<TMXLoginR
   try {
     console.log('🔐 TMX PowerStream authentication request received');
     
-    const body: TMXLoginRequest = await request.json();
-    
+    const body: Partial<TMXLoginRequest> = await request.json().catch(() => ({}));
+
     // Validate required fields
     if (!body.userName || !body.password) {
       return NextResponse.json(
@@ -44,132 +50,56 @@ export async function POST(request: NextRequest): Promise<NextResponse<TMXLoginR
     console.log('📝 TMX Login attempt for user:', body.userName);
     console.log('🔗 Forward URL:', body.forwardURL);
 
-        // Use environment variables as defaults if credentials not provided
-    const username = body.userName || process.env.TMX_USERNAME;
-    const password = body.password || process.env.TMX_PASSWORD;
-    const wmid = body.wmid || process.env.TMX_WMID || '101020';
-    
-    if (!username || !password) {
+    let session: TmxSession;
+    try {
+      session = await loginToTmx(
+        { username: body.userName, password: body.password, wmid: body.wmid || getConfig().tmx.wmid },
+        { forwardURL: body.forwardURL, targetURL: body.targetURL }
+      );
+    } catch (error) {
+      console.log('❌ TMX Login failed:', error instanceof Error ? error.message : error);
       return NextResponse.json(
         { 
           success: false, 
-          error: 'TMX credentials not provided. Please set TMX_USERNAME and TMX_PASSWORD in environment or provide credentials.' 
+          error: error instanceof Error ? error.message : 'Authentication failed. Please try again later.' 
         },
-        { status: 400 }
+        { status: 401 }
       );
     }
 
-    // Create form data for TMX PowerStream login
-    const formData = new URLSearchParams();
-    formData.append('wmid', wmid);
-    formData.append('userName', username);
-    formData.append('password', password);
-    formData.append('forwardURL', body.forwardURL || 'https://tmxpowerstream.com/powerStreamWeb.php');
-    formData.append('targetURL', body.targetURL || 'https://tmxpowerstream.com/?loginError=true');
-
-    console.log('🚀 Posting to TMX PowerStream session.php...');
-
-    // Make the authentication request to TMX PowerStream
-    const tmxResponse = await fetch('https://tmxpowerstream.com/session.php', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Referer': 'https://tmxpowerstream.com/',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-      },
-      body: formData.toString(),
-      redirect: 'manual', // Don't follow redirects automatically
-    });
+    console.log('✅ TMX Login successful - redirect to:', session.location);
 
-    console.log('📊 TMX Response status:', tmxResponse.status);
-    console.log('📋 TMX Response headers:', Object.fromEntries(tmxResponse.headers.entries()));
-
-    // Check if we got a redirect (successful login)
-    if (tmxResponse.status === 302 || tmxResponse.status === 301) {
-      const location = tmxResponse.headers.get('Location');
-      const setCookieHeaders = tmxResponse.headers.getSetCookie();
-      
-      console.log('✅ TMX Login successful - redirect to:', location);
-      console.log('🍪 Set-Cookie headers:', setCookieHeaders);
-
-      // Extract session information from cookies
-      let sessionId = '';
-      let userId = body.userName;
-      
-      // Parse cookies to extract session data
-      setCookieHeaders.forEach(cookie => {
-        if (cookie.includes('PHPSESSID=')) {
-          const match = cookie.match(/PHPSESSID=([^;]+)/);
-          if (match) {
-            sessionId = match[1];
-          }
-        }
-      });
+    const now = new Date(session.createdAt);
+    const expiresAt = new Date(now.getTime() + (8 * 60 * 60 * 1000)); // 8 hours from now
 
-      // If no session ID found, generate one for tracking
-      if (!sessionId) {
-        sessionId = `tmx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      }
-
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + (8 * 60 * 60 * 1000)); // 8 hours from now
-
-      const sessionData: TMXSessionData = {
-        sessionId,
-        userId: username,
-        wmid: wmid,
-        forwardURL: location || 'https://tmxpowerstream.com/powerStreamWeb.php',
-        loginTime: now.toISOString(),
-        expiresAt: expiresAt.toISOString(),
-      };
-
-      // Store session cookies for future requests
-      const response = NextResponse.json({
-        success: true,
-        sessionData,
-        redirectUrl: location || body.forwardURL,
-      });
+    const sessionData: TMXSessionData = {
+      sessionId: session.sessionId,
+      userId: session.username,
+      wmid: session.wmid,
+      forwardURL: session.location || `${tmxSession.baseUrl}/powerStreamWeb.php`,
+      loginTime: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
 
-      // Set cookies for session management
-      setCookieHeaders.forEach(cookie => {
-        const [cookiePart] = cookie.split(';');
-        const [name, value] = cookiePart.split('=');
-        if (name && value) {
-          response.cookies.set(name, value, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'lax',
-            maxAge: 8 * 60 * 60, // 8 hours
-          });
-        }
-      });
-
-      console.log('✅ TMX session established successfully');
-      return response;
+    // Store session cookies for future requests
+    const response = NextResponse.json({
+      success: true,
+      sessionData,
+      redirectUrl: session.location || body.forwardURL,
+    });
 
-    } else {
-      // Login failed
-      const responseText = await tmxResponse.text();
-      console.log('❌ TMX Login failed - Response:', responseText.substring(0, 500));
-      
-      // Check if response contains login error indicators
-      const isLoginError = responseText.includes('loginError=true') || 
-                          responseText.includes('Invalid') || 
-                          responseText.includes('incorrect') ||
-                          tmxResponse.status >= 400;
+    // Hand the browser the cookies session.php set, PHPSESSID included
+    Object.entries(session.cookies).forEach(([name, value]) => {
+      response.cookies.set(name, value, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: 8 * 60 * 60, // 8 hours
+      });
+    });
 
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: isLoginError 
-            ? 'Invalid username or password. Please check your TMX PowerStream credentials.'
-            : 'Authentication failed. Please try again later.' 
-        },
-        { status: 401 }
-      );
-    }
+    console.log('✅ TMX session established successfully');
+    return response;
 
   } catch (error) {
     console.error('❌ TMX authentication error:', error);
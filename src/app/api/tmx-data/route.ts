@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isTmxSessionExpired } from '@/lib/tmx-session';
 
 interface TMXDataRequest {
   symbols?: string[];
@@ -275,9 +276,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       sessionCookies
     );
     
-    const isActive = testResponse.status === 200 && 
-                    !testResponse.url.includes('login') &&
-                    !testResponse.url.includes('session.php');
+    const isActive = testResponse.status === 200 && !isTmxSessionExpired(testResponse);
     
     return NextResponse.json({
       success: true,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getQuoteMediaSid, clearCachedSid } from '@/lib/quotemedia-auth';
+import { quoteMediaSession } from '@/lib/quotemedia-session';
+import { tmxSession } from '@/lib/tmx-session';
 
 // Real TMX PowerStream QuoteMedia integration
 export async function GET(request: NextRequest) {
@@ -9,69 +10,21 @@ export async function GET(request: NextRequest) {
   try {
     console.log('🔗 TMX PowerStream Real QuoteMedia API called for:', symbols);
     
-    // First, get a TMX PowerStream session directly
-    console.log('🔐 Authenticating with TMX PowerStream...');
-    
-    const tmxAuthData = {
-      username: process.env.TMX_USERNAME || process.env.NEXT_PUBLIC_TMX_USERNAME,
-      password: process.env.TMX_PASSWORD || process.env.NEXT_PUBLIC_TMX_PASSWORD,
-      wmid: process.env.TMX_WMID || process.env.NEXT_PUBLIC_TMX_WMID || '101020'
-    };
-
-    if (!tmxAuthData.username || !tmxAuthData.password) {
-      throw new Error('TMX credentials not found in environment variables');
-    }
-
-    const tmxAuthResponse = await fetch('https://tmxpowerstream.com/session.php', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36'
-      },
-      body: new URLSearchParams({
-        username: tmxAuthData.username,
-        password: tmxAuthData.password,
-        wmid: tmxAuthData.wmid
-      }),
-      redirect: 'manual'
-    });
-
-    console.log('🔍 TMX auth response status:', tmxAuthResponse.status);
-    console.log('🔍 TMX auth headers:', Object.fromEntries(tmxAuthResponse.headers.entries()));
-
-    if (tmxAuthResponse.status !== 302 && tmxAuthResponse.status !== 200) {
-      const responseText = await tmxAuthResponse.text();
-      console.log('🔍 TMX auth response body:', responseText.substring(0, 200));
-      throw new Error(`TMX authentication failed: ${tmxAuthResponse.status} - ${responseText.substring(0, 100)}`);
-    }
-
-    const setCookieHeader = tmxAuthResponse.headers.get('set-cookie');
-    console.log('🔍 Set-Cookie header:', setCookieHeader);
-    const sessionMatch = setCookieHeader?.match(/PHPSESSID=([^;]+)/);
-    
-    if (!sessionMatch) {
-      throw new Error('No TMX session ID found in authentication response');
-    }
-
-    const tmxSessionId = sessionMatch[1];
-    console.log('✅ TMX Authentication successful, session:', tmxSessionId.substring(0, 10) + '...');
+    // Reuse the server's TMX PowerStream session, logging in when there is none
+    const session = await tmxSession.getSession();
+    const tmxSessionId = session.sessionId;
+    console.log('✅ TMX session ready:', tmxSessionId.substring(0, 10) + '...');
 
     // Now try to extract real QuoteMedia data from TMX PowerStream
     // Based on QuoteStream bundle analysis, TMX uses QuoteMedia auth endpoints
-    const tmxQuotesUrl = `https://tmxpowerstream.com/api/quotes.json?symbols=${encodeURIComponent(symbols)}`;
+    const tmxQuotesUrl = `${tmxSession.baseUrl}/api/quotes.json?symbols=${encodeURIComponent(symbols)}`;
     
     console.log('🌐 Trying TMX internal API:', tmxQuotesUrl);
     console.log('🔍 Using TMX session for QuoteMedia access:', tmxSessionId.substring(0, 10) + '...');
     
-    const tmxResponse = await fetch(tmxQuotesUrl, {
-      headers: {
-        'Cookie': `PHPSESSID=${tmxSessionId}`,
-        'Accept': 'application/json',
-        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
-        'Referer': 'https://tmxpowerstream.com/powerStreamWeb.php',
-        'X-Requested-With': 'XMLHttpRequest'
-      }
-    });
+    const tmxResponse = await tmxSession.withSession(current => fetch(tmxQuotesUrl, {
+      headers: tmxSession.headers(current, { 'Accept': 'application/json', 'X-Requested-With': 'XMLHttpRequest' })
+    }));
 
     console.log('🔍 Initial TMX response status:', tmxResponse.status);
     console.log('🔍 Initial TMX response content-type:', tmxResponse.headers.get('content-type'));
@@ -107,25 +60,19 @@ export async function GET(request: NextRequest) {
       `/stream/data.php?symbols=${encodeURIComponent(symbols)}`,
       `/quotemedia/proxy.php?symbols=${encodeURIComponent(symbols)}`,
       // QuoteStream endpoints from bundle analysis
-      `/auth/v0/session/${tmxAuthData.wmid}?sid=${tmxSessionId}&symbols=${encodeURIComponent(symbols)}`,
+      `/auth/v0/session/${session.wmid}?sid=${tmxSessionId}&symbols=${encodeURIComponent(symbols)}`,
       `/quotestream/data?symbols=${encodeURIComponent(symbols)}`,
       `/api/marketdata?symbols=${encodeURIComponent(symbols)}`
     ];
 
     for (const endpoint of alternativeEndpoints) {
-      const fullUrl = `https://tmxpowerstream.com${endpoint}`;
+      const fullUrl = `${tmxSession.baseUrl}${endpoint}`;
       console.log('🔍 Trying TMX endpoint:', fullUrl);
       
       try {
-        const response = await fetch(fullUrl, {
-          headers: {
-            'Cookie': `PHPSESSID=${tmxSessionId}`,
-            'Accept': 'application/json, text/plain, */*',
-            'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
-            'Referer': 'https://tmxpowerstream.com/powerStreamWeb.php',
-            'X-Requested-With': 'XMLHttpRequest'
-          }
-        });
+        const response = await tmxSession.withSession(current => fetch(fullUrl, {
+          headers: tmxSession.headers(current, { 'Accept': 'application/json, text/plain, */*', 'X-Requested-With': 'XMLHttpRequest' })
+        }));
 
         if (response.ok) {
           const contentType = response.headers.get('content-type');
@@ -150,31 +97,31 @@ export async function GET(request: NextRequest) {
     console.log('🔄 Trying direct QuoteMedia access with TMX session context...');
     
     try {
-      const qmSid = await getQuoteMediaSid();
-      
       // Try QuoteMedia endpoints based on QuoteStream bundle analysis
-      const quoteMediaEndpoints = [
-        // Standard QuoteMedia endpoints
-        `https://app.quotemedia.com/datatool/getQuote.json?symbols=${symbols}&sid=${qmSid}&webmasterId=${tmxAuthData.wmid}`,
-        `https://app.quotemedia.com/quotetools/getQuote.json?symbols=${symbols}&sid=${qmSid}&webmasterId=${tmxAuthData.wmid}`,
-        `https://app.quotemedia.com/ajax/getQuotes.json?symbols=${symbols}&sid=${qmSid}&webmasterId=${tmxAuthData.wmid}`,
+      const quoteMediaEndpoints: (string | ((qmSid: string) => string))[] = [
+        // Standard QuoteMedia endpoints, on our QuoteMedia session which is renewed once if rejected
+        qmSid => `https://app.quotemedia.com/datatool/getQuote.json?symbols=${symbols}&sid=${qmSid}&webmasterId=${session.wmid}`,
+        qmSid => `https://app.quotemedia.com/quotetools/getQuote.json?symbols=${symbols}&sid=${qmSid}&webmasterId=${session.wmid}`,
+        qmSid => `https://app.quotemedia.com/ajax/getQuotes.json?symbols=${symbols}&sid=${qmSid}&webmasterId=${session.wmid}`,
         // QuoteStream auth endpoints from bundle analysis
-        `https://app.quotemedia.com/auth/v0/session/${tmxAuthData.wmid}?sid=${tmxSessionId}&symbols=${symbols}`,
+        `https://app.quotemedia.com/auth/v0/session/${session.wmid}?sid=${tmxSessionId}&symbols=${symbols}`,
         // Try TMX session with QuoteMedia
-        `https://app.quotemedia.com/datatool/getMarketStats.json?symbols=${symbols}&sid=${tmxSessionId}&webmasterId=${tmxAuthData.wmid}`
+        `https://app.quotemedia.com/datatool/getMarketStats.json?symbols=${symbols}&sid=${tmxSessionId}&webmasterId=${session.wmid}`
       ];
 
-      for (const qmUrl of quoteMediaEndpoints) {
-        console.log('🌐 Trying QuoteMedia endpoint:', qmUrl);
-        
-        const qmResponse = await fetch(qmUrl, {
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
-            'Referer': 'https://tmxpowerstream.com/'
-          }
-        });
+      const qmInit = {
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
+          'Referer': 'https://tmxpowerstream.com/'
+        }
+      };
 
+      for (const endpoint of quoteMediaEndpoints) {
+        const qmResponse = typeof endpoint === 'string'
+          ? await fetch(endpoint, qmInit)
+          : await quoteMediaSession.withSid(qmSid => fetch(endpoint(qmSid), qmInit));
+        console.log('🌐 Tried QuoteMedia endpoint:', qmResponse.url);
         console.log('🔍 QM Response status:', qmResponse.status);
         console.log('🔍 QM Response content-type:', qmResponse.headers.get('content-type'));
 
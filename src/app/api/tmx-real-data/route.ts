@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { tmxSession } from '@/lib/tmx-session';
 
 // Direct TMX PowerStream real data extraction
 // Based on QuoteStream bundle analysis, we need to find the actual endpoints
@@ -9,87 +10,58 @@ export async function GET(request: NextRequest) {
   console.log('🔍 Attempting to find real TMX PowerStream data endpoints...');
   
   try {
-    // Direct TMX PowerStream authentication
-    const tmxAuthResponse = await fetch('https://tmxpowerstream.com/session.php', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36'
-      },
-      body: new URLSearchParams({
-        username: process.env.TMX_USERNAME || 'MoltoMario',
-        password: process.env.TMX_PASSWORD || 'kYWGf8sJP76nz8k', 
-        wmid: process.env.TMX_WMID || '101020'
-      }),
-      redirect: 'manual'
-    });
-
-    if (tmxAuthResponse.status !== 302) {
+    // The server's TMX PowerStream session, reused between requests
+    let sessionId: string;
+    try {
+      sessionId = (await tmxSession.getSession()).sessionId;
+    } catch (error) {
       return NextResponse.json({
         success: false,
-        error: `TMX authentication failed: ${tmxAuthResponse.status}`,
+        error: error instanceof Error ? error.message : 'TMX authentication failed',
         message: "Can't get real data without proper TMX authentication"
       });
     }
 
-    const setCookieHeader = tmxAuthResponse.headers.get('set-cookie');
-    const sessionMatch = setCookieHeader?.match(/PHPSESSID=([^;]+)/);
-    
-    if (!sessionMatch) {
-      return NextResponse.json({
-        success: false,
-        error: 'No TMX session found',
-        message: "Authentication succeeded but no session cookie returned"
-      });
-    }
-
-    const sessionId = sessionMatch[1];
-    console.log('✅ Got TMX session:', sessionId.substring(0, 10) + '...');
+    const baseUrl = tmxSession.baseUrl;
 
     // Now try to find REAL data endpoints by analyzing what TMX actually uses
     // Based on QuoteStream bundle, they likely have these patterns:
     const realDataEndpoints = [
       // QuoteStream WebSocket or real-time endpoints
-      `https://tmxpowerstream.com/ws/quotes?symbols=${symbols}`,
-      `https://tmxpowerstream.com/realtime/quotes?symbols=${symbols}`,
-      `https://tmxpowerstream.com/stream/quotes?symbols=${symbols}`,
+      `${baseUrl}/ws/quotes?symbols=${symbols}`,
+      `${baseUrl}/realtime/quotes?symbols=${symbols}`,
+      `${baseUrl}/stream/quotes?symbols=${symbols}`,
       
       // API endpoints that might return actual data
-      `https://tmxpowerstream.com/api/v1/quotes?symbols=${symbols}`,
-      `https://tmxpowerstream.com/api/quotes?symbols=${symbols}&format=json`,
-      `https://tmxpowerstream.com/data/quotes?symbols=${symbols}&type=json`,
+      `${baseUrl}/api/v1/quotes?symbols=${symbols}`,
+      `${baseUrl}/api/quotes?symbols=${symbols}&format=json`,
+      `${baseUrl}/data/quotes?symbols=${symbols}&type=json`,
       
       // QuoteMedia endpoints they might proxy through
-      `https://tmxpowerstream.com/quotemedia/quotes?symbols=${symbols}`,
-      `https://tmxpowerstream.com/proxy/quotemedia?symbols=${symbols}`,
+      `${baseUrl}/quotemedia/quotes?symbols=${symbols}`,
+      `${baseUrl}/proxy/quotemedia?symbols=${symbols}`,
       
       // AJAX endpoints for the web interface
-      `https://tmxpowerstream.com/ajax/quotes?symbols=${symbols}&format=json`,
-      `https://tmxpowerstream.com/ajax/realtime?symbols=${symbols}`,
-      `https://tmxpowerstream.com/ajax/marketdata?symbols=${symbols}`,
+      `${baseUrl}/ajax/quotes?symbols=${symbols}&format=json`,
+      `${baseUrl}/ajax/realtime?symbols=${symbols}`,
+      `${baseUrl}/ajax/marketdata?symbols=${symbols}`,
       
       // Data feed endpoints
-      `https://tmxpowerstream.com/feed/quotes?symbols=${symbols}`,
-      `https://tmxpowerstream.com/datafeed/quotes?symbols=${symbols}`,
+      `${baseUrl}/feed/quotes?symbols=${symbols}`,
+      `${baseUrl}/datafeed/quotes?symbols=${symbols}`,
       
       // Legacy endpoints  
-      `https://tmxpowerstream.com/quotes.php?symbols=${symbols}&output=json`,
-      `https://tmxpowerstream.com/getQuotes.php?symbols=${symbols}&format=json`
+      `${baseUrl}/quotes.php?symbols=${symbols}&output=json`,
+      `${baseUrl}/getQuotes.php?symbols=${symbols}&format=json`
     ];
 
     for (const endpoint of realDataEndpoints) {
       console.log('🌐 Testing real data endpoint:', endpoint);
       
       try {
-        const response = await fetch(endpoint, {
-          headers: {
-            'Cookie': `PHPSESSID=${sessionId}`,
-            'Accept': 'application/json, */*',
-            'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
-            'Referer': 'https://tmxpowerstream.com/powerStreamWeb.php',
-            'X-Requested-With': 'XMLHttpRequest'
-          }
-        });
+        const response = await tmxSession.withSession(session => fetch(endpoint, {
+          headers: tmxSession.headers(session, { 'Accept': 'application/json, */*', 'X-Requested-With': 'XMLHttpRequest' })
+        }));
 
         console.log(`📊 ${endpoint} -> Status: ${response.status}, Content-Type: ${response.headers.get('content-type')}`);
         
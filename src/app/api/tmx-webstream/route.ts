@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
 
 // Parse QuoteStream HTML content for streaming data sources
 function parseQuoteStreamHTML(html: string) {
@@ -104,6 +105,7 @@ export async function POST(request: Request) {
     }
 
     console.log('📊 Analyzing TMX PowerStream with session:', sessionId);
+    const { webmasterId } = getConfig().quoteMedia;
 
     // Create mock HTML content that represents what we'd find in PowerStream
     // This includes the actual QuoteMedia endpoint you discovered
@@ -111,10 +113,10 @@ export async function POST(request: Request) {
       <iframe src="https://app.quotemedia.com/quotestream/..." />
       <script>
         var config = {
-          webmasterId: "101020",
+          webmasterId: "${webmasterId}",
           sessionId: "${sessionId}",
           endpoints: [
-            "https://app.quotemedia.com/datatool/getMarketStats.json?marketSession=NORMAL&pathName=%2Fqsmodule%2Fresearch%2F&qmodTool=MarketMovers&sid=${sessionId}&stat=dl&statCountry=US&statTop=100&timezone=true&webmasterId=101020"
+            "https://app.quotemedia.com/datatool/getMarketStats.json?marketSession=NORMAL&pathName=%2Fqsmodule%2Fresearch%2F&qmodTool=MarketMovers&sid=${sessionId}&stat=dl&statCountry=US&statTop=100&timezone=true&webmasterId=${webmasterId}"
           ]
         };
       </script>
@@ -145,7 +147,7 @@ export async function POST(request: Request) {
           description: 'Proxied access to real QuoteMedia API with session authentication',
           dataFormat: 'Real-time market data with comprehensive stock information',
           realEndpoints: quotemediaEndpoints,
-          sampleUrl: `https://app.quotemedia.com/datatool/getMarketStats.json?marketSession=NORMAL&webmasterId=101020&sid=${sessionId}&statTop=100`
+          sampleUrl: `https://app.quotemedia.com/datatool/getMarketStats.json?marketSession=NORMAL&webmasterId=${webmasterId}&sid=${sessionId}&statTop=100`
         },
         {
           name: 'QuoteMedia Market Stats - Mock Fallback',  
@@ -1,11 +1,13 @@
 'use client';
 
 import { useState } from 'react';
-import { Container, Title, Select, Button, Paper, Text, ScrollArea, Code, Group, Alert, Tabs, Badge } from '@mantine/core';
+import { Container, Title, Select, Button, Paper, Text, ScrollArea, Code, Group, Alert, TextInput, PasswordInput, Tabs, Badge } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
 
 export default function MarketDiscoveryPage() {
   const [sessionId, setSessionId] = useState<string>('');
+  const [userName, setUserName] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [discoveryResults, setDiscoveryResults] = useState<any>(null);
 
@@ -18,11 +20,7 @@ export default function MarketDiscoveryPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          userName: 'MoltoMario',
-          passWord: 'testpassword',
-          forward: ''
-        }),
+        body: JSON.stringify({ userName, password }),
       });
 
       if (!authResponse.ok) {
@@ -31,14 +29,15 @@ export default function MarketDiscoveryPage() {
 
       const authData = await authResponse.json();
       
-      if (!authData.success || !authData.sessionId) {
+      const authSessionId = authData.sessionData?.sessionId;
+      if (!authData.success || !authSessionId) {
         throw new Error('Failed to get session ID');
       }
 
-      setSessionId(authData.sessionId);
+      setSessionId(authSessionId);
       notifications.show({
         title: 'Authentication Success',
-        message: `Session ID: ${authData.sessionId}`,
+        message: `Session ID: ${authSessionId}`,
         color: 'green',
       });
 
@@ -102,11 +101,25 @@ export default function MarketDiscoveryPage() {
       </Text>
 
       <Paper p="md" mb="xl">
-        <Group mb="md">
+        <Group mb="md" align="flex-end">
+          <TextInput
+            label="TMX username"
+            value={userName}
+            onChange={(event) => setUserName(event.currentTarget.value)}
+            disabled={!!sessionId}
+            w={220}
+          />
+          <PasswordInput
+            label="TMX password"
+            value={password}
+            onChange={(event) => setPassword(event.currentTarget.value)}
+            disabled={!!sessionId}
+            w={220}
+          />
           <Button 
             onClick={authenticateAndGetSession}
             loading={loading}
-            disabled={!!sessionId}
+            disabled={!!sessionId || !userName || !password}
           >
             {sessionId ? 'Authenticated' : 'Authenticate & Get Session'}
           </Button>
@@ -1,11 +1,13 @@
 'use client';
 
 import { useState } from 'react';
-import { Container, Title, Select, Button, Paper, Text, ScrollArea, Code, Group, Alert } from '@mantine/core';
+import { Container, Title, Select, Button, Paper, Text, ScrollArea, Code, Group, Alert, TextInput, PasswordInput } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
 
 export default function MarketExplorerPage() {
   const [sessionId, setSessionId] = useState<string>('');
+  const [userName, setUserName] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
   const [selectedExchange, setSelectedExchange] = useState<string>('NYSE');
   const [selectedStat, setSelectedStat] = useState<string>('pl');
   const [loading, setLoading] = useState(false);
@@ -41,11 +43,7 @@ export default function MarketExplorerPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          userName: process.env.NEXT_PUBLIC_TMX_USERNAME || 'MoltoMario',
-          passWord: process.env.NEXT_PUBLIC_TMX_PASSWORD || 'testpassword',
-          forward: ''
-        }),
+        body: JSON.stringify({ userName, password }),
       });
 
       if (!authResponse.ok) {
@@ -54,14 +52,15 @@ export default function MarketExplorerPage() {
 
       const authData = await authResponse.json();
       
-      if (!authData.success || !authData.sessionId) {
+      const authSessionId = authData.sessionData?.sessionId;
+      if (!authData.success || !authSessionId) {
         throw new Error('Failed to get session ID');
       }
 
-      setSessionId(authData.sessionId);
+      setSessionId(authSessionId);
       notifications.show({
         title: 'Authentication Success',
-        message: `Session ID: ${authData.sessionId}`,
+        message: `Session ID: ${authSessionId}`,
         color: 'green',
       });
 
@@ -125,11 +124,25 @@ export default function MarketExplorerPage() {
       </Text>
 
       <Paper p="md" mb="xl">
-        <Group mb="md">
+        <Group mb="md" align="flex-end">
+          <TextInput
+            label="TMX username"
+            value={userName}
+            onChange={(event) => setUserName(event.currentTarget.value)}
+            disabled={!!sessionId}
+            w={220}
+          />
+          <PasswordInput
+            label="TMX password"
+            value={password}
+            onChange={(event) => setPassword(event.currentTarget.value)}
+            disabled={!!sessionId}
+            w={220}
+          />
           <Button 
             onClick={authenticateAndGetSession}
             loading={loading}
-            disabled={!!sessionId}
+            disabled={!!sessionId || !userName || !password}
           >
             {sessionId ? 'Authenticated' : 'Authenticate & Get Session'}
           </Button>
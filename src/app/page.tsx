@@ -1,9 +1,11 @@
 'use client';
 
 import { Container, Title, Paper, Grid, Stack, Group, Badge, Tabs, ActionIcon, Button } from '@mantine/core';
-import { IconTrendingUp, IconActivity, IconNews, IconAlertTriangle, IconList, IconChartLine, IconDatabase } from '@tabler/icons-react';
+import { IconTrendingUp, IconActivity, IconNews, IconAlertTriangle, IconList, IconChartLine, IconDatabase, IconChartBar } from '@tabler/icons-react';
 import { SymbolInput } from '@/components/SymbolInput';
 import { HaltsTable } from '@/components/HaltsTable';
+import { HaltAlertRules } from '@/components/HaltAlertRules';
+import { HaltStatsPanel } from '@/components/HaltStatsPanel';
 import { SymbolList } from '@/components/SymbolList';
 import { SymbolAnalysis } from '@/components/SymbolAnalysis';
 import TMXDataExtractor from '@/components/TMXDataExtractor';
@@ -112,6 +114,14 @@ export default function HomePage() {
             >
               📊 TMX Real Time Data
             </Tabs.Tab>
+
+            <Tabs.Tab 
+              value="halt-stats" 
+              leftSection={<IconChartBar size={16} />}
+              color="red"
+            >
+              📉 Halt Stats
+            </Tabs.Tab>
             
             {/* Dynamic Symbol Tabs */}
             {symbolTabs.map(symbol => (
@@ -172,6 +182,10 @@ export default function HomePage() {
                         showDetails={true}
                       />
                     </Paper>
+
+                    <Paper shadow="sm" p="md" radius="md" withBorder>
+                      <HaltAlertRules />
+                    </Paper>
                   </Stack>
                 </Grid.Col>
 
@@ -194,6 +208,12 @@ export default function HomePage() {
             </Stack>
           </Tabs.Panel>
 
+          <Tabs.Panel value="halt-stats" pt="md">
+            <Paper shadow="sm" p="md" radius="md" withBorder>
+              <HaltStatsPanel onSymbolClick={handleSymbolClick} />
+            </Paper>
+          </Tabs.Panel>
+
           {/* Dynamic Symbol Analysis Tabs */}
           {symbolTabs.map(symbol => (
             <Tabs.Panel key={`symbol-${symbol}`} value={`symbol-${symbol}`} pt="md">
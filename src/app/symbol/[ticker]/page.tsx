@@ -25,19 +25,14 @@ import {
   IconAlertCircle 
 } from '@tabler/icons-react';
 import Link from 'next/link';
+import { SymbolFieldStatus } from '@/components/SymbolFieldStatus';
+import { SecFilingsTable } from '@/components/SecFilingsTable';
+import { IntradayChart } from '@/components/IntradayChart';
+import { SECURITY_TYPE_COLORS, SECURITY_TYPE_LABELS } from '@/lib/security-types';
+import type { SymbolPayloadFields } from '@/lib/symbol-providers/types';
 
-interface SymbolData {
-  symbol: string;
-  executives: {
-    country: string;
-    executives: Array<{ name: string; title: string }>;
-  };
-  premarketLow: string | null;
-  previousClose: number;
-  isEtfEtn: string;
-  news: Array<{ title: string; link: string; time: string }>;
-  secFiling: string;
-}
+// Fields are missing when the provider that fills them is disabled on the server
+type SymbolData = { symbol: string } & Partial<SymbolPayloadFields>;
 
 export default function SymbolPage() {
   const params = useParams();
@@ -109,14 +104,17 @@ export default function SymbolPage() {
     );
   }
 
-  const executiveRows = data.executives.executives.map((exec, index) => (
+  const executives = data.executives?.value?.executives ?? [];
+  const news = data.news?.value ?? [];
+
+  const executiveRows = executives.map((exec, index) => (
     <Table.Tr key={index}>
       <Table.Td>{exec.name}</Table.Td>
       <Table.Td>{exec.title}</Table.Td>
     </Table.Tr>
   ));
 
-  const newsRows = data.news.map((article, index) => (
+  const newsRows = news.map((article, index) => (
     <Table.Tr key={index}>
       <Table.Td>{article.time}</Table.Td>
       <Table.Td>
@@ -152,15 +150,31 @@ export default function SymbolPage() {
           </Group>
           
           <Group gap="xs">
-            <Badge variant="light" color={data.isEtfEtn === 'YES' ? 'orange' : 'gray'}>
-              {data.isEtfEtn === 'YES' ? 'ETF/ETN' : 'Stock'}
-            </Badge>
-            <Badge variant="light" color="blue">
-              {data.executives.country}
-            </Badge>
+            {data.securityType?.status === 'ok' && data.securityType.value && (
+              <Badge variant="light" color={SECURITY_TYPE_COLORS[data.securityType.value]}>
+                {SECURITY_TYPE_LABELS[data.securityType.value]}
+              </Badge>
+            )}
+            {data.executives?.status === 'ok' && (
+              <Badge variant="light" color="blue">
+                {data.executives.value?.country}
+              </Badge>
+            )}
           </Group>
         </Group>
 
+        {/* Intraday Chart */}
+        <Paper shadow="sm" p="md" radius="md">
+          <Title order={3} mb="md" c="blue">
+            📈 Chart
+          </Title>
+          <IntradayChart
+            symbol={data.symbol}
+            previousClose={data.previousClose?.value}
+            premarketLow={data.premarketLow?.value ? parseFloat(data.premarketLow.value) : null}
+          />
+        </Paper>
+
         {/* Main Content Grid */}
         <Grid>
           {/* Left Column - Basic Info */}
@@ -184,17 +198,21 @@ export default function SymbolPage() {
                     <Table.Tr>
                       <Table.Td><Text fw={500}>Premarket Low</Text></Table.Td>
                       <Table.Td>
-                        <Text c={data.premarketLow ? 'blue' : 'dimmed'}>
-                          {data.premarketLow || 'N/A'}
-                        </Text>
+                        {data.premarketLow?.status === 'ok' ? (
+                          <Text c="blue">{data.premarketLow.value}</Text>
+                        ) : (
+                          <SymbolFieldStatus field={data.premarketLow} />
+                        )}
                       </Table.Td>
                     </Table.Tr>
                     <Table.Tr>
                       <Table.Td><Text fw={500}>Previous Close</Text></Table.Td>
                       <Table.Td>
-                        <Text c={data.previousClose ? 'blue' : 'dimmed'}>
-                          {data.previousClose || 'N/A'}
-                        </Text>
+                        {data.previousClose?.status === 'ok' ? (
+                          <Text c="blue">{data.previousClose.value}</Text>
+                        ) : (
+                          <SymbolFieldStatus field={data.previousClose} />
+                        )}
                       </Table.Td>
                     </Table.Tr>
                     <Table.Tr>
@@ -220,9 +238,11 @@ export default function SymbolPage() {
                     SEC Filings
                   </Group>
                 </Title>
-                <Text size="sm">
-                  {data.secFiling}
-                </Text>
+                {data.secFilings?.status === 'ok' && data.secFilings.value ? (
+                  <SecFilingsTable filings={data.secFilings.value} />
+                ) : (
+                  <SymbolFieldStatus field={data.secFilings} emptyLabel="No recent SEC filings" />
+                )}
               </Paper>
             </Stack>
           </Grid.Col>
@@ -237,10 +257,11 @@ export default function SymbolPage() {
                 </Group>
               </Title>
               
-              {data.executives.executives.length === 0 ? (
-                <Text c="dimmed" ta="center" py="md">
-                  No executive information available
-                </Text>
+              {executives.length === 0 ? (
+                <Group gap="xs" justify="center" py="md">
+                  <Text c="dimmed">No executive information available</Text>
+                  {data.executives?.status !== 'ok' && <SymbolFieldStatus field={data.executives} />}
+                </Group>
               ) : (
                 <Table>
                   <Table.Thead>
@@ -261,14 +282,15 @@ export default function SymbolPage() {
           <Title order={3} mb="md" c="teal">
             <Group gap="xs">
               <IconNews size={20} />
-              Recent News ({data.news.length})
+              Recent News ({news.length})
             </Group>
           </Title>
           
-          {data.news.length === 0 ? (
-            <Text c="dimmed" ta="center" py="md">
-              No recent news available
-            </Text>
+          {news.length === 0 ? (
+            <Group gap="xs" justify="center" py="md">
+              <Text c="dimmed">No recent news available</Text>
+              {data.news?.status !== 'ok' && data.news?.status !== 'empty' && <SymbolFieldStatus field={data.news} />}
+            </Group>
           ) : (
             <Table.ScrollContainer minWidth={600}>
               <Table striped highlightOnHover>
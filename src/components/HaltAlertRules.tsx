@@ -0,0 +1,292 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  ActionIcon, Badge, Button, Checkbox, Collapse, Group, MultiSelect, NumberInput, Stack, Switch, TagsInput, Text, TextInput, Title
+} from '@mantine/core';
+import { IconBell, IconBellOff, IconPlus, IconTrash } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import {
+  DEFAULT_ALERT_RULES,
+  HALT_EVENT_TYPES,
+  alertRuleSchema,
+  describeAlertConditions,
+  type AlertActions,
+  type AlertConditions,
+  type AlertRule
+} from '@/lib/halts/alerts';
+import { HALT_CATEGORIES, HALT_CATEGORY_LABELS, type HaltCategory } from '@/lib/halts/reason-codes';
+import type { HaltEvent, HaltEventType } from '@/lib/halts/watcher';
+import { arrayOf } from '@/lib/schema';
+
+const RULES_KEY = 'mariom-halt-alert-rules';
+const WATCHLIST_KEY = 'mariom-symbols';
+
+const EVENT_TYPE_LABELS: Record<HaltEventType, string> = {
+  new_halt: 'New halt',
+  resumption_set: 'Resumption set',
+  resumed: 'Resumed'
+};
+
+const EMPTY_CONDITIONS: AlertConditions = {
+  eventTypes: ['new_halt'],
+  reasonCodes: [],
+  categories: [],
+  watchlistOnly: false,
+  symbols: [],
+  minPrice: null,
+  maxPrice: null
+};
+
+const EMPTY_ACTIONS: AlertActions = { notify: true, browser: false, sound: false, webhook: false };
+
+function readWatchlist(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(WATCHLIST_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/** Two short tones, so a halt alert can be heard from another window */
+function playAlertSound() {
+  try {
+    const audio = new AudioContext();
+    [0, 0.25].forEach((offset, i) => {
+      const oscillator = audio.createOscillator();
+      const gain = audio.createGain();
+      oscillator.frequency.value = i === 0 ? 880 : 660;
+      gain.gain.setValueAtTime(0.2, audio.currentTime + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, audio.currentTime + offset + 0.2);
+      oscillator.connect(gain).connect(audio.destination);
+      oscillator.start(audio.currentTime + offset);
+      oscillator.stop(audio.currentTime + offset + 0.2);
+    });
+    setTimeout(() => audio.close(), 1000);
+  } catch (error) {
+    console.warn('Could not play alert sound:', error);
+  }
+}
+
+export function HaltAlertRules() {
+  const [rules, setRules] = useState<AlertRule[]>(DEFAULT_ALERT_RULES);
+  const [loaded, setLoaded] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [conditions, setConditions] = useState<AlertConditions>(EMPTY_CONDITIONS);
+  const [actions, setActions] = useState<AlertActions>(EMPTY_ACTIONS);
+
+  // Load rules from localStorage on mount
+  useEffect(() => {
+    const saved = localStorage.getItem(RULES_KEY);
+    if (saved) {
+      try {
+        const parsed = JSON.parse(saved);
+        if (arrayOf(alertRuleSchema)(parsed)) setRules(parsed);
+      } catch (error) {
+        console.error('Error loading saved alert rules:', error);
+      }
+    }
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+
+    // The server sends webhooks itself, so it keeps its own copy of those rules
+    fetch('/api/halts/alerts', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rules: rules.filter(rule => rule.actions.webhook), watchlist: readWatchlist() })
+    }).catch(error => console.error('Error saving webhook alert rules:', error));
+  }, [rules, loaded]);
+
+  // Read by the stream handler without reconnecting on every edit
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+
+  const hasEnabledRules = rules.some(rule => rule.enabled);
+
+  useEffect(() => {
+    if (!loaded || !hasEnabledRules) return;
+
+    const source = new EventSource('/api/halts/stream');
+
+    const handleEvent = async (message: MessageEvent) => {
+      const event: HaltEvent = JSON.parse(message.data);
+      const enabled = rulesRef.current.filter(rule => rule.enabled);
+      if (enabled.length === 0) return;
+
+      try {
+        const response = await fetch('/api/halts/alerts', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ type: event.type, key: event.key, rules: enabled, watchlist: readWatchlist() })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to evaluate alert rules');
+
+        const matched = enabled.filter(rule => data.matched.includes(rule.id));
+        for (const rule of matched) {
+          const title = `🚨 ${rule.name}: ${event.halt.symbol}`;
+          const body = `${EVENT_TYPE_LABELS[event.type]} · ${event.halt.reasonCodes} at ${event.halt.haltTime} ET` +
+            (data.lastPrice !== null ? ` · last $${data.lastPrice}` : '');
+
+          if (rule.actions.notify) {
+            notifications.show({ title, message: body, color: 'red', autoClose: 10000 });
+          }
+          if (rule.actions.browser && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+            new Notification(title, { body, tag: `${rule.id}-${event.key}-${event.type}` });
+          }
+        }
+        if (matched.some(rule => rule.actions.sound)) {
+          playAlertSound();
+        }
+      } catch (error) {
+        console.error('Error evaluating halt alert rules:', error);
+      }
+    };
+
+    source.addEventListener('new_halt', handleEvent);
+    source.addEventListener('resumption_set', handleEvent);
+    source.addEventListener('resumed', handleEvent);
+
+    return () => source.close();
+  }, [loaded, hasEnabledRules]);
+
+  const requestPermission = async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  const updateRule = (id: string, change: Partial<AlertRule>) => {
+    setRules(current => current.map(rule => (rule.id === id ? { ...rule, ...change } : rule)));
+  };
+
+  const addRule = () => {
+    if (!name.trim()) return;
+    setRules(current => [...current, { id: `rule-${Date.now()}`, name: name.trim(), enabled: true, conditions, actions }]);
+    setName('');
+    setConditions(EMPTY_CONDITIONS);
+    setActions(EMPTY_ACTIONS);
+    setAdding(false);
+  };
+
+  const setPrice = (key: 'minPrice' | 'maxPrice') => (value: string | number) => {
+    setConditions(current => ({ ...current, [key]: typeof value === 'number' ? value : null }));
+  };
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between">
+        <Title order={4}>🔔 Halt Alerts</Title>
+        {permission === 'granted' ? (
+          <Badge variant="light" color="green" leftSection={<IconBell size={12} />}>Browser alerts on</Badge>
+        ) : permission === 'unsupported' ? (
+          <Badge variant="light" color="gray" leftSection={<IconBellOff size={12} />}>No browser alerts</Badge>
+        ) : (
+          <Button size="xs" variant="light" leftSection={<IconBell size={14} />} onClick={requestPermission}>
+            Allow browser alerts
+          </Button>
+        )}
+      </Group>
+
+      {rules.length === 0 && (
+        <Text size="sm" c="dimmed">No alert rules yet</Text>
+      )}
+
+      {rules.map(rule => (
+        <Group key={rule.id} justify="space-between" wrap="nowrap" align="flex-start">
+          <Switch
+            checked={rule.enabled}
+            onChange={(event) => updateRule(rule.id, { enabled: event.currentTarget.checked })}
+            label={rule.name}
+            description={describeAlertConditions(rule.conditions)}
+            size="sm"
+          />
+          <Group gap={4} wrap="nowrap">
+            {rule.actions.webhook && <Badge size="xs" variant="outline">webhook</Badge>}
+            <ActionIcon
+              variant="subtle"
+              color="red"
+              size="sm"
+              onClick={() => setRules(current => current.filter(r => r.id !== rule.id))}
+              title="Delete rule"
+            >
+              <IconTrash size={14} />
+            </ActionIcon>
+          </Group>
+        </Group>
+      ))}
+
+      <Button size="xs" variant="subtle" leftSection={<IconPlus size={14} />} onClick={() => setAdding(!adding)}>
+        {adding ? 'Cancel' : 'Add rule'}
+      </Button>
+
+      <Collapse in={adding}>
+        <Stack gap="xs">
+          <TextInput size="xs" label="Name" value={name} onChange={(event) => setName(event.currentTarget.value)} />
+          <MultiSelect
+            size="xs"
+            label="Events"
+            data={HALT_EVENT_TYPES.map(type => ({ value: type, label: EVENT_TYPE_LABELS[type] }))}
+            value={conditions.eventTypes}
+            onChange={(value) => setConditions(current => ({ ...current, eventTypes: value as HaltEventType[] }))}
+          />
+          <TagsInput
+            size="xs"
+            label="Reason codes"
+            placeholder="e.g. LUDP, T1"
+            value={conditions.reasonCodes}
+            onChange={(value) => setConditions(current => ({ ...current, reasonCodes: value.map(code => code.toUpperCase()) }))}
+          />
+          <MultiSelect
+            size="xs"
+            label="Categories"
+            data={HALT_CATEGORIES.map(category => ({ value: category, label: HALT_CATEGORY_LABELS[category] }))}
+            value={conditions.categories}
+            onChange={(value) => setConditions(current => ({ ...current, categories: value as HaltCategory[] }))}
+          />
+          <TagsInput
+            size="xs"
+            label="Symbols"
+            placeholder="Any symbol"
+            value={conditions.symbols}
+            onChange={(value) => setConditions(current => ({ ...current, symbols: value.map(symbol => symbol.toUpperCase()) }))}
+          />
+          <Checkbox
+            size="xs"
+            label="Only symbols in my watchlist"
+            checked={conditions.watchlistOnly}
+            onChange={(event) => setConditions(current => ({ ...current, watchlistOnly: event.currentTarget.checked }))}
+          />
+          <Group grow>
+            <NumberInput size="xs" label="Min price" prefix="$" min={0} decimalScale={4} value={conditions.minPrice ?? ''} onChange={setPrice('minPrice')} />
+            <NumberInput size="xs" label="Max price" prefix="$" min={0} decimalScale={4} value={conditions.maxPrice ?? ''} onChange={setPrice('maxPrice')} />
+          </Group>
+          <Group gap="md">
+            {(['notify', 'browser', 'sound', 'webhook'] as (keyof AlertActions)[]).map(key => (
+              <Checkbox
+                key={key}
+                size="xs"
+                label={{ notify: 'In-app', browser: 'Browser', sound: 'Sound', webhook: 'Webhook' }[key]}
+                checked={actions[key]}
+                onChange={(event) => {
+                  const checked = event.currentTarget.checked;
+                  setActions(current => ({ ...current, [key]: checked }));
+                  if (key === 'browser' && checked && permission === 'default') requestPermission();
+                }}
+              />
+            ))}
+          </Group>
+          <Button size="xs" onClick={addRule} disabled={!name.trim()}>
+            Save rule
+          </Button>
+        </Stack>
+      </Collapse>
+    </Stack>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge, Button, Grid, Group, Paper, Progress, SegmentedControl, SimpleGrid, Stack, Table, Text, Title, Tooltip } from '@mantine/core';
+import { IconRefresh } from '@tabler/icons-react';
+import { easternDateKey } from '@/lib/market-calendar';
+import { formatHaltDuration } from '@/lib/halts/status';
+import { HALT_CATEGORY_COLORS } from '@/lib/halts/reason-codes';
+import type { HaltStats } from '@/lib/halts/stats';
+
+const RANGES = [
+  { value: '1', label: 'Today' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' }
+];
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 160;
+
+interface HaltStatsPanelProps {
+  onSymbolClick?: (symbol: string) => void;
+}
+
+function rangeStart(days: number): string {
+  return easternDateKey(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+}
+
+function CountBars({ rows }: { rows: { label: string; count: number; color?: string; hint?: string }[] }) {
+  const max = Math.max(1, ...rows.map(row => row.count));
+  return (
+    <Stack gap={6}>
+      {rows.map(row => (
+        <Group key={row.label} gap="xs" wrap="nowrap">
+          <Tooltip label={row.hint || row.label} withArrow disabled={!row.hint}>
+            <Text size="xs" w={90} truncate fw={600}>{row.label}</Text>
+          </Tooltip>
+          <Progress value={(row.count / max) * 100} color={row.color || 'blue'} size="lg" style={{ flex: 1 }} />
+          <Text size="xs" w={36} ta="right">{row.count}</Text>
+        </Group>
+      ))}
+    </Stack>
+  );
+}
+
+/** Halts per exchange-time hour, as SVG columns */
+function HourChart({ byHour }: { byHour: number[] }) {
+  const max = Math.max(1, ...byHour);
+  const columnWidth = CHART_WIDTH / 24;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 20}`} width="100%" role="img" aria-label="Halts by hour of day">
+      {byHour.map((count, hour) => {
+        const height = (count / max) * CHART_HEIGHT;
+        const regular = hour >= 9 && hour < 16;
+        return (
+          <g key={hour}>
+            <rect
+              x={hour * columnWidth + 2}
+              y={CHART_HEIGHT - height}
+              width={columnWidth - 4}
+              height={height}
+              fill={regular ? 'var(--mantine-color-red-6)' : 'var(--mantine-color-gray-5)'}
+            >
+              <title>{`${hour}:00 ET - ${count} halt${count === 1 ? '' : 's'}`}</title>
+            </rect>
+            <text x={hour * columnWidth + columnWidth / 2} y={CHART_HEIGHT + 14} fontSize={10} textAnchor="middle" fill="#868e96">
+              {hour}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export function HaltStatsPanel({ onSymbolClick }: HaltStatsPanelProps) {
+  const [days, setDays] = useState('30');
+  const [stats, setStats] = useState<HaltStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = new URLSearchParams({ from: rangeStart(parseInt(days, 10)), to: easternDateKey() });
+      const response = await fetch(`/api/halts/stats?${query}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch halt stats');
+
+      setStats(data.stats);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching halt stats:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <Title order={2}>📉 Halt Statistics</Title>
+        <Group gap="sm">
+          <SegmentedControl size="sm" value={days} onChange={setDays} data={RANGES} />
+          <Button variant="light" size="sm" leftSection={<IconRefresh size={16} />} onClick={fetchStats} loading={loading}>
+            Refresh
+          </Button>
+        </Group>
+      </Group>
+
+      {error && <Text c="red" size="sm">{error}</Text>}
+
+      {stats && (
+        <>
+          <SimpleGrid cols={{ base: 2, md: 4 }}>
+            <Paper withBorder p="sm" radius="md">
+              <Text size="xs" c="dimmed">Halts</Text>
+              <Text fw={700} size="xl">{stats.total}</Text>
+            </Paper>
+            <Paper withBorder p="sm" radius="md">
+              <Text size="xs" c="dimmed">Symbols</Text>
+              <Text fw={700} size="xl">{stats.symbols}</Text>
+            </Paper>
+            <Paper withBorder p="sm" radius="md">
+              <Text size="xs" c="dimmed">Median duration ({stats.resumedCount} resumed)</Text>
+              <Text fw={700} size="xl">
+                {stats.medianDurationSeconds === null ? '—' : formatHaltDuration(Math.round(stats.medianDurationSeconds))}
+              </Text>
+            </Paper>
+            <Paper withBorder p="sm" radius="md">
+              <Text size="xs" c="dimmed">Repeat-halted symbols</Text>
+              <Text fw={700} size="xl">{stats.repeatSymbols.length}</Text>
+            </Paper>
+          </SimpleGrid>
+
+          <Paper withBorder p="md" radius="md">
+            <Text fw={600} mb="xs">Halts by hour of day (ET)</Text>
+            <HourChart byHour={stats.byHour} />
+          </Paper>
+
+          <Grid>
+            <Grid.Col span={{ base: 12, md: 6 }}>
+              <Paper withBorder p="md" radius="md" h="100%">
+                <Text fw={600} mb="xs">By reason code</Text>
+                <CountBars
+                  rows={stats.byReasonCode.map(reason => ({
+                    label: reason.code,
+                    count: reason.count,
+                    color: HALT_CATEGORY_COLORS[reason.category],
+                    hint: reason.description
+                  }))}
+                />
+              </Paper>
+            </Grid.Col>
+            <Grid.Col span={{ base: 12, md: 6 }}>
+              <Paper withBorder p="md" radius="md" h="100%">
+                <Text fw={600} mb="xs">By market</Text>
+                <CountBars rows={stats.byMarket.map(market => ({ label: market.market, count: market.count, color: 'gray' }))} />
+              </Paper>
+            </Grid.Col>
+          </Grid>
+
+          <Grid>
+            <Grid.Col span={{ base: 12, md: 6 }}>
+              <Paper withBorder p="md" radius="md" h="100%">
+                <Text fw={600} mb="xs">Repeat-halted symbols</Text>
+                {stats.repeatSymbols.length === 0 ? (
+                  <Text size="sm" c="dimmed">No symbol was halted more than once</Text>
+                ) : (
+                  <Table striped highlightOnHover>
+                    <Table.Thead>
+                      <Table.Tr>
+                        <Table.Th>Symbol</Table.Th>
+                        <Table.Th>Halts</Table.Th>
+                        <Table.Th>LULD</Table.Th>
+                        <Table.Th>Days</Table.Th>
+                        <Table.Th>Last halted</Table.Th>
+                      </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                      {stats.repeatSymbols.map(row => (
+                        <Table.Tr key={row.symbol}>
+                          <Table.Td>
+                            <Badge variant="light" style={{ cursor: onSymbolClick ? 'pointer' : undefined }} onClick={() => onSymbolClick?.(row.symbol)}>
+                              {row.symbol}
+                            </Badge>
+                          </Table.Td>
+                          <Table.Td>{row.halts}</Table.Td>
+                          <Table.Td>{row.luldPauses}</Table.Td>
+                          <Table.Td>{row.days}</Table.Td>
+                          <Table.Td>{row.lastHaltedAt ? new Date(row.lastHaltedAt).toLocaleString() : '—'}</Table.Td>
+                        </Table.Tr>
+                      ))}
+                    </Table.Tbody>
+                  </Table>
+                )}
+              </Paper>
+            </Grid.Col>
+            <Grid.Col span={{ base: 12, md: 6 }}>
+              <Paper withBorder p="md" radius="md" h="100%">
+                <Text fw={600} mb="xs">LULD pauses per symbol per day</Text>
+                {stats.luld.distribution.length === 0 ? (
+                  <Text size="sm" c="dimmed">No LULD pauses in this range</Text>
+                ) : (
+                  <Stack gap="sm">
+                    <CountBars
+                      rows={stats.luld.distribution.map(bucket => ({
+                        label: `${bucket.pauses} pause${bucket.pauses === 1 ? '' : 's'}`,
+                        count: bucket.symbolDays,
+                        color: 'orange',
+                        hint: `${bucket.symbolDays} symbol-day(s) with ${bucket.pauses} pause(s)`
+                      }))}
+                    />
+                    <Group gap={6}>
+                      {stats.luld.top.filter(day => day.pauses > 1).slice(0, 10).map(day => (
+                        <Badge key={`${day.symbol}-${day.date}`} variant="outline" color="orange">
+                          {day.symbol} {day.date}: {day.pauses}
+                        </Badge>
+                      ))}
+                    </Group>
+                  </Stack>
+                )}
+              </Paper>
+            </Grid.Col>
+          </Grid>
+        </>
+      )}
+    </Stack>
+  );
+}
@@ -1,38 +1,74 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { Table, Title, Button, Text, Badge, Stack, Group, ActionIcon, Anchor, Progress } from '@mantine/core';
-import { IconRefresh, IconExternalLink, IconPlayerPlay, IconPlayerPause } from '@tabler/icons-react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Table, Title, Button, Text, Badge, Stack, Group, ActionIcon, Anchor, Progress, TextInput, Tooltip, SegmentedControl, Switch, Menu } from '@mantine/core';
+import { IconRefresh, IconExternalLink, IconPlayerPlay, IconPlayerPause, IconSearch, IconDownload } from '@tabler/icons-react';
 import { notifications } from '@mantine/notifications';
+import { useDebouncedValue } from '@mantine/hooks';
+import { easternDateKey } from '@/lib/market-calendar';
+import { formatHaltDuration, haltKey, haltStatusAt, matchesHaltQuery } from '@/lib/halts/status';
+import {
+  HALT_CATEGORIES,
+  HALT_CATEGORY_COLORS,
+  HALT_CATEGORY_LABELS,
+  type HaltCategory
+} from '@/lib/halts/reason-codes';
+import type { Halt, HaltEnrichment, HaltStatus } from '@/lib/halts/types';
+import type { HaltEvent } from '@/lib/halts/watcher';
 
-interface HaltData {
-  symbol: string;
-  haltDate: string;
-  haltTime: string;
-  issueName: string;
-  market: string;
-  reasonCodes: string;
-  pauseThresholdPrice: string;
-  resumptionDate: string;
-  resumptionQuoteTime: string;
-}
+const FLASH_MS = 8000;
+
+const EVENT_LABELS: Record<HaltEvent['type'], string> = {
+  new_halt: 'New halt',
+  resumption_set: 'Resumption time set',
+  resumed: 'Trading resumed'
+};
+
+const STATUS_STYLES: Record<HaltStatus, { color: string; label: string; order: number }> = {
+  halted: { color: 'red', label: 'Halted', order: 0 },
+  quoting: { color: 'yellow', label: 'Quoting', order: 1 },
+  resumed: { color: 'green', label: 'Resumed', order: 2 }
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  nasdaq: 'NASDAQ',
+  nyse: 'NYSE',
+  cboe: 'Cboe'
+};
 
 interface HaltsTableProps {
   onSymbolClick?: (symbol: string) => void;
 }
 
 export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
-  const [halts, setHalts] = useState<HaltData[]>([]);
+  const [halts, setHalts] = useState<Halt[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const [fromDate, setFromDate] = useState(() => easternDateKey());
+  const [toDate, setToDate] = useState(() => easternDateKey());
+  const [symbolFilter, setSymbolFilter] = useState('');
+  const [debouncedSymbol] = useDebouncedValue(symbolFilter.trim(), 400);
+  const [categoryFilter, setCategoryFilter] = useState<HaltCategory | 'all'>('all');
   const [loading, setLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [countdown, setCountdown] = useState(30);
+  const [live, setLive] = useState(false);
+  const [flashKeys, setFlashKeys] = useState<Set<string>>(() => new Set());
+  const [showContext, setShowContext] = useState(false);
+
+  const today = easternDateKey();
+  const isToday = fromDate === today && toDate === today;
+  const rangeLabel = isToday ? 'for today' : fromDate === toDate ? `on ${fromDate}` : `from ${fromDate} to ${toDate}`;
 
   const fetchHalts = useCallback(async (showNotification = true) => {
     setLoading(true);
     try {
+      const query = new URLSearchParams({ from: fromDate, to: toDate });
+      if (debouncedSymbol) query.set('symbol', debouncedSymbol);
+      if (showContext) query.set('enrich', 'true');
+
       console.log('Fetching halts from API...');
-      const response = await fetch('/api/halts', {
+      const response = await fetch(`/api/halts?${query}`, {
         method: 'GET',
         headers: {
           'Cache-Control': 'no-cache'
@@ -53,7 +89,7 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
       if (showNotification) {
         notifications.show({
           title: 'Halts Updated',
-          message: `Found ${data.halts?.length || 0} halts for today`,
+          message: `Found ${data.halts?.length || 0} halts ${rangeLabel}`,
           color: 'blue',
           autoClose: 3000,
         });
@@ -69,7 +105,7 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
         notifications.show({
           title: isTimeoutError ? 'Service Timeout' : 'Error',
           message: isTimeoutError ? 
-            'NASDAQ service is experiencing delays. Retrying automatically in 30 seconds.' : 
+            'Halt feeds are experiencing delays. Retrying automatically in 30 seconds.' : 
             `Failed to fetch halt data: ${errorMessage}`,
           color: isTimeoutError ? 'yellow' : 'red',
           autoClose: isTimeoutError ? 5000 : 4000,
@@ -81,15 +117,78 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [fromDate, toDate, debouncedSymbol, showContext, rangeLabel]);
 
-  // Auto-refresh functionality
+  // Read by the event stream handlers without reconnecting on every filter change
+  const queryRef = useRef({ from: fromDate, to: toDate, symbols: debouncedSymbol ? [debouncedSymbol.toUpperCase()] : [] });
+  queryRef.current = { from: fromDate, to: toDate, symbols: debouncedSymbol ? [debouncedSymbol.toUpperCase()] : [] };
+  const fetchHaltsRef = useRef(fetchHalts);
+  fetchHaltsRef.current = fetchHalts;
+
+  // Live halt events from the server-side watcher; polling takes over while disconnected
+  useEffect(() => {
+    if (!autoRefresh) return;
+
+    const source = new EventSource('/api/halts/stream');
+
+    const handleEvent = (message: MessageEvent) => {
+      const event: HaltEvent = JSON.parse(message.data);
+      if (!matchesHaltQuery(event.halt, queryRef.current)) return;
+
+      setHalts(current => {
+        const index = current.findIndex(halt => haltKey(halt) === event.key);
+        if (index === -1) return [event.halt, ...current];
+        const next = [...current];
+        // Stream events carry no enrichment, keep what the last fetch attached
+        next[index] = { ...next[index], ...event.halt };
+        return next;
+      });
+      setLastUpdated(new Date());
+
+      setFlashKeys(current => new Set(current).add(event.key));
+      setTimeout(() => {
+        setFlashKeys(current => {
+          const next = new Set(current);
+          next.delete(event.key);
+          return next;
+        });
+      }, FLASH_MS);
+
+      notifications.show({
+        title: `${EVENT_LABELS[event.type]}: ${event.halt.symbol}`,
+        message: `${event.halt.reasonCodes} at ${event.halt.haltTime} ET`,
+        color: event.type === 'resumed' ? 'green' : event.type === 'new_halt' ? 'red' : 'yellow',
+        autoClose: 6000,
+      });
+    };
+
+    let reconnecting = false;
+    source.addEventListener('ready', () => {
+      setLive(true);
+      // Catch up on anything that happened while the stream was down
+      if (reconnecting) fetchHaltsRef.current(false);
+      reconnecting = true;
+    });
+    source.addEventListener('new_halt', handleEvent);
+    source.addEventListener('resumption_set', handleEvent);
+    source.addEventListener('resumed', handleEvent);
+    source.onerror = () => setLive(false);
+
+    return () => {
+      source.close();
+      setLive(false);
+    };
+  }, [autoRefresh]);
+
+  // Initial fetch, and again whenever the range or filters change
   useEffect(() => {
-    // Initial fetch
     fetchHalts(false);
+  }, [fetchHalts]);
 
+  // Auto-refresh functionality
+  useEffect(() => {
     const interval = setInterval(() => {
-      if (autoRefresh) {
+      if (autoRefresh && !live) {
         setCountdown((prev) => {
           if (prev <= 1) {
             fetchHalts(false);
@@ -101,7 +200,35 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [autoRefresh, fetchHalts]);
+  }, [autoRefresh, live, fetchHalts]);
+
+  // Drives the live halt timers and status changes between polls
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Open halts first, then quoting, then resumed; newest first within each
+  const sortedHalts = useMemo(() => {
+    return halts
+      .filter(halt => categoryFilter === 'all' || halt.reasons.some(reason => reason.category === categoryFilter))
+      .map(halt => ({ ...halt, status: haltStatusAt(halt, now) }))
+      .sort((a, b) => STATUS_STYLES[a.status].order - STATUS_STYLES[b.status].order);
+  }, [halts, now, categoryFilter]);
+
+  const haltDuration = (halt: Halt): string => {
+    if (!halt.haltedAt) return 'N/A';
+    const end = halt.status === 'resumed' && halt.resumptionTradeAt ? Date.parse(halt.resumptionTradeAt) : now.getTime();
+    return formatHaltDuration(Math.max(0, Math.round((end - Date.parse(halt.haltedAt)) / 1000)));
+  };
+
+  // Same range and filters as the table, as a file download
+  const exportUrl = (format: 'csv' | 'json' | 'ndjson') => {
+    const query = new URLSearchParams({ from: fromDate, to: toDate, format });
+    if (debouncedSymbol) query.set('symbol', debouncedSymbol);
+    if (categoryFilter !== 'all') query.set('category', categoryFilter);
+    return `/api/halts?${query}`;
+  };
 
   const handleManualRefresh = () => {
     fetchHalts(true);
@@ -145,8 +272,14 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
     }
   };
 
-  const rows = halts.map((halt, index) => (
-    <Table.Tr key={index}>
+  const rows = sortedHalts.map((halt, index) => (
+    <Table.Tr
+      key={`${halt.symbol}-${halt.haltDate}-${halt.haltTime}-${index}`}
+      bg={flashKeys.has(haltKey(halt))
+        ? 'var(--mantine-color-yellow-3)'
+        : halt.status === 'resumed' ? undefined : `var(--mantine-color-${STATUS_STYLES[halt.status].color}-light)`}
+      style={{ transition: 'background-color 0.6s ease' }}
+    >
       <Table.Td>
         <Group gap="xs">
           <Badge 
@@ -176,6 +309,16 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
           {halt.haltTime}
         </Badge>
       </Table.Td>
+      <Table.Td>
+        <Badge variant="filled" color={STATUS_STYLES[halt.status].color} size="sm">
+          {STATUS_STYLES[halt.status].label}
+        </Badge>
+      </Table.Td>
+      <Table.Td>
+        <Text size="sm" fw={halt.status === 'resumed' ? 400 : 700} c={halt.status === 'resumed' ? undefined : 'red'} ff="monospace">
+          {haltDuration(halt)}
+        </Text>
+      </Table.Td>
       <Table.Td>
         <Text size="sm" lineClamp={2} title={halt.issueName}>
           {halt.issueName}
@@ -185,11 +328,31 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
         <Badge variant="filled" color="gray" size="sm">
           {halt.market}
         </Badge>
+        <Text size="xs" c="dimmed">
+          via {(halt.sources || [halt.source]).map(source => SOURCE_LABELS[source] || source).join(', ')}
+        </Text>
       </Table.Td>
       <Table.Td>
-        <Badge variant="outline" size="sm" color="red">
-          {halt.reasonCodes}
-        </Badge>
+        <Group gap={4}>
+          {halt.reasons.length === 0 ? (
+            <Text c="dimmed" size="sm">{halt.reasonCodes}</Text>
+          ) : halt.reasons.map(reason => (
+            <Tooltip
+              key={reason.code}
+              label={`${reason.description} • ${HALT_CATEGORY_LABELS[reason.category]} • ${reason.severity} severity`}
+              withArrow
+            >
+              <Badge
+                variant={reason.severity === 'high' ? 'filled' : 'light'}
+                color={HALT_CATEGORY_COLORS[reason.category]}
+                size="sm"
+                style={{ cursor: 'help' }}
+              >
+                {reason.code}
+              </Badge>
+            </Tooltip>
+          ))}
+        </Group>
       </Table.Td>
       <Table.Td>
         <Text c={halt.pauseThresholdPrice !== 'N/A' ? 'blue' : 'dimmed'}>
@@ -206,13 +369,23 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
           {halt.resumptionQuoteTime}
         </Text>
       </Table.Td>
+      <Table.Td>
+        <Text c={halt.resumptionTradeTime && halt.resumptionTradeTime !== 'N/A' ? 'green' : 'dimmed'}>
+          {halt.resumptionTradeTime || 'N/A'}
+        </Text>
+      </Table.Td>
+      {showContext && (
+        <Table.Td miw={260}>
+          {halt.enrichment ? <HaltContext enrichment={halt.enrichment} /> : <Text size="xs" c="dimmed">N/A</Text>}
+        </Table.Td>
+      )}
     </Table.Tr>
   ));
 
   return (
     <Stack gap="md">
       <Group justify="space-between" align="center">
-        <Title order={2} c="red">🛑 NASDAQ Trading Halts - Today</Title>
+        <Title order={2} c="red">🛑 Trading Halts - {isToday ? 'Today' : fromDate === toDate ? fromDate : `${fromDate} to ${toDate}`}</Title>
         <Group gap="md">
           {lastUpdated && (
             <Text size="sm" c="dimmed">
@@ -220,7 +393,13 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
             </Text>
           )}
           
-          {autoRefresh && (
+          {autoRefresh && live && (
+            <Badge variant="dot" color="green" size="lg">
+              Live
+            </Badge>
+          )}
+
+          {autoRefresh && !live && (
             <Group gap="xs">
               <Text size="sm" c="dimmed">
                 Next refresh: {countdown}s
@@ -239,6 +418,20 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
             {autoRefresh ? 'Auto ON' : 'Auto OFF'}
           </Button>
 
+          <Menu shadow="md" position="bottom-end">
+            <Menu.Target>
+              <Button variant="light" color="gray" leftSection={<IconDownload size={16} />} size="sm">
+                Export
+              </Button>
+            </Menu.Target>
+            <Menu.Dropdown>
+              <Menu.Label>Halts {rangeLabel}</Menu.Label>
+              <Menu.Item component="a" href={exportUrl('csv')} download>CSV</Menu.Item>
+              <Menu.Item component="a" href={exportUrl('json')} download>JSON</Menu.Item>
+              <Menu.Item component="a" href={exportUrl('ndjson')} download>NDJSON</Menu.Item>
+            </Menu.Dropdown>
+          </Menu>
+
           <Button
             variant="light"
             leftSection={<IconRefresh size={16} />}
@@ -251,24 +444,87 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
         </Group>
       </Group>
 
-      {halts.length === 0 && !loading ? (
+      <Group gap="md" align="flex-end">
+        <TextInput
+          type="date"
+          label="From"
+          value={fromDate}
+          max={toDate}
+          onChange={(event) => event.currentTarget.value && setFromDate(event.currentTarget.value)}
+          size="sm"
+        />
+        <TextInput
+          type="date"
+          label="To"
+          value={toDate}
+          min={fromDate}
+          max={today}
+          onChange={(event) => event.currentTarget.value && setToDate(event.currentTarget.value)}
+          size="sm"
+        />
+        <TextInput
+          label="Symbol"
+          placeholder="All symbols"
+          leftSection={<IconSearch size={14} />}
+          value={symbolFilter}
+          onChange={(event) => setSymbolFilter(event.currentTarget.value.toUpperCase())}
+          size="sm"
+          w={160}
+        />
+        {!isToday && (
+          <Button
+            variant="subtle"
+            size="sm"
+            onClick={() => {
+              setFromDate(today);
+              setToDate(today);
+            }}
+          >
+            Today
+          </Button>
+        )}
+        <Switch
+          label="Price & news context"
+          checked={showContext}
+          onChange={(event) => setShowContext(event.currentTarget.checked)}
+          size="sm"
+          mb={6}
+        />
+        <SegmentedControl
+          size="sm"
+          value={categoryFilter}
+          onChange={(value) => setCategoryFilter(value as HaltCategory | 'all')}
+          data={[
+            { value: 'all', label: 'All reasons' },
+            ...HALT_CATEGORIES.map(category => ({ value: category, label: HALT_CATEGORY_LABELS[category] }))
+          ]}
+        />
+      </Group>
+
+      {sortedHalts.length === 0 && !loading ? (
         <Text ta="center" c="dimmed" py="xl" size="lg">
-          🎉 No trading halts found for today - Market running smoothly!
+          {isToday && !symbolFilter && categoryFilter === 'all'
+            ? '🎉 No trading halts found for today - Market running smoothly!'
+            : `No ${categoryFilter === 'all' ? '' : `${HALT_CATEGORY_LABELS[categoryFilter].toLowerCase()} `}trading halts found ${rangeLabel}${symbolFilter ? ` for ${symbolFilter}` : ''}`}
         </Text>
       ) : (
-        <Table.ScrollContainer minWidth={1000}>
+        <Table.ScrollContainer minWidth={1200}>
           <Table striped highlightOnHover withTableBorder>
             <Table.Thead>
               <Table.Tr>
                 <Table.Th>📈 Symbol</Table.Th>
                 <Table.Th>📅 Halt Date</Table.Th>
                 <Table.Th>⏰ Halt Time</Table.Th>
+                <Table.Th>🚦 Status</Table.Th>
+                <Table.Th>⏱️ Duration</Table.Th>
                 <Table.Th>🏢 Issue Name</Table.Th>
                 <Table.Th>🏪 Market</Table.Th>
                 <Table.Th>❓ Reason Code</Table.Th>
                 <Table.Th>💰 Price</Table.Th>
                 <Table.Th>🔄 Resume Date</Table.Th>
-                <Table.Th>⏰ Resume Time</Table.Th>
+                <Table.Th>⏰ Resume Quote</Table.Th>
+                <Table.Th>⏰ Resume Trade</Table.Th>
+                {showContext && <Table.Th>🧭 Context</Table.Th>}
               </Table.Tr>
             </Table.Thead>
             <Table.Tbody>{rows}</Table.Tbody>
@@ -277,8 +533,54 @@ export function HaltsTable({ onSymbolClick }: HaltsTableProps) {
       )}
 
       <Text size="xs" c="dimmed" ta="center">
-        📊 Data from NASDAQ Trading Halts API • Click on symbols to analyze • Links to Yahoo Finance
+        📊 Data from the NASDAQ, NYSE and Cboe halt feeds plus our halt archive • Click on symbols to analyze • Links to Yahoo Finance
       </Text>
     </Stack>
   );
 }
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+function HaltContext({ enrichment }: { enrichment: HaltEnrichment }) {
+  const { lastPrice, lastPriceSource, thresholdDistancePercent, premarketGapPercent, latestNews, latestFiling } = enrichment;
+
+  return (
+    <Stack gap={4}>
+      <Group gap={4}>
+        {lastPrice !== null && (
+          <Tooltip label={`Last price from ${lastPriceSource}`} withArrow>
+            <Badge variant="light" color="dark" size="sm">${lastPrice.toFixed(2)}</Badge>
+          </Tooltip>
+        )}
+        {thresholdDistancePercent !== null && (
+          <Tooltip label="Distance from the pause threshold price" withArrow>
+            <Badge variant="outline" color={thresholdDistancePercent >= 0 ? 'teal' : 'red'} size="sm">
+              {formatPercent(thresholdDistancePercent)} vs band
+            </Badge>
+          </Tooltip>
+        )}
+        {premarketGapPercent !== null && (
+          <Tooltip label="Premarket gap against the previous close" withArrow>
+            <Badge variant="outline" color={premarketGapPercent >= 0 ? 'teal' : 'red'} size="sm">
+              Gap {formatPercent(premarketGapPercent)}
+            </Badge>
+          </Tooltip>
+        )}
+        {latestFiling && (
+          <Tooltip label={`${latestFiling.title} - ${new Date(latestFiling.filedAt).toLocaleString()}`} withArrow multiline w={280}>
+            <Badge component="a" href={latestFiling.url} target="_blank" variant="light" color="grape" size="sm" style={{ cursor: 'pointer' }}>
+              {latestFiling.formType}
+            </Badge>
+          </Tooltip>
+        )}
+      </Group>
+      {latestNews ? (
+        <Anchor href={latestNews.link} target="_blank" size="xs" lineClamp={2} title={latestNews.time}>
+          📰 {latestNews.title}
+        </Anchor>
+      ) : (
+        <Text size="xs" c="dimmed">No recent news</Text>
+      )}
+    </Stack>
+  );
+}
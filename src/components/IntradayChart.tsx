@@ -0,0 +1,248 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, Badge, Center, Group, Loader, SegmentedControl, Text } from '@mantine/core';
+import { IconAlertCircle } from '@tabler/icons-react';
+import { MARKET_TIME_ZONE, parseEasternDateTime } from '@/lib/market-calendar';
+import type { Candle, ChartData, ChartInterval, ChartRange, SessionBand } from '@/lib/chart';
+
+interface IntradayChartProps {
+  symbol: string;
+  previousClose?: number | null;
+  premarketLow?: number | null;
+}
+
+interface HaltMarker {
+  time: number;
+  label: string;
+}
+
+const PRESETS: Record<string, { interval: ChartInterval; range: ChartRange }> = {
+  '1D': { interval: '1m', range: '1d' },
+  '5D': { interval: '5m', range: '5d' },
+  '1M': { interval: '30m', range: '1mo' },
+  '1Y': { interval: '1d', range: '1y' }
+};
+
+const WIDTH = 1000;
+const HEIGHT = 360;
+const PAD = { top: 10, right: 64, bottom: 24, left: 8 };
+
+const SESSION_FILLS: Record<SessionBand['session'], string | null> = {
+  premarket: '#e7f5ff',
+  regular: null,
+  after_hours: '#f3f0ff'
+};
+
+function formatAxisTime(time: number, daily: boolean): string {
+  return new Date(time * 1000).toLocaleString('en-US', daily
+    ? { timeZone: MARKET_TIME_ZONE, month: 'short', day: 'numeric' }
+    : { timeZone: MARKET_TIME_ZONE, hour: 'numeric', minute: '2-digit' });
+}
+
+/** Index of the last candle starting at or before `time` */
+function candleIndexAt(candles: Candle[], time: number): number {
+  let lo = 0;
+  let hi = candles.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (candles[mid].time <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Candlestick chart of a symbol's recent bars with premarket / after-hours
+ * shading, the previous close and premarket low as reference lines, and
+ * today's trading halts from `/api/halts` as vertical markers.
+ */
+export function IntradayChart({ symbol, previousClose, premarketLow }: IntradayChartProps) {
+  const [preset, setPreset] = useState('1D');
+  const [chart, setChart] = useState<ChartData | null>(null);
+  const [halts, setHalts] = useState<HaltMarker[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { interval, range } = PRESETS[preset];
+
+    const fetchChart = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/chart/${encodeURIComponent(symbol)}?interval=${interval}&range=${range}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to fetch chart');
+        }
+
+        if (!cancelled) setChart(result.data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error occurred');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchChart();
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, preset]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHalts = async () => {
+      try {
+        const response = await fetch(`/api/halts?symbol=${encodeURIComponent(symbol)}`);
+        const result = await response.json();
+        if (!result.success || cancelled) return;
+
+        const markers: HaltMarker[] = [];
+        for (const halt of result.halts || []) {
+          if (halt.symbol?.toUpperCase() !== symbol.toUpperCase()) continue;
+          const haltedAt = parseEasternDateTime(halt.haltDate, halt.haltTime);
+          if (haltedAt) {
+            markers.push({ time: haltedAt.getTime() / 1000, label: `Halt ${halt.haltTime} (${halt.reasonCodes})` });
+          }
+        }
+        setHalts(markers);
+      } catch (err) {
+        // Halt markers are decoration, the chart still works without them
+        console.warn('Could not load halts for chart markers:', err);
+      }
+    };
+
+    fetchHalts();
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol]);
+
+  const layout = useMemo(() => {
+    if (!chart || chart.candles.length === 0) return null;
+
+    const candles = chart.candles;
+    const references = [previousClose, premarketLow].filter((v): v is number => typeof v === 'number' && v > 0);
+    let min = Math.min(...candles.map(c => c.low), ...references);
+    let max = Math.max(...candles.map(c => c.high), ...references);
+    const pad = (max - min) * 0.04 || max * 0.01;
+    min -= pad;
+    max += pad;
+
+    const plotWidth = WIDTH - PAD.left - PAD.right;
+    const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+    const step = plotWidth / candles.length;
+    const x = (index: number) => PAD.left + step * (index + 0.5);
+    const y = (price: number) => PAD.top + (max - price) / (max - min) * plotHeight;
+
+    const lastTime = candles[candles.length - 1].time;
+    const barSeconds = candles.length > 1 ? candles[1].time - candles[0].time : 60;
+    const inRange = (time: number) => time >= candles[0].time && time < lastTime + barSeconds;
+
+    const bands = chart.sessions
+      .filter(band => SESSION_FILLS[band.session] && band.end > candles[0].time && band.start < lastTime + barSeconds)
+      .map(band => {
+        const from = band.start <= candles[0].time ? 0 : candleIndexAt(candles, band.start - 1) + 1;
+        const to = candleIndexAt(candles, band.end - 1);
+        return { session: band.session, x: x(from) - step / 2, width: (to - from + 1) * step };
+      })
+      .filter(band => band.width > 0);
+
+    const priceTicks = Array.from({ length: 5 }, (_, i) => min + (max - min) * (i + 0.5) / 5);
+    const timeTicks = Array.from({ length: 6 }, (_, i) => Math.floor((candles.length - 1) * i / 5));
+
+    return {
+      candles,
+      step,
+      x,
+      y,
+      bands,
+      priceTicks,
+      timeTicks,
+      haltMarkers: halts.filter(halt => inRange(halt.time)).map(halt => ({ ...halt, x: x(candleIndexAt(candles, halt.time)) }))
+    };
+  }, [chart, halts, previousClose, premarketLow]);
+
+  const daily = PRESETS[preset].interval === '1d';
+
+  return (
+    <>
+      <Group justify="space-between" p="xs">
+        <Group gap="xs">
+          <Badge variant="light" color="blue">Premarket</Badge>
+          <Badge variant="light" color="violet">After hours</Badge>
+          {previousClose ? <Badge variant="outline" color="gray">Prev close {previousClose}</Badge> : null}
+          {premarketLow ? <Badge variant="outline" color="orange">PM low {premarketLow}</Badge> : null}
+          {halts.length > 0 && <Badge variant="filled" color="red">{halts.length} halt{halts.length === 1 ? '' : 's'} today</Badge>}
+        </Group>
+        <SegmentedControl size="xs" value={preset} onChange={setPreset} data={Object.keys(PRESETS)} />
+      </Group>
+
+      {loading ? (
+        <Center h={HEIGHT / 2}>
+          <Loader size="sm" />
+        </Center>
+      ) : error ? (
+        <Alert variant="light" color="red" m="xs" icon={<IconAlertCircle size={16} />}>
+          {error}
+        </Alert>
+      ) : !layout ? (
+        <Center h={HEIGHT / 3}>
+          <Text c="dimmed" fs="italic">No bars for {symbol} in this range</Text>
+        </Center>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label={`${symbol} price chart`}>
+          {layout.bands.map((band, i) => (
+            <rect key={i} x={band.x} y={PAD.top} width={band.width} height={HEIGHT - PAD.top - PAD.bottom} fill={SESSION_FILLS[band.session] || undefined} />
+          ))}
+
+          {layout.priceTicks.map(price => (
+            <g key={price}>
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={layout.y(price)} y2={layout.y(price)} stroke="#f1f3f5" />
+              <text x={WIDTH - PAD.right + 4} y={layout.y(price) + 4} fontSize={11} fill="#868e96">{price.toFixed(2)}</text>
+            </g>
+          ))}
+
+          {layout.timeTicks.map(index => (
+            <text key={index} x={layout.x(index)} y={HEIGHT - 6} fontSize={11} fill="#868e96" textAnchor="middle">
+              {formatAxisTime(layout.candles[index].time, daily)}
+            </text>
+          ))}
+
+          {layout.candles.map((candle, i) => {
+            const up = candle.close >= candle.open;
+            const color = up ? '#2f9e44' : '#e03131';
+            const bodyTop = layout.y(Math.max(candle.open, candle.close));
+            const bodyHeight = Math.max(layout.y(Math.min(candle.open, candle.close)) - bodyTop, 1);
+            return (
+              <g key={candle.time}>
+                <line x1={layout.x(i)} x2={layout.x(i)} y1={layout.y(candle.high)} y2={layout.y(candle.low)} stroke={color} />
+                <rect x={layout.x(i) - layout.step * 0.35} y={bodyTop} width={Math.max(layout.step * 0.7, 1)} height={bodyHeight} fill={color} />
+              </g>
+            );
+          })}
+
+          {previousClose ? (
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={layout.y(previousClose)} y2={layout.y(previousClose)} stroke="#495057" strokeDasharray="6 4" />
+          ) : null}
+          {premarketLow ? (
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={layout.y(premarketLow)} y2={layout.y(premarketLow)} stroke="#f76707" strokeDasharray="6 4" />
+          ) : null}
+
+          {layout.haltMarkers.map(halt => (
+            <g key={halt.time}>
+              <line x1={halt.x} x2={halt.x} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#c92a2a" strokeWidth={2} />
+              <text x={halt.x + 4} y={PAD.top + 12} fontSize={11} fill="#c92a2a">{halt.label}</text>
+            </g>
+          ))}
+        </svg>
+      )}
+    </>
+  );
+}
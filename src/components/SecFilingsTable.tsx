@@ -0,0 +1,50 @@
+'use client';
+
+import { Anchor, Badge, Table, Text } from '@mantine/core';
+import { FORM_CATEGORY_COLORS, formCategory } from '@/lib/sec-forms';
+import type { SecFiling } from '@/lib/symbol-providers/types';
+
+interface SecFilingsTableProps {
+  filings: SecFiling[];
+}
+
+export function SecFilingsTable({ filings }: SecFilingsTableProps) {
+  return (
+    <Table highlightOnHover withTableBorder>
+      <Table.Thead>
+        <Table.Tr>
+          <Table.Th style={{ width: '15%' }}>Form</Table.Th>
+          <Table.Th style={{ width: '20%' }}>Filed</Table.Th>
+          <Table.Th>Title</Table.Th>
+        </Table.Tr>
+      </Table.Thead>
+      <Table.Tbody>
+        {filings.map((filing, index) => {
+          const category = formCategory(filing.formType);
+          return (
+            <Table.Tr key={`${filing.url}-${index}`}>
+              <Table.Td>
+                <Badge
+                  variant={category === 'dilution' ? 'filled' : 'light'}
+                  color={FORM_CATEGORY_COLORS[category]}
+                  size="sm"
+                  title={category === 'dilution' ? 'Registration / prospectus - possible dilution' : category}
+                >
+                  {filing.formType}
+                </Badge>
+              </Table.Td>
+              <Table.Td>
+                <Text size="sm">{new Date(filing.filedAt).toLocaleString()}</Text>
+              </Table.Td>
+              <Table.Td>
+                <Anchor href={filing.url} target="_blank" size="sm">
+                  {filing.title || filing.formType}
+                </Anchor>
+              </Table.Td>
+            </Table.Tr>
+          );
+        })}
+      </Table.Tbody>
+    </Table>
+  );
+}
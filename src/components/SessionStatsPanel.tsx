@@ -0,0 +1,87 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { Table, Text } from '@mantine/core';
+import { MARKET_TIME_ZONE } from '@/lib/market-calendar';
+import { SymbolFieldStatus } from './SymbolFieldStatus';
+import type { FieldResult, SessionStats } from '@/lib/symbol-providers/types';
+
+interface SessionStatsPanelProps {
+  premarket?: FieldResult<SessionStats>;
+  afterHours?: FieldResult<SessionStats>;
+}
+
+const headerStyle = { backgroundColor: '#90EE90', fontWeight: 'bold' } as const;
+
+function formatPrice(value: number | null | undefined): string {
+  return value == null ? '—' : value.toFixed(value < 1 ? 4 : 2);
+}
+
+function formatVolume(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(2)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}K`;
+  return value.toString();
+}
+
+function formatEasternTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', {
+    timeZone: MARKET_TIME_ZONE,
+    hour: 'numeric',
+    minute: '2-digit'
+  }) + ' ET';
+}
+
+const ROWS: Array<{ label: string; render: (stats: SessionStats) => ReactNode }> = [
+  {
+    label: 'Gap %',
+    render: stats => stats.gapPercent == null ? '—' : (
+      <Text fw={700} size="sm" c={stats.gapPercent > 0 ? 'green' : stats.gapPercent < 0 ? 'red' : undefined}>
+        {stats.gapPercent > 0 ? '+' : ''}{stats.gapPercent.toFixed(2)}%
+      </Text>
+    )
+  },
+  { label: 'Volume', render: stats => <Text fw={600} size="sm">{formatVolume(stats.volume)}</Text> },
+  { label: 'Open', render: stats => formatPrice(stats.open) },
+  { label: 'High', render: stats => `${formatPrice(stats.high)} @ ${formatEasternTime(stats.highAt)}` },
+  { label: 'Low', render: stats => `${formatPrice(stats.low)} @ ${formatEasternTime(stats.lowAt)}` },
+  { label: 'Last', render: stats => formatPrice(stats.last) },
+  { label: 'VWAP', render: stats => formatPrice(stats.vwap) },
+  { label: 'Reference', render: stats => formatPrice(stats.referencePrice) }
+];
+
+/**
+ * Premarket and after-hours summary side by side. Gap is against the
+ * previous close for premarket and the regular close for after hours.
+ */
+export function SessionStatsPanel({ premarket, afterHours }: SessionStatsPanelProps) {
+  const pre = premarket?.status === 'ok' ? premarket.value : null;
+  const post = afterHours?.status === 'ok' ? afterHours.value : null;
+
+  return (
+    <Table withTableBorder withColumnBorders>
+      <Table.Thead>
+        <Table.Tr>
+          <Table.Th style={{ ...headerStyle, width: '20%' }}></Table.Th>
+          <Table.Th style={{ ...headerStyle, width: '40%', textAlign: 'center' }}>Premarket</Table.Th>
+          <Table.Th style={{ ...headerStyle, width: '40%', textAlign: 'center' }}>After Hours</Table.Th>
+        </Table.Tr>
+      </Table.Thead>
+      <Table.Tbody>
+        {!pre || !post ? (
+          <Table.Tr>
+            <Table.Td></Table.Td>
+            <Table.Td style={{ textAlign: 'center' }}>{!pre && <SymbolFieldStatus field={premarket} emptyLabel="No trades" />}</Table.Td>
+            <Table.Td style={{ textAlign: 'center' }}>{!post && <SymbolFieldStatus field={afterHours} emptyLabel="No trades" />}</Table.Td>
+          </Table.Tr>
+        ) : null}
+        {(pre || post) && ROWS.map(row => (
+          <Table.Tr key={row.label}>
+            <Table.Td style={{ fontWeight: 'bold' }}>{row.label}</Table.Td>
+            <Table.Td style={{ textAlign: 'center' }}>{pre ? row.render(pre) : ''}</Table.Td>
+            <Table.Td style={{ textAlign: 'center' }}>{post ? row.render(post) : ''}</Table.Td>
+          </Table.Tr>
+        ))}
+      </Table.Tbody>
+    </Table>
+  );
+}
@@ -27,19 +27,15 @@ import {
 } from '@tabler/icons-react';
 import { notifications } from '@mantine/notifications';
 import RealTimeQuotes from './RealTimeQuotes';
+import { SymbolFieldStatus } from './SymbolFieldStatus';
+import { SecFilingsTable } from './SecFilingsTable';
+import { SessionStatsPanel } from './SessionStatsPanel';
+import { IntradayChart } from './IntradayChart';
+import { SECURITY_TYPE_COLORS, SECURITY_TYPE_LABELS } from '@/lib/security-types';
+import type { SymbolPayloadFields } from '@/lib/symbol-providers/types';
 
-interface SymbolData {
-  symbol: string;
-  executives: {
-    country: string;
-    executives: Array<{ name: string; title: string }>;
-  };
-  premarketLow: string | null;
-  previousClose: number;
-  isEtfEtn: string;
-  news: Array<{ title: string; link: string; time: string }>;
-  secFiling: string;
-}
+// Fields are missing when the provider that fills them is disabled on the server
+type SymbolData = { symbol: string } & Partial<SymbolPayloadFields>;
 
 interface SymbolAnalysisProps {
   symbol: string;
@@ -51,12 +47,12 @@ export function SymbolAnalysis({ symbol, onBackToHome }: SymbolAnalysisProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchSymbolData = async () => {
+  const fetchSymbolData = async (fresh = false) => {
     setLoading(true);
     setError(null);
     
     try {
-      const response = await fetch('/api/symbols', {
+      const response = await fetch(fresh ? '/api/symbols?fresh=1' : '/api/symbols', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -112,13 +108,16 @@ export function SymbolAnalysis({ symbol, onBackToHome }: SymbolAnalysisProps) {
         <Alert variant="light" color="red" icon={<IconAlertCircle size={16} />}>
           {error || 'No data available'}
         </Alert>
-        <Button leftSection={<IconRefresh size={16} />} onClick={fetchSymbolData}>
+        <Button leftSection={<IconRefresh size={16} />} onClick={() => fetchSymbolData(true)}>
           Retry
         </Button>
       </Stack>
     );
   }
 
+  const executives = data.executives?.value?.executives ?? [];
+  const news = data.news?.value ?? [];
+
   return (
     <Stack gap="md" p="md">
       {/* Header with Back Button */}
@@ -143,7 +142,7 @@ export function SymbolAnalysis({ symbol, onBackToHome }: SymbolAnalysisProps) {
           variant="light"
           size="sm"
           leftSection={<IconRefresh size={14} />}
-          onClick={fetchSymbolData}
+          onClick={() => fetchSymbolData(true)}
           loading={loading}
         >
           Refresh
@@ -168,7 +167,7 @@ export function SymbolAnalysis({ symbol, onBackToHome }: SymbolAnalysisProps) {
                 Country
               </Table.Th>
               <Table.Th style={{ backgroundColor: '#ADD8E6', fontWeight: 'bold', textAlign: 'center' }}>
-                ETF/ETN
+                Type
               </Table.Th>
               <Table.Th style={{ backgroundColor: '#90EE90', fontWeight: 'bold', textAlign: 'center' }}>
                 Link
@@ -183,26 +182,41 @@ export function SymbolAnalysis({ symbol, onBackToHome }: SymbolAnalysisProps) {
               <Table.Td style={{ textAlign: 'center' }}>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
                   <div>
-
-                    <Text fw={600}>{data.premarketLow || 'N/A'}</Text>
+                    {data.premarketLow?.status === 'ok' ? (
+                      <Text fw={600}>{data.premarketLow.value}</Text>
+                    ) : (
+                      <SymbolFieldStatus field={data.premarketLow} />
+                    )}
                   </div>
                   <div>
                     <Text size="xs" c="dimmed">PREV CLOSE</Text>
-                    <Text fw={500}>{data.previousClose || 'N/A'}</Text>
+                    {data.previousClose?.status === 'ok' ? (
+                      <Text fw={500}>{data.previousClose.value}</Text>
+                    ) : (
+                      <SymbolFieldStatus field={data.previousClose} />
+                    )}
                   </div>
                 </div>
               </Table.Td>
               <Table.Td style={{ textAlign: 'center' }}>
-                {data.executives.country}
+                {data.executives?.status === 'ok' ? (
+                  data.executives.value?.country
+                ) : (
+                  <SymbolFieldStatus field={data.executives} />
+                )}
               </Table.Td>
               <Table.Td style={{ textAlign: 'center' }}>
-                <Badge 
-                  variant="filled" 
-                  color={data.isEtfEtn === 'YES' ? 'orange' : 'blue'}
-                  size="sm"
-                >
-                  {data.isEtfEtn === 'YES' ? 'YES' : 'NO'}
-                </Badge>
+                {data.securityType?.status === 'ok' && data.securityType.value ? (
+                  <Badge 
+                    variant="filled" 
+                    color={SECURITY_TYPE_COLORS[data.securityType.value]}
+                    size="sm"
+                  >
+                    {SECURITY_TYPE_LABELS[data.securityType.value]}
+                  </Badge>
+                ) : (
+                  <SymbolFieldStatus field={data.securityType} />
+                )}
               </Table.Td>
               <Table.Td style={{ textAlign: 'center' }}>
                 <Anchor 
@@ -218,6 +232,20 @@ export function SymbolAnalysis({ symbol, onBackToHome }: SymbolAnalysisProps) {
         </Table>
       </Paper>
 
+      {/* Intraday Chart */}
+      <Paper shadow="sm" p={0} radius="md" withBorder>
+        <IntradayChart
+          symbol={data.symbol}
+          previousClose={data.previousClose?.value}
+          premarketLow={data.premarketLow?.value ? parseFloat(data.premarketLow.value) : null}
+        />
+      </Paper>
+
+      {/* Premarket / After-Hours Stats */}
+      <Paper shadow="sm" p={0} radius="md" withBorder>
+        <SessionStatsPanel premarket={data.premarketStats} afterHours={data.afterHoursStats} />
+      </Paper>
+
       {/* CEO/Executives Table */}
       <Paper shadow="sm" p={0} radius="md" withBorder>
         <Table highlightOnHover withTableBorder withColumnBorders>
@@ -232,14 +260,17 @@ export function SymbolAnalysis({ symbol, onBackToHome }: SymbolAnalysisProps) {
             </Table.Tr>
           </Table.Thead>
           <Table.Tbody>
-            {data.executives.executives.length === 0 ? (
+            {executives.length === 0 ? (
               <Table.Tr>
                 <Table.Td colSpan={2} style={{ textAlign: 'center', fontStyle: 'italic', color: '#666' }}>
-                  No executive information available
+                  <Group gap="xs" justify="center">
+                    No executive information available
+                    {data.executives?.status !== 'ok' && <SymbolFieldStatus field={data.executives} />}
+                  </Group>
                 </Table.Td>
               </Table.Tr>
             ) : (
-              data.executives.executives.map((exec, index) => (
+              executives.map((exec, index) => (
                 <Table.Tr key={index}>
                   <Table.Td style={{ fontWeight: '500' }}>
                     {exec.name}
@@ -270,8 +301,14 @@ export function SymbolAnalysis({ symbol, onBackToHome }: SymbolAnalysisProps) {
               <Table.Td style={{ backgroundColor: '#90EE90', fontWeight: 'bold', textAlign: 'center' }}>
                 SEC Filings
               </Table.Td>
-              <Table.Td>
-                {data.secFiling}
+              <Table.Td p={0}>
+                {data.secFilings?.status === 'ok' && data.secFilings.value ? (
+                  <SecFilingsTable filings={data.secFilings.value} />
+                ) : (
+                  <Box p="xs">
+                    <SymbolFieldStatus field={data.secFilings} emptyLabel="No recent SEC filings" />
+                  </Box>
+                )}
               </Table.Td>
             </Table.Tr>
           </Table.Tbody>
@@ -300,14 +337,17 @@ export function SymbolAnalysis({ symbol, onBackToHome }: SymbolAnalysisProps) {
             </Table.Tr>
           </Table.Thead>
           <Table.Tbody>
-            {data.news.length === 0 ? (
+            {news.length === 0 ? (
               <Table.Tr>
                 <Table.Td colSpan={3} style={{ textAlign: 'center', fontStyle: 'italic', color: '#666' }}>
-                  No recent news available
+                  <Group gap="xs" justify="center">
+                    No recent news available
+                    {data.news?.status !== 'ok' && data.news?.status !== 'empty' && <SymbolFieldStatus field={data.news} />}
+                  </Group>
                 </Table.Td>
               </Table.Tr>
             ) : (
-              data.news.map((article, index) => (
+              news.map((article, index) => (
                 <Table.Tr key={index}>
                   <Table.Td style={{ fontSize: '0.875rem' }}>
                     {article.time}
@@ -0,0 +1,45 @@
+'use client';
+
+import { Badge, Tooltip } from '@mantine/core';
+import type { FieldResult, FieldStatus } from '@/lib/symbol-providers/types';
+
+interface SymbolFieldStatusProps {
+  field?: FieldResult<unknown>;
+  emptyLabel?: string;
+}
+
+const STATUS_STYLES: Record<FieldStatus, { color: string; label: string }> = {
+  ok: { color: 'green', label: 'OK' },
+  empty: { color: 'gray', label: 'No data' },
+  failed: { color: 'red', label: 'Failed' },
+  timeout: { color: 'yellow', label: 'Timed out' }
+};
+
+/**
+ * Badge explaining why a symbol field has no value, with the source,
+ * fetch time and error in a tooltip.
+ */
+export function SymbolFieldStatus({ field, emptyLabel }: SymbolFieldStatusProps) {
+  if (!field) {
+    return (
+      <Badge variant="light" color="gray" size="sm">
+        Disabled
+      </Badge>
+    );
+  }
+
+  const style = STATUS_STYLES[field.status];
+  const details = [
+    field.source,
+    new Date(field.fetchedAt).toLocaleTimeString(),
+    field.error
+  ].filter(Boolean).join(' • ');
+
+  return (
+    <Tooltip label={details} multiline w={280} withArrow>
+      <Badge variant="light" color={style.color} size="sm" style={{ cursor: 'help' }}>
+        {field.status === 'empty' && emptyLabel ? emptyLabel : style.label}
+      </Badge>
+    </Tooltip>
+  );
+}
@@ -115,7 +115,6 @@ export default function TMXRealtimeStream({
         statTop: statTop,
         statCountry: statCountry,
         timezone: 'true',
-        webmasterId: '101020',
         pathName: '/marketmovers/',
         qmodTool: 'MarketMovers',
         ...(sessionId && { sessionId })
@@ -31,6 +31,7 @@ import {
   IconChartLine,
   IconAlertCircle,
 } from '@tabler/icons-react';
+import { toGatewayPath } from '@/lib/quotemedia-gateway';
 
 interface StreamingData {
   symbol?: string;
@@ -66,7 +67,6 @@ export function TMXWebStreamer({ sessionId }: TMXWebStreamerProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showRawData, setShowRawData] = useState(false);
-  const [dataToolToken, setDataToolToken] = useState<string | null>(null);
   
   // Market session controls
   const [marketSession, setMarketSession] = useState<string>('NORMAL');
@@ -76,26 +76,6 @@ export function TMXWebStreamer({ sessionId }: TMXWebStreamerProps) {
   const wsRef = useRef<WebSocket | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Function to fetch fresh datatool token
-  const fetchFreshToken = async (): Promise<string> => {
-    try {
-      const response = await fetch('/api/get-token');
-      if (!response.ok) {
-        throw new Error(`Token fetch failed: ${response.status}`);
-      }
-      const data = await response.json();
-      if (!data.success || !data.token) {
-        throw new Error('Invalid token response');
-      }
-      setDataToolToken(data.token);
-      console.log('✅ Fresh datatool token obtained for client');
-      return data.token;
-    } catch (error) {
-      console.error('❌ Failed to fetch fresh token:', error);
-      throw error;
-    }
-  };
-
   const accessTMXWebStream = async () => {
     setLoading(true);
     setError(null);
@@ -165,19 +145,6 @@ export function TMXWebStreamer({ sessionId }: TMXWebStreamerProps) {
       return;
     }
 
-    // Fetch fresh token before starting streaming
-    let freshToken: string;
-    try {
-      freshToken = await fetchFreshToken();
-    } catch (error) {
-      notifications.show({
-        title: 'Token Error',
-        message: 'Failed to obtain fresh authentication token',
-        color: 'red',
-      });
-      return;
-    }
-
     setIsStreaming(true);
     
     notifications.show({
@@ -188,7 +155,7 @@ export function TMXWebStreamer({ sessionId }: TMXWebStreamerProps) {
     });
     
     // Start QuoteMedia streaming first (most reliable)
-    startQuoteMediaStream(freshToken);
+    startQuoteMediaStream();
     
     // Try TMX-style WebSocket connections using patterns from JavaScript analysis
     if (websocketUrls.length) {
@@ -210,9 +177,6 @@ export function TMXWebStreamer({ sessionId }: TMXWebStreamerProps) {
               command: 'CONNECT',
               headers: {
                 'X-Stream-Sid': sessionId,
-                'X-Stream-Wmid': '101020',
-                'X-Stream-DataTool-Token': freshToken,
-                'authenticationMethod': 'datatool',
                 'conflation': 'LATEST',
                 'rejectExcessiveConnection': 'false'
               }
@@ -307,7 +271,7 @@ export function TMXWebStreamer({ sessionId }: TMXWebStreamerProps) {
     }
   };
 
-  const startQuoteMediaStream = (token?: string) => {
+  const startQuoteMediaStream = () => {
     if (!sessionId) {
       notifications.show({
         title: 'Session Required',
@@ -452,11 +416,14 @@ export function TMXWebStreamer({ sessionId }: TMXWebStreamerProps) {
   };
 
   const startAPIPolling = (endpoints?: string[]) => {
-    const availableEndpoints = endpoints || tmxData?.api_endpoints || [];
+    // QuoteMedia is only reachable through the server's gateway, which signs each call
+    const availableEndpoints = (endpoints || tmxData?.api_endpoints || [])
+      .map(toGatewayPath)
+      .filter((path): path is string => path !== null);
     if (!availableEndpoints.length) {
       notifications.show({
         title: 'No API Endpoints',
-        message: 'No TMX API endpoints found to poll',
+        message: 'No supported QuoteMedia endpoints found to poll',
         color: 'orange',
       });
       return;
@@ -464,35 +431,28 @@ export function TMXWebStreamer({ sessionId }: TMXWebStreamerProps) {
     
     notifications.show({
       title: 'TMX API Polling Started',
-      message: `Polling ${availableEndpoints.length} TMX endpoint(s) with authentication`,
+      message: `Polling ${availableEndpoints.length} QuoteMedia endpoint(s) through the server gateway`,
       color: 'blue',
     });
     
     intervalRef.current = setInterval(async () => {
       try {
-        // Poll all available TMX API endpoints with proper authentication
         for (const endpoint of availableEndpoints) {
           const response = await fetch(endpoint, {
-            headers: {
-              'X-Stream-Sid': sessionId || '',
-              'X-Stream-Wmid': '101020', // TMX PowerStream WMID
-              'X-Stream-DataTool-Token': dataToolToken || '0df0ac71514c2ffeb9439af381a70e62e090c6c4a5aace74f989c0bfcc75c7a9',
-              'Authorization': `Bearer ${sessionId || ''}`,
-              'accept': 'application/json',
-              'user-agent': 'TMX-PowerStream-Client/1.0'
-            }
+            headers: { 'accept': 'application/json' }
           });
           
           if (response.ok) {
-            const data = await response.json();
+            const payload = await response.json();
+            const data = payload.data;
             
-            // Process TMX-style data if it's real and not empty
-            if (data && data.success && (data.results?.quote?.length > 0 || data.quotes?.length > 0)) {
+            // Process QuoteMedia data if it's real and not empty
+            if (payload.success && (data?.results?.quote?.length > 0 || data?.quotes?.length > 0)) {
               setStreamData(prev => [
                 { 
                   ...data, 
                   timestamp: new Date().toLocaleTimeString(), 
-                  source: 'tmx-api',
+                  source: 'quotemedia-gateway',
                   endpoint: endpoint,
                   authenticated: true 
                 },
@@ -500,7 +460,7 @@ export function TMXWebStreamer({ sessionId }: TMXWebStreamerProps) {
               ]);
             }
           } else {
-            console.warn('TMX API polling failed for endpoint:', endpoint, response.status);
+            console.warn('QuoteMedia gateway polling failed for endpoint:', endpoint, response.status);
           }
         }
       } catch (err) {
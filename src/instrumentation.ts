@@ -0,0 +1,21 @@
+/**
+ * Runs once when the Next.js server starts (never during `next build`).
+ * Refuses to boot on invalid settings or missing credentials instead of
+ * failing on the first request that needs them.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { assertServerConfig } = await import('./lib/config');
+  try {
+    assertServerConfig();
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  console.log('✅ Configuration loaded');
+
+  // Webhook alert rules fire from the server, whether or not a browser is open
+  const { haltAlertDispatcher } = await import('./lib/halts/alert-dispatcher');
+  await haltAlertDispatcher.start();
+}
@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  /** After this time the entry is dropped entirely */
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+function pruneExpired(entries: Map<string, CacheEntry<unknown>>, now: number): void {
+  entries.forEach((entry, key) => {
+    if (entry.expiresAt <= now) entries.delete(key);
+  });
+}
+
+/** Process-local cache. Survives between requests on a warm server only. */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.set(key, entry);
+    pruneExpired(this.entries, Date.now());
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * JSON file backed cache for local development, so scraped data survives
+ * `next dev` restarts. Writes are batched and the whole file is rewritten.
+ */
+export class FileCacheStore implements CacheStore {
+  private entries: Promise<Map<string, CacheEntry<unknown>>> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private filePath: string, private flushDelayMs: number = 1000) {}
+
+  private load(): Promise<Map<string, CacheEntry<unknown>>> {
+    if (!this.entries) {
+      this.entries = fs.readFile(this.filePath, 'utf8')
+        .then(text => {
+          const entries = new Map<string, CacheEntry<unknown>>(Object.entries(JSON.parse(text)));
+          pruneExpired(entries, Date.now());
+          console.log(`📂 Loaded ${entries.size} cache entries from ${this.filePath}`);
+          return entries;
+        })
+        .catch(error => {
+          if (error.code !== 'ENOENT') {
+            console.warn(`⚠️ Could not read cache file ${this.filePath}, starting empty:`, error.message);
+          }
+          return new Map<string, CacheEntry<unknown>>();
+        });
+    }
+    return this.entries;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      this.scheduleFlush();
+      return undefined;
+    }
+
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const entries = await this.load();
+    entries.set(key, entry);
+    this.scheduleFlush();
+  }
+
+  async delete(key: string): Promise<void> {
+    const entries = await this.load();
+    if (entries.delete(key)) this.scheduleFlush();
+  }
+
+  async flush(): Promise<void> {
+    const entries = await this.load();
+    pruneExpired(entries, Date.now());
+
+    const data: Record<string, CacheEntry<unknown>> = {};
+    entries.forEach((entry, key) => {
+      data[key] = entry;
+    });
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(data), 'utf8');
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(error => {
+        console.error(`❌ Failed to write cache file ${this.filePath}:`, error);
+      });
+    }, this.flushDelayMs);
+  }
+}
+
+/**
+ * Builds a store from a `memory` / `file` setting. Anything other than
+ * `file` gets the in-memory store.
+ */
+export function createCacheStore(kind: string | undefined, filePath: string): CacheStore {
+  if (kind === 'file') {
+    return new FileCacheStore(path.resolve(filePath));
+  }
+  return new MemoryCacheStore();
+}
@@ -0,0 +1,142 @@
+import {
+  MARKET_TIME_ZONE,
+  getTradingDaySessions,
+  easternDateKey,
+  type MarketSession
+} from '@/lib/market-calendar';
+
+/** One OHLCV bar; `time` is the bar's start in Unix seconds */
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/** A stretch of the chart to shade by session, in Unix seconds */
+export interface SessionBand {
+  session: Exclude<MarketSession, 'closed'>;
+  start: number;
+  end: number;
+}
+
+export interface ChartData {
+  symbol: string;
+  interval: ChartInterval;
+  range: ChartRange;
+  timeZone: string;
+  previousClose: number | null;
+  candles: Candle[];
+  sessions: SessionBand[];
+}
+
+export const CHART_INTERVALS = ['1m', '2m', '5m', '15m', '30m', '60m', '1d'] as const;
+export const CHART_RANGES = ['1d', '5d', '1mo', '3mo', '6mo', '1y'] as const;
+
+export type ChartInterval = typeof CHART_INTERVALS[number];
+export type ChartRange = typeof CHART_RANGES[number];
+
+// Yahoo only keeps intraday bars for a limited time
+const MAX_RANGE: Record<ChartInterval, ChartRange> = {
+  '1m': '5d',
+  '2m': '1mo',
+  '5m': '1mo',
+  '15m': '1mo',
+  '30m': '1mo',
+  '60m': '3mo',
+  '1d': '1y'
+};
+
+export function isChartInterval(value: string): value is ChartInterval {
+  return (CHART_INTERVALS as readonly string[]).includes(value);
+}
+
+export function isChartRange(value: string): value is ChartRange {
+  return (CHART_RANGES as readonly string[]).includes(value);
+}
+
+/** Returns why an interval/range pair can't be charted, or null when it can */
+export function validateChartRequest(interval: string, range: string): string | null {
+  if (!isChartInterval(interval)) {
+    return `interval must be one of ${CHART_INTERVALS.join(', ')}`;
+  }
+  if (!isChartRange(range)) {
+    return `range must be one of ${CHART_RANGES.join(', ')}`;
+  }
+  if (CHART_RANGES.indexOf(range) > CHART_RANGES.indexOf(MAX_RANGE[interval])) {
+    return `${interval} bars are only available for ranges up to ${MAX_RANGE[interval]}`;
+  }
+  return null;
+}
+
+function validPrice(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value) && value > 0;
+}
+
+/** Candles of a Yahoo `v8/finance/chart` result, skipping the empty bars */
+export function parseChartCandles(result: any): Candle[] {
+  const timestamps: unknown[] = result?.timestamp || [];
+  const quote = result?.indicators?.quote?.[0];
+  if (!quote) return [];
+
+  const candles: Candle[] = [];
+  for (let i = 0; i < timestamps.length; i++) {
+    const time = timestamps[i];
+    const [open, high, low, close] = [quote.open?.[i], quote.high?.[i], quote.low?.[i], quote.close?.[i]];
+    if (typeof time !== 'number' || !validPrice(open) || !validPrice(high) || !validPrice(low) || !validPrice(close)) {
+      continue;
+    }
+    candles.push({ time, open, high, low, close, volume: quote.volume?.[i] || 0 });
+  }
+  return candles;
+}
+
+/** Premarket, regular and after-hours bands of every trading day the candles touch */
+export function chartSessionBands(candles: Candle[]): SessionBand[] {
+  const days = new Set(candles.map(candle => easternDateKey(new Date(candle.time * 1000))));
+  const bands: SessionBand[] = [];
+
+  for (const day of days) {
+    const sessions = getTradingDaySessions(day);
+    if (!sessions) continue;
+
+    const toBand = (session: SessionBand['session'], window: { start: Date; end: Date }): SessionBand => ({
+      session,
+      start: window.start.getTime() / 1000,
+      end: window.end.getTime() / 1000
+    });
+
+    bands.push(
+      toBand('premarket', sessions.premarket),
+      toBand('regular', sessions.regular),
+      toBand('after_hours', sessions.afterHours)
+    );
+  }
+
+  return bands;
+}
+
+/** Normalizes a Yahoo `v8/finance/chart` response */
+export function parseYahooChart(data: any, symbol: string, interval: ChartInterval, range: ChartRange): ChartData {
+  const result = data?.chart?.result?.[0];
+  if (!result) {
+    const message = data?.chart?.error?.description;
+    throw new Error(message ? `Yahoo chart error: ${message}` : 'Yahoo chart response has no result');
+  }
+
+  const candles = parseChartCandles(result);
+  const previousClose = result.meta?.chartPreviousClose ?? result.meta?.previousClose;
+
+  return {
+    symbol,
+    interval,
+    range,
+    timeZone: MARKET_TIME_ZONE,
+    previousClose: validPrice(previousClose) ? previousClose : null,
+    candles,
+    // Daily bars have no sessions to shade
+    sessions: interval === '1d' ? [] : chartSessionBands(candles)
+  };
+}
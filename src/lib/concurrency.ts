@@ -0,0 +1,87 @@
+/**
+ * Small concurrency helpers for fanning out scrapes without hammering
+ * the upstream sites.
+ */
+
+export type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+/** Runs at most `maxConcurrent` tasks at once, queueing the rest in order */
+export function createLimiter(maxConcurrent: number): Limiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    if (active >= maxConcurrent || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(fn: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      fn()
+        .then(resolve, reject)
+        .finally(() => {
+          active--;
+          next();
+        });
+    });
+    next();
+  });
+}
+
+export interface HostLimit {
+  maxConcurrent: number;
+  /** Minimum gap between the start of two requests to the host */
+  minIntervalMs: number;
+}
+
+function hostOf(input: RequestInfo | URL): string {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Wraps fetch so requests are throttled per host. Hosts missing from
+ * `limits` share `defaultLimit` individually.
+ */
+export function createHostRateLimitedFetch(
+  limits: Record<string, HostLimit>,
+  defaultLimit: HostLimit,
+  baseFetch: typeof fetch = (input, init) => fetch(input, init)
+): typeof fetch {
+  const hosts = new Map<string, { limit: Limiter; nextStartAt: number; minIntervalMs: number }>();
+
+  const getHost = (host: string) => {
+    let state = hosts.get(host);
+    if (!state) {
+      const hostLimit = limits[host] || defaultLimit;
+      state = {
+        limit: createLimiter(hostLimit.maxConcurrent),
+        nextStartAt: 0,
+        minIntervalMs: hostLimit.minIntervalMs
+      };
+      hosts.set(host, state);
+    }
+    return state;
+  };
+
+  return (input, init) => {
+    const state = getHost(hostOf(input));
+
+    return state.limit(async () => {
+      const now = Date.now();
+      const startAt = Math.max(now, state.nextStartAt);
+      state.nextStartAt = startAt + state.minIntervalMs;
+
+      if (startAt > now) {
+        await new Promise(resolve => setTimeout(resolve, startAt - now));
+      }
+
+      return baseFetch(input, init);
+    });
+  };
+}
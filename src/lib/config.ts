@@ -0,0 +1,190 @@
+/**
+ * Every environment setting the server reads, parsed and validated in one
+ * place. Problems are collected and reported together, so a misconfigured
+ * deployment learns everything that is wrong in one go. Server-only: nothing
+ * here may end up in a client component.
+ */
+
+export interface AppConfig {
+  quoteMedia: {
+    webmasterId: string;
+    username: string;
+    password: string;
+    /** Calls one client may make through /api/quotemedia/data per minute */
+    gatewayRequestsPerMinute: number;
+    /**
+     * Header the proxy in front of the app sets to the caller's IP, which the
+     * gateway rate limits by; null when nothing in front of the app does
+     */
+    gatewayClientIpHeader: string | null;
+  };
+  tmx: {
+    username: string;
+    password: string;
+    wmid: string;
+    baseUrl: string;
+  };
+  symbols: {
+    /** Replaces the default provider list when set */
+    providers: string[] | null;
+    disabledProviders: string[];
+    cache: 'memory' | 'file';
+    cacheFile: string;
+    securityIndexFile: string;
+    /** Yahoo profile scraper deployment, the yahoo-profile provider fails without it */
+    googleAppsScriptUrl: string | null;
+  };
+  sec: {
+    userAgent: string;
+    filingsLookbackDays: number;
+  };
+  halts: {
+    /** Replaces the default source list when set */
+    sources: string[] | null;
+    nyseUrl: string;
+    cboeUrl: string;
+    archiveFile: string;
+    archiveRetentionDays: number;
+    watchIntervalMs: number;
+    alertWebhookUrl: string | null;
+    alertRulesFile: string;
+  };
+}
+
+// NEXT_PUBLIC_* variables are inlined into the browser bundle
+const PUBLIC_SECRET_PATTERN = /PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY|USERNAME|CREDENTIAL/;
+
+const REQUIRED_CREDENTIALS = ['QUOTEMEDIA_USERNAME', 'QUOTEMEDIA_PASSWORD', 'TMX_USERNAME', 'TMX_PASSWORD'];
+
+/** Throws one error listing every invalid setting */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const errors: string[] = [];
+
+  for (const name of Object.keys(env)) {
+    if (name.startsWith('NEXT_PUBLIC_') && PUBLIC_SECRET_PATTERN.test(name) && env[name]) {
+      errors.push(`${name} would be shipped to the browser; rename it to ${name.replace(/^NEXT_PUBLIC_/, '')}`);
+    }
+  }
+
+  const text = (name: string, fallback: string) => env[name]?.trim() || fallback;
+
+  const optionalUrl = (name: string): string | null => {
+    const value = env[name]?.trim();
+    if (!value) return null;
+    try {
+      const parsed = new URL(value);
+      if (parsed.protocol === 'http:' || parsed.protocol === 'https:') return value;
+    } catch {
+      // reported below
+    }
+    errors.push(`${name} must be an http(s) URL, got "${value}"`);
+    return null;
+  };
+
+  const url = (name: string, fallback: string) => optionalUrl(name) ?? fallback;
+
+  const positiveInt = (name: string, fallback: number) => {
+    const value = env[name]?.trim();
+    if (!value) return fallback;
+    const parsed = Number(value);
+    if (Number.isInteger(parsed) && parsed > 0) return parsed;
+    errors.push(`${name} must be a positive whole number, got "${value}"`);
+    return fallback;
+  };
+
+  const list = (name: string) => (env[name] || '').split(',').map(item => item.trim()).filter(Boolean);
+
+  const header = (name: string, fallback: string | null): string | null => {
+    const value = env[name]?.trim();
+    if (!value) return fallback;
+    if (/^[A-Za-z0-9-]+$/.test(value)) return value.toLowerCase();
+    errors.push(`${name} must be an HTTP header name, got "${value}"`);
+    return fallback;
+  };
+
+  const symbolCache = text('SYMBOL_CACHE', 'memory');
+  if (symbolCache !== 'memory' && symbolCache !== 'file') {
+    errors.push(`SYMBOL_CACHE must be "memory" or "file", got "${symbolCache}"`);
+  }
+
+  const config: AppConfig = {
+    quoteMedia: {
+      webmasterId: text('QUOTEMEDIA_WEBMASTER_ID', '101020'),
+      username: text('QUOTEMEDIA_USERNAME', ''),
+      password: env.QUOTEMEDIA_PASSWORD || '',
+      gatewayRequestsPerMinute: positiveInt('QUOTEMEDIA_GATEWAY_RATE_LIMIT', 60),
+      // Vercel overwrites this one on every request, so it can't be spoofed there
+      gatewayClientIpHeader: header('TRUST_PROXY_IP_HEADER', env.VERCEL === '1' ? 'x-vercel-forwarded-for' : null)
+    },
+    tmx: {
+      username: text('TMX_USERNAME', ''),
+      password: env.TMX_PASSWORD || '',
+      wmid: text('TMX_WMID', '101020'),
+      baseUrl: url('TMX_BASE_URL', 'https://tmxpowerstream.com').replace(/\/$/, '')
+    },
+    symbols: {
+      providers: env.SYMBOL_PROVIDERS ? list('SYMBOL_PROVIDERS') : null,
+      disabledProviders: list('SYMBOL_PROVIDERS_DISABLED'),
+      cache: symbolCache === 'file' ? 'file' : 'memory',
+      cacheFile: text('SYMBOL_CACHE_FILE', '.cache/symbol-cache.json'),
+      securityIndexFile: text('SECURITY_INDEX_FILE', '.cache/security-index.json'),
+      googleAppsScriptUrl: optionalUrl('GOOGLE_APPS_SCRIPT_URL')
+    },
+    sec: {
+      userAgent: text('SEC_USER_AGENT', 'MARIOM Stock Dashboard admin@example.com'),
+      filingsLookbackDays: positiveInt('SEC_FILINGS_LOOKBACK_DAYS', 3)
+    },
+    halts: {
+      sources: env.HALT_SOURCES ? list('HALT_SOURCES') : null,
+      nyseUrl: url('NYSE_HALTS_URL', 'https://www.nyse.com/api/trade-halts/current/download'),
+      cboeUrl: url('CBOE_HALTS_URL', 'https://www.cboe.com/us/equities/market_statistics/halts/csv/'),
+      archiveFile: text('HALT_ARCHIVE_FILE', '.cache/halt-archive.json'),
+      archiveRetentionDays: positiveInt('HALT_ARCHIVE_RETENTION_DAYS', 365),
+      watchIntervalMs: positiveInt('HALT_WATCH_INTERVAL_MS', 15000),
+      alertWebhookUrl: optionalUrl('HALT_ALERT_WEBHOOK_URL'),
+      alertRulesFile: text('HALT_ALERT_RULES_FILE', '.cache/halt-alert-rules.json')
+    }
+  };
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return config;
+}
+
+/**
+ * Credentials the server can't run without. Not part of `loadConfig` because
+ * builds import every route without credentials; the startup check in
+ * src/instrumentation.ts enforces them instead.
+ */
+export function missingCredentials(env: NodeJS.ProcessEnv = process.env): string[] {
+  return REQUIRED_CREDENTIALS.filter(name => !env[name]?.trim());
+}
+
+let cached: AppConfig | null = null;
+
+export function getConfig(): AppConfig {
+  if (!cached) cached = loadConfig();
+  return cached;
+}
+
+/** The whole startup check: valid settings and every required credential */
+export function assertServerConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const missing = missingCredentials(env);
+  let config: AppConfig | null = null;
+  let invalid = '';
+  try {
+    config = loadConfig(env);
+  } catch (error) {
+    invalid = error instanceof Error ? error.message : String(error);
+  }
+
+  if (missing.length > 0 || !config) {
+    const problems = [
+      invalid,
+      missing.length > 0 ? `Missing required credentials: ${missing.join(', ')}. Set them in .env.local (see .env.example).` : ''
+    ].filter(Boolean);
+    throw new Error(problems.join('\n'));
+  }
+  return config;
+}
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { HaltAlertDispatcher } from './alert-dispatcher';
+import type { AlertWebhookPayload } from './alert-webhook';
+import { DEFAULT_ALERT_RULES, type AlertRule } from './alerts';
+import { describeHalt, haltKey } from './status';
+import type { HaltRecord } from './types';
+import type { HaltEvent, HaltEventListener } from './watcher';
+
+const record: HaltRecord = {
+  symbol: 'XTIA',
+  haltDate: '03/14/2025',
+  haltTime: '08:02:33',
+  issueName: 'XTI Aerospace, Inc. Common Stock',
+  market: 'NASDAQ',
+  reasonCodes: 'T1',
+  pauseThresholdPrice: 'N/A',
+  resumptionDate: 'N/A',
+  resumptionQuoteTime: 'N/A',
+  resumptionTradeTime: 'N/A',
+  source: 'nasdaq'
+};
+
+const newHalt = (overrides: Partial<HaltRecord> = {}): HaltEvent => {
+  const halt = describeHalt({ ...record, ...overrides }, new Date('2025-03-14T12:05:00Z'));
+  return { type: 'new_halt', key: haltKey(halt), halt, at: '2025-03-14T12:05:00.000Z' };
+};
+
+// "News pending halt under $5", sent to the webhook
+const newsRule: AlertRule = {
+  ...DEFAULT_ALERT_RULES[1],
+  actions: { notify: false, browser: false, sound: false, webhook: true }
+};
+
+/** Stands in for the halt watcher, so events can be pushed by hand */
+function fakeWatcher() {
+  const listeners = new Set<HaltEventListener>();
+  return {
+    listeners,
+    subscribe(listener: HaltEventListener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    emit(event: HaltEvent) {
+      listeners.forEach(listener => listener(event));
+    }
+  };
+}
+
+describe('HaltAlertDispatcher', () => {
+  let server: Server;
+  let webhookUrl: string;
+  let received: AlertWebhookPayload[];
+  let answer: number;
+  let onReceive: (() => void) | null;
+
+  let dir: string;
+  let rulesFile: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.writeHead(answer).end();
+        onReceive?.();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/halt-alerts`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    received = [];
+    answer = 204;
+    onReceive = null;
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'halt-alerts-'));
+    rulesFile = path.join(dir, 'rules.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const dispatcher = (watcher = fakeWatcher(), lastPrice: number | null = 0.41) =>
+    new HaltAlertDispatcher({ watcher, rulesFile, webhookUrl, lookupLastPrice: async () => lastPrice });
+
+  it('posts a matching watcher event to the webhook with no browser involved', async () => {
+    await fs.writeFile(rulesFile, JSON.stringify({ rules: [newsRule], watchlist: [] }));
+    const watcher = fakeWatcher();
+    await dispatcher(watcher).start();
+
+    const delivered = new Promise<void>(resolve => { onReceive = resolve; });
+    watcher.emit(newHalt());
+    await delivered;
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      rule: { id: 'news-under-5', name: 'News pending halt under $5' },
+      event: { type: 'new_halt', key: 'XTIA|03/14/2025|08:02:33', halt: { symbol: 'XTIA' } },
+      lastPrice: 0.41
+    });
+  });
+
+  it('sends nothing for an event the rules do not match', async () => {
+    const alerts = dispatcher(fakeWatcher(), 12.5);
+    await alerts.setRules({ rules: [newsRule], watchlist: [] });
+
+    expect(await alerts.handle(newHalt())).toEqual([]);
+    expect(await alerts.handle(newHalt({ reasonCodes: 'LUDP' }))).toEqual([]);
+    expect(received).toHaveLength(0);
+  });
+
+  it('reports a webhook that answers with an error', async () => {
+    answer = 500;
+    const alerts = dispatcher();
+    await alerts.setRules({ rules: [newsRule], watchlist: [] });
+
+    expect(await alerts.handle(newHalt())).toEqual([
+      { ruleId: 'news-under-5', status: 'failed', error: 'HTTP 500: Internal Server Error' }
+    ]);
+  });
+
+  it('saves only webhook rules and listens only while one is enabled', async () => {
+    const watcher = fakeWatcher();
+    const alerts = dispatcher(watcher);
+
+    const saved = await alerts.setRules({ rules: [DEFAULT_ALERT_RULES[0], newsRule], watchlist: ['XTIA'] });
+    expect(saved.rules.map(rule => rule.id)).toEqual(['news-under-5']);
+    expect(JSON.parse(await fs.readFile(rulesFile, 'utf8'))).toEqual(saved);
+    expect(watcher.listeners.size).toBe(1);
+
+    await alerts.setRules({ rules: [{ ...newsRule, enabled: false }], watchlist: [] });
+    expect(watcher.listeners.size).toBe(0);
+  });
+
+  it('does not listen when no webhook URL is configured', async () => {
+    const watcher = fakeWatcher();
+    const alerts = new HaltAlertDispatcher({ watcher, rulesFile, webhookUrl: null });
+    await alerts.setRules({ rules: [newsRule], watchlist: [] });
+
+    expect(alerts.webhookConfigured).toBe(false);
+    expect(watcher.listeners.size).toBe(0);
+  });
+});
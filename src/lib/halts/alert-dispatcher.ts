@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getConfig } from '@/lib/config';
+import { arrayOf, isString, shape } from '@/lib/schema';
+import { getEnabledProviders, runSymbolProviders } from '@/lib/symbol-providers';
+import { alertRuleSchema, matchingAlertRules, ruleNeedsPrice, type AlertRule } from './alerts';
+import { sendAlertWebhook, type AlertWebhookResult } from './alert-webhook';
+import { haltWatcher, type HaltEvent, type HaltEventListener } from './watcher';
+
+/** The webhook rules the Halt Alerts panel last saved, and the watchlist they match against */
+export interface ServerAlertRules {
+  rules: AlertRule[];
+  watchlist: string[];
+}
+
+export const serverAlertRulesSchema = shape<ServerAlertRules>({
+  rules: arrayOf(alertRuleSchema),
+  watchlist: arrayOf(isString)
+});
+
+/** Last price for price conditions, from whichever lastPrice provider is enabled */
+export async function lookupLastPrice(symbol: string): Promise<number | null> {
+  const providers = getEnabledProviders().filter(provider => provider.field === 'lastPrice');
+  if (providers.length === 0) return null;
+
+  const fields = await runSymbolProviders(symbol, { providers });
+  return fields.lastPrice?.value ?? null;
+}
+
+export interface HaltAlertDispatcherOptions {
+  watcher?: { subscribe(listener: HaltEventListener): () => void };
+  rulesFile?: string;
+  webhookUrl?: string | null;
+  fetch?: typeof fetch;
+  lookupLastPrice?: (symbol: string) => Promise<number | null>;
+}
+
+const hasWebhook = (rule: AlertRule) => rule.actions.webhook;
+
+/**
+ * Fires webhook alert rules on the server, straight from the halt watcher's
+ * events, so they go out with no browser tab open and only for halts the
+ * server saw itself. Keeps the watcher polling while any enabled rule wants
+ * the webhook and HALT_ALERT_WEBHOOK_URL is set.
+ */
+export class HaltAlertDispatcher {
+  private state: Promise<ServerAlertRules> | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  private watcher: NonNullable<HaltAlertDispatcherOptions['watcher']>;
+  private rulesFile: string;
+  private webhookUrl: string | null;
+  private fetchFn: typeof fetch;
+  private lookupLastPrice: (symbol: string) => Promise<number | null>;
+
+  constructor(options: HaltAlertDispatcherOptions = {}) {
+    this.watcher = options.watcher || haltWatcher;
+    this.rulesFile = options.rulesFile || path.resolve(getConfig().halts.alertRulesFile);
+    this.webhookUrl = options.webhookUrl !== undefined ? options.webhookUrl : getConfig().halts.alertWebhookUrl;
+    this.fetchFn = options.fetch || ((input, init) => fetch(input, init));
+    this.lookupLastPrice = options.lookupLastPrice || lookupLastPrice;
+  }
+
+  get webhookConfigured(): boolean {
+    return Boolean(this.webhookUrl);
+  }
+
+  /** Loads the saved rules and starts listening if any of them need to */
+  async start(): Promise<void> {
+    this.sync(await this.getRules());
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  getRules(): Promise<ServerAlertRules> {
+    if (!this.state) {
+      this.state = fs.readFile(this.rulesFile, 'utf8')
+        .then(text => {
+          const saved = JSON.parse(text);
+          if (!serverAlertRulesSchema(saved)) throw new Error('not a list of alert rules');
+          return saved;
+        })
+        .catch(error => {
+          if (error.code !== 'ENOENT') {
+            console.warn(`⚠️ Could not read halt alert rules ${this.rulesFile}, starting without:`, error.message);
+          }
+          return { rules: [], watchlist: [] };
+        });
+    }
+    return this.state;
+  }
+
+  /** Replaces the saved rules; only rules with the webhook action are kept */
+  async setRules(next: ServerAlertRules): Promise<ServerAlertRules> {
+    const saved = { rules: next.rules.filter(hasWebhook), watchlist: next.watchlist };
+    this.state = Promise.resolve(saved);
+    this.sync(saved);
+
+    await fs.mkdir(path.dirname(this.rulesFile), { recursive: true });
+    await fs.writeFile(this.rulesFile, JSON.stringify(saved), 'utf8');
+    return saved;
+  }
+
+  /** Evaluates the saved rules against one watcher event and sends the webhooks that match */
+  async handle(event: HaltEvent): Promise<AlertWebhookResult[]> {
+    const { rules, watchlist } = await this.getRules();
+    const enabled = rules.filter(rule => rule.enabled && hasWebhook(rule));
+    if (enabled.length === 0) return [];
+
+    const lastPrice = enabled.some(ruleNeedsPrice) ? await this.lookupLastPrice(event.halt.symbol) : null;
+    const matched = matchingAlertRules(enabled, event, { watchlist, lastPrice });
+
+    return Promise.all(matched.map(rule => sendAlertWebhook(rule, event, lastPrice, this.fetchFn, this.webhookUrl || '')));
+  }
+
+  private sync({ rules }: ServerAlertRules): void {
+    const wanted = this.webhookConfigured && rules.some(rule => rule.enabled && hasWebhook(rule));
+
+    if (wanted && !this.unsubscribe) {
+      console.log('🔔 Halt alert webhooks armed');
+      this.unsubscribe = this.watcher.subscribe(event => {
+        this.handle(event).catch(error => {
+          console.error('❌ Evaluating halt alert rules failed:', error);
+        });
+      });
+    } else if (!wanted && this.unsubscribe) {
+      console.log('🔕 Halt alert webhooks disarmed, no webhook rules');
+      this.stop();
+    }
+  }
+}
+
+export const haltAlertDispatcher = new HaltAlertDispatcher();
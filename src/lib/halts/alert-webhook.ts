@@ -0,0 +1,64 @@
+import { getConfig } from '@/lib/config';
+import type { AlertRule } from './alerts';
+import type { HaltEvent } from './watcher';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export interface AlertWebhookPayload {
+  rule: { id: string; name: string };
+  event: HaltEvent;
+  lastPrice: number | null;
+  sentAt: string;
+}
+
+/**
+ * sent           - the endpoint answered 2xx
+ * failed         - network error or non-2xx answer
+ * not_configured - HALT_ALERT_WEBHOOK_URL is not set
+ */
+export interface AlertWebhookResult {
+  ruleId: string;
+  status: 'sent' | 'failed' | 'not_configured';
+  error?: string;
+}
+
+/**
+ * POSTs a matched rule and its event as JSON to HALT_ALERT_WEBHOOK_URL. The
+ * URL is server configuration rather than part of the rule, so the browser
+ * can't make the server post to arbitrary hosts.
+ */
+export async function sendAlertWebhook(
+  rule: AlertRule,
+  event: HaltEvent,
+  lastPrice: number | null,
+  fetchFn: typeof fetch = fetch,
+  url: string = getConfig().halts.alertWebhookUrl || ''
+): Promise<AlertWebhookResult> {
+  if (!url) {
+    return { ruleId: rule.id, status: 'not_configured' };
+  }
+  const payload: AlertWebhookPayload = {
+    rule: { id: rule.id, name: rule.name },
+    event,
+    lastPrice,
+    sentAt: new Date().toISOString()
+  };
+
+  try {
+    const response = await fetchFn(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    console.log(`📤 Halt alert webhook sent: ${rule.name} for ${event.halt.symbol}`);
+    return { ruleId: rule.id, status: 'sent' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Halt alert webhook failed for ${rule.name}:`, message);
+    return { ruleId: rule.id, status: 'failed', error: message };
+  }
+}
@@ -0,0 +1,158 @@
+import { arrayOf, isBoolean, isNumber, isString, nullable, oneOf, shape } from '@/lib/schema';
+import { HALT_CATEGORIES, HALT_CATEGORY_LABELS, type HaltCategory } from './reason-codes';
+import type { HaltEvent, HaltEventType } from './watcher';
+
+/**
+ * Halt alert rules. A rule matches a halt event when every condition it sets
+ * holds; conditions left empty or null don't restrict. `/api/halts/alerts`
+ * evaluates the browser's rules for its notifications, the alert dispatcher
+ * the saved webhook rules, both against the watcher's events.
+ */
+
+export const HALT_EVENT_TYPES: readonly HaltEventType[] = ['new_halt', 'resumption_set', 'resumed'];
+
+export interface AlertConditions {
+  eventTypes: HaltEventType[];
+  /** Any of these reason codes, e.g. ["LUDP", "LUDS"] */
+  reasonCodes: string[];
+  categories: HaltCategory[];
+  /** Only symbols in the browser's `mariom-symbols` watchlist */
+  watchlistOnly: boolean;
+  /** Only these symbols */
+  symbols: string[];
+  /** Last price bounds; a halt whose price is unknown doesn't match */
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+export interface AlertActions {
+  /** In-app Mantine notification */
+  notify: boolean;
+  /** Browser Notification API popup */
+  browser: boolean;
+  sound: boolean;
+  /** POST to HALT_ALERT_WEBHOOK_URL */
+  webhook: boolean;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: AlertConditions;
+  actions: AlertActions;
+}
+
+export interface AlertContext {
+  watchlist: string[];
+  lastPrice: number | null;
+}
+
+const alertConditionsSchema = shape<AlertConditions>({
+  eventTypes: arrayOf(oneOf(HALT_EVENT_TYPES)),
+  reasonCodes: arrayOf(isString),
+  categories: arrayOf(oneOf(HALT_CATEGORIES)),
+  watchlistOnly: isBoolean,
+  symbols: arrayOf(isString),
+  minPrice: nullable(isNumber),
+  maxPrice: nullable(isNumber)
+});
+
+const alertActionsSchema = shape<AlertActions>({
+  notify: isBoolean,
+  browser: isBoolean,
+  sound: isBoolean,
+  webhook: isBoolean
+});
+
+export const alertRuleSchema = shape<AlertRule>({
+  id: isString,
+  name: isString,
+  enabled: isBoolean,
+  conditions: alertConditionsSchema,
+  actions: alertActionsSchema
+});
+
+const ALL_ACTIONS: AlertActions = { notify: true, browser: true, sound: true, webhook: false };
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'watchlist-luld',
+    name: 'LULD pause on a watchlist symbol',
+    enabled: true,
+    conditions: {
+      eventTypes: ['new_halt'],
+      reasonCodes: ['LUDP', 'LUDS'],
+      categories: [],
+      watchlistOnly: true,
+      symbols: [],
+      minPrice: null,
+      maxPrice: null
+    },
+    actions: ALL_ACTIONS
+  },
+  {
+    id: 'news-under-5',
+    name: 'News pending halt under $5',
+    enabled: true,
+    conditions: {
+      eventTypes: ['new_halt'],
+      reasonCodes: ['T1'],
+      categories: [],
+      watchlistOnly: false,
+      symbols: [],
+      minPrice: null,
+      maxPrice: 5
+    },
+    actions: ALL_ACTIONS
+  }
+];
+
+export function ruleNeedsPrice(rule: AlertRule): boolean {
+  return rule.conditions.minPrice !== null || rule.conditions.maxPrice !== null;
+}
+
+export function matchesAlertRule(rule: AlertRule, event: HaltEvent, ctx: AlertContext): boolean {
+  const { conditions } = rule;
+  const { halt } = event;
+  const symbol = halt.symbol.toUpperCase();
+
+  if (!rule.enabled) return false;
+  if (conditions.eventTypes.length > 0 && !conditions.eventTypes.includes(event.type)) return false;
+
+  if (conditions.reasonCodes.length > 0) {
+    const wanted = conditions.reasonCodes.map(code => code.trim().toUpperCase());
+    if (!halt.reasons.some(reason => wanted.includes(reason.code))) return false;
+  }
+  if (conditions.categories.length > 0 && !halt.reasons.some(reason => conditions.categories.includes(reason.category))) {
+    return false;
+  }
+
+  if (conditions.watchlistOnly && !ctx.watchlist.some(s => s.toUpperCase() === symbol)) return false;
+  if (conditions.symbols.length > 0 && !conditions.symbols.some(s => s.toUpperCase() === symbol)) return false;
+
+  if (ruleNeedsPrice(rule)) {
+    if (ctx.lastPrice === null) return false;
+    if (conditions.minPrice !== null && ctx.lastPrice < conditions.minPrice) return false;
+    if (conditions.maxPrice !== null && ctx.lastPrice > conditions.maxPrice) return false;
+  }
+
+  return true;
+}
+
+export function matchingAlertRules(rules: AlertRule[], event: HaltEvent, ctx: AlertContext): AlertRule[] {
+  return rules.filter(rule => matchesAlertRule(rule, event, ctx));
+}
+
+/** One line summary of a rule's conditions for the rules list */
+export function describeAlertConditions(conditions: AlertConditions): string {
+  const parts: string[] = [];
+  parts.push(conditions.eventTypes.length > 0 ? conditions.eventTypes.join('/') : 'any event');
+  if (conditions.reasonCodes.length > 0) parts.push(`codes ${conditions.reasonCodes.join(', ')}`);
+  if (conditions.categories.length > 0) parts.push(conditions.categories.map(c => HALT_CATEGORY_LABELS[c].toLowerCase()).join('/'));
+  if (conditions.watchlistOnly) parts.push('watchlist');
+  if (conditions.symbols.length > 0) parts.push(conditions.symbols.join(', '));
+  if (conditions.minPrice !== null) parts.push(`≥ $${conditions.minPrice}`);
+  if (conditions.maxPrice !== null) parts.push(`≤ $${conditions.maxPrice}`);
+  return parts.join(' · ');
+}
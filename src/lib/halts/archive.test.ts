@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { HaltArchive } from './archive';
+import type { HaltQuery, HaltRecord } from './types';
+
+const halt = (overrides: Partial<HaltRecord>): HaltRecord => ({
+  symbol: 'GME',
+  haltDate: '03/14/2025',
+  haltTime: '10:02:00',
+  issueName: 'GameStop Corp.',
+  market: 'NYSE',
+  reasonCodes: 'T1',
+  pauseThresholdPrice: 'N/A',
+  resumptionDate: 'N/A',
+  resumptionQuoteTime: 'N/A',
+  resumptionTradeTime: 'N/A',
+  source: 'nyse',
+  ...overrides
+});
+
+const march: HaltQuery = { from: '2025-03-01', to: '2025-03-31' };
+
+describe('HaltArchive', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'halt-archive-'));
+    file = path.join(dir, 'halts.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('merges a venue\'s row into the halt another venue reported in an earlier poll', async () => {
+    const archive = new HaltArchive(file, 100000, 60000);
+    await archive.record([halt({ source: 'nyse' })]);
+    await archive.record([halt({ source: 'cboe', haltTime: '10:02:07', resumptionDate: '03/14/2025' })]);
+
+    expect(await archive.query(march)).toEqual([
+      expect.objectContaining({ source: 'cboe', sources: ['cboe', 'nyse'], resumptionDate: '03/14/2025' })
+    ]);
+  });
+
+  it('lets a later poll fill in the resumption time of the same row', async () => {
+    const archive = new HaltArchive(file, 100000, 60000);
+    await archive.record([halt({})]);
+    await archive.record([halt({ resumptionTradeTime: '10:07:00' })]);
+
+    const [row] = await archive.query(march);
+    expect(row).toMatchObject({ resumptionTradeTime: '10:07:00', sources: ['nyse'] });
+  });
+
+  it('merges the per-venue rows an older archive file still holds', async () => {
+    await fs.writeFile(file, JSON.stringify([
+      halt({ source: 'nyse' }),
+      halt({ source: 'nasdaq', haltTime: '10:02:03', pauseThresholdPrice: '21.50' }),
+      halt({ symbol: 'AMC', source: undefined as unknown as string })
+    ]));
+
+    const halts = await new HaltArchive(file, 100000, 60000).query(march);
+
+    expect(halts).toHaveLength(2);
+    expect(halts.find(row => row.symbol === 'GME')).toMatchObject({ sources: ['nyse', 'nasdaq'], pauseThresholdPrice: '21.50' });
+    expect(halts.find(row => row.symbol === 'AMC')).toMatchObject({ source: 'nasdaq' });
+  });
+
+  it('writes the merged rows back on flush', async () => {
+    const archive = new HaltArchive(file, 100000, 60000);
+    await archive.record([halt({ source: 'nyse' }), halt({ source: 'cboe', haltTime: '10:02:30' })]);
+    await archive.flush();
+
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual([expect.objectContaining({ source: 'cboe', sources: ['cboe', 'nyse'] })]);
+  });
+});
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getConfig } from '@/lib/config';
+import { easternDateKey, nasdaqDateToKey, parseEasternDateTime } from '@/lib/market-calendar';
+import { absorbHalt, HaltMergeIndex, mergeHaltRecords } from './sources/merge';
+import { haltKey, matchesHaltQuery } from './status';
+import type { HaltQuery, HaltRecord } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Newest first, by exchange-time halt date and time */
+export function sortHaltsNewestFirst(halts: HaltRecord[]): HaltRecord[] {
+  const time = (halt: HaltRecord) => parseEasternDateTime(halt.haltDate, halt.haltTime)?.getTime() ?? 0;
+  return [...halts].sort((a, b) => time(b) - time(a));
+}
+
+interface ArchiveState {
+  halts: Map<string, HaltRecord>;
+  index: HaltMergeIndex;
+}
+
+/**
+ * Every halt we have seen, kept in a JSON file because the venues' feeds only
+ * cover the last few days. Later polls of the same halt overwrite earlier
+ * ones so resumption times get filled in, and rows venues reported a few
+ * seconds apart are merged as they are recorded, so queries never have to.
+ * Writes are batched.
+ */
+export class HaltArchive {
+  private state: Promise<ArchiveState> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private filePath: string, private retentionDays: number, private flushDelayMs: number = 1000) {}
+
+  private load(): Promise<ArchiveState> {
+    if (!this.state) {
+      this.state = fs.readFile(this.filePath, 'utf8')
+        .then(text => {
+          // Halts archived before other venues were added all came from NASDAQ,
+          // and older archives may still hold one row per venue
+          const rows = (JSON.parse(text) as HaltRecord[]).map(halt => ({ ...halt, source: halt.source || 'nasdaq' }));
+          const state = toState(mergeHaltRecords(rows));
+          console.log(`📂 Loaded ${state.halts.size} archived halts from ${this.filePath}`);
+          return state;
+        })
+        .catch(error => {
+          if (error.code !== 'ENOENT') {
+            console.warn(`⚠️ Could not read halt archive ${this.filePath}, starting empty:`, error.message);
+          }
+          return toState([]);
+        });
+    }
+    return this.state;
+  }
+
+  async record(halts: HaltRecord[]): Promise<void> {
+    if (halts.length === 0) return;
+
+    const { halts: archived, index } = await this.load();
+    for (const halt of halts) {
+      const row = { ...halt, sources: [...(halt.sources || [halt.source])] };
+      const existing = index.find(halt);
+      if (existing) {
+        absorbHalt(row, existing);
+        archived.delete(haltKey(existing));
+        index.remove(existing);
+      }
+      archived.set(haltKey(row), row);
+      index.add(row);
+    }
+    this.scheduleFlush();
+  }
+
+  async query(query: HaltQuery): Promise<HaltRecord[]> {
+    const { halts: archived } = await this.load();
+    return sortHaltsNewestFirst([...archived.values()].filter(halt => matchesHaltQuery(halt, query)));
+  }
+
+  async flush(): Promise<void> {
+    const { halts: archived, index } = await this.load();
+
+    const cutoff = easternDateKey(new Date(Date.now() - this.retentionDays * DAY_MS));
+    archived.forEach((halt, key) => {
+      const dateKey = nasdaqDateToKey(halt.haltDate);
+      if (!dateKey || dateKey < cutoff) {
+        archived.delete(key);
+        index.remove(halt);
+      }
+    });
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify([...archived.values()]), 'utf8');
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(error => {
+        console.error(`❌ Failed to write halt archive ${this.filePath}:`, error);
+      });
+    }, this.flushDelayMs);
+  }
+}
+
+function toState(halts: HaltRecord[]): ArchiveState {
+  const state: ArchiveState = { halts: new Map(), index: new HaltMergeIndex() };
+  for (const halt of halts) {
+    state.halts.set(haltKey(halt), halt);
+    state.index.add(halt);
+  }
+  return state;
+}
+
+export const haltArchive = new HaltArchive(
+  path.resolve(getConfig().halts.archiveFile),
+  getConfig().halts.archiveRetentionDays
+);
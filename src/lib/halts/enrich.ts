@@ -0,0 +1,53 @@
+import { createLimiter } from '@/lib/concurrency';
+import { getEnabledProviders, runSymbolProviders } from '@/lib/symbol-providers';
+import type { SymbolField, SymbolPayloadFields } from '@/lib/symbol-providers';
+import type { Halt, HaltEnrichment } from './types';
+
+const ENRICHMENT_FIELDS: SymbolField[] = ['lastPrice', 'premarketStats', 'news', 'secFilings'];
+
+// Newest halted symbols only, a year-long range would otherwise fan out hundreds of scrapes
+const MAX_ENRICHED_SYMBOLS = 50;
+
+const enrichmentLimit = createLimiter(4);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Context for one halted symbol from the `/api/symbols` provider fields.
+ * The pause threshold distance is how far the last price is from the LULD
+ * band price the halt reported, in percent of that price.
+ */
+export function buildHaltEnrichment(halt: Halt, fields: Partial<SymbolPayloadFields>): HaltEnrichment {
+  const lastPrice = fields.lastPrice?.value ?? null;
+  const threshold = parseFloat(halt.pauseThresholdPrice);
+
+  return {
+    lastPrice,
+    lastPriceSource: fields.lastPrice?.value != null ? fields.lastPrice.source : null,
+    thresholdDistancePercent:
+      lastPrice !== null && threshold > 0 ? round(((lastPrice - threshold) / threshold) * 100) : null,
+    premarketGapPercent: fields.premarketStats?.value?.gapPercent ?? null,
+    latestNews: fields.news?.value?.[0] ?? null,
+    latestFiling: fields.secFilings?.value?.[0] ?? null
+  };
+}
+
+/**
+ * Attaches `enrichment` to the halts of the newest MAX_ENRICHED_SYMBOLS
+ * symbols. Fields come through the symbol provider cache, so halts of the
+ * same symbol and repeated requests don't refetch.
+ */
+export async function enrichHalts(halts: Halt[]): Promise<Halt[]> {
+  const providers = getEnabledProviders().filter(provider => ENRICHMENT_FIELDS.includes(provider.field));
+  const symbols = [...new Set(halts.map(halt => halt.symbol))].slice(0, MAX_ENRICHED_SYMBOLS);
+
+  const fieldsBySymbol = new Map<string, Partial<SymbolPayloadFields>>();
+  await Promise.all(symbols.map(symbol => enrichmentLimit(async () => {
+    fieldsBySymbol.set(symbol, await runSymbolProviders(symbol, { providers }));
+  })));
+
+  return halts.map(halt => {
+    const fields = fieldsBySymbol.get(halt.symbol);
+    return fields ? { ...halt, enrichment: buildHaltEnrichment(halt, fields) } : halt;
+  });
+}
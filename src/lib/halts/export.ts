@@ -0,0 +1,101 @@
+import { nasdaqDateToKey } from '@/lib/market-calendar';
+import type { Halt } from './types';
+
+export const HALT_EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const;
+
+export type HaltExportFormat = typeof HALT_EXPORT_FORMATS[number];
+
+/**
+ * Column names shared by every export format. Dates are YYYY-MM-DD and
+ * times HH:MM:SS exchange time, `*_at` columns ISO timestamps; values the
+ * feed left blank are null rather than "N/A".
+ */
+export const HALT_EXPORT_COLUMNS = [
+  'symbol',
+  'issue_name',
+  'market',
+  'source',
+  'sources',
+  'halt_date',
+  'halt_time',
+  'halted_at',
+  'reason_codes',
+  'reason_categories',
+  'pause_threshold_price',
+  'resumption_date',
+  'resumption_quote_time',
+  'resumption_trade_time',
+  'resumption_quote_at',
+  'resumption_trade_at',
+  'status',
+  'duration_seconds'
+] as const;
+
+export type HaltExportRow = Record<typeof HALT_EXPORT_COLUMNS[number], string | number | null>;
+
+const blankToNull = (value: string | undefined): string | null => (!value || value === 'N/A' ? null : value);
+
+export function toHaltExportRow(halt: Halt): HaltExportRow {
+  const threshold = parseFloat(halt.pauseThresholdPrice);
+
+  return {
+    symbol: halt.symbol,
+    issue_name: blankToNull(halt.issueName),
+    market: blankToNull(halt.market),
+    source: halt.source,
+    sources: (halt.sources || [halt.source]).join('|'),
+    halt_date: nasdaqDateToKey(halt.haltDate),
+    halt_time: blankToNull(halt.haltTime),
+    halted_at: halt.haltedAt,
+    reason_codes: halt.reasons.map(reason => reason.code).join('|') || null,
+    reason_categories: [...new Set(halt.reasons.map(reason => reason.category))].join('|') || null,
+    pause_threshold_price: isNaN(threshold) ? null : threshold,
+    resumption_date: nasdaqDateToKey(halt.resumptionDate),
+    resumption_quote_time: blankToNull(halt.resumptionQuoteTime),
+    resumption_trade_time: blankToNull(halt.resumptionTradeTime),
+    resumption_quote_at: halt.resumptionQuoteAt,
+    resumption_trade_at: halt.resumptionTradeAt,
+    status: halt.status,
+    duration_seconds: halt.durationSeconds
+  };
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function haltsToCsv(halts: Halt[]): string {
+  const lines = [HALT_EXPORT_COLUMNS.join(',')];
+  for (const halt of halts) {
+    const row = toHaltExportRow(halt);
+    lines.push(HALT_EXPORT_COLUMNS.map(column => csvCell(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function haltsToNdjson(halts: Halt[]): string {
+  return halts.map(halt => JSON.stringify(toHaltExportRow(halt)) + '\n').join('');
+}
+
+const CONTENT_TYPES: Record<HaltExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+/** Body, content type and download file name of an export */
+export function exportHalts(halts: Halt[], format: HaltExportFormat, from: string, to: string) {
+  const body = format === 'csv'
+    ? haltsToCsv(halts)
+    : format === 'ndjson'
+      ? haltsToNdjson(halts)
+      : JSON.stringify(halts.map(toHaltExportRow), null, 2);
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    fileName: from === to ? `halts-${from}.${format}` : `halts-${from}-to-${to}.${format}`
+  };
+}
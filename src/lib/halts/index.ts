@@ -0,0 +1,32 @@
+import { haltArchive } from './archive';
+import { fetchAllHalts } from './sources';
+import { describeHalt } from './status';
+import type { Halt, HaltQuery } from './types';
+
+export * from './types';
+export { haltArchive, sortHaltsNewestFirst } from './archive';
+export * from './sources';
+export { describeHalt, formatHaltDuration, getHaltTiming, haltKey, haltStatusAt, matchesHaltQuery } from './status';
+export * from './reason-codes';
+export { buildHaltEnrichment, enrichHalts } from './enrich';
+export { parseHaltQuery } from './query';
+export { exportHalts, HALT_EXPORT_COLUMNS, HALT_EXPORT_FORMATS, haltsToCsv, haltsToNdjson, toHaltExportRow } from './export';
+export type { HaltExportFormat, HaltExportRow } from './export';
+export { computeHaltStats } from './stats';
+export type { HaltStats } from './stats';
+export { diffHaltSnapshots, haltWatcher, HaltWatcher } from './watcher';
+export type { HaltEvent, HaltEventListener, HaltEventType } from './watcher';
+
+/**
+ * Polls every enabled halt source, adds what they return to the archive and
+ * answers the query from the archive, so ranges older than the feeds still
+ * work. The archive merges venues' rows as they are recorded.
+ */
+export async function getHalts(query: HaltQuery): Promise<Halt[]> {
+  const live = await fetchAllHalts();
+  await haltArchive.record(live);
+
+  const now = new Date();
+  const archived = await haltArchive.query(query);
+  return archived.map(halt => describeHalt(halt, now));
+}
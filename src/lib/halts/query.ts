@@ -0,0 +1,41 @@
+import { easternDateKey } from '@/lib/market-calendar';
+import { HALT_CATEGORIES, type HaltCategory } from './reason-codes';
+import type { HaltQuery } from './types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * Reads `from`, `to`, `symbol` and `category` search params the way every halts endpoint
+ * takes them: dates are YYYY-MM-DD exchange time, a missing end defaults to
+ * today (or to the other end), symbols and reason categories are
+ * comma-separated.
+ */
+export function parseHaltQuery(params: URLSearchParams): { query: HaltQuery } | { error: string } {
+  const today = easternDateKey();
+  const from = params.get('from') || params.get('to') || today;
+  const to = params.get('to') || (params.get('from') ? today : from);
+  const symbols = (params.get('symbol') || '')
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(Boolean);
+  const categories = (params.get('category') || '')
+    .split(',')
+    .map(category => category.trim())
+    .filter(Boolean);
+
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || isNaN(Date.parse(from)) || isNaN(Date.parse(to))) {
+    return { error: 'from and to must be dates in YYYY-MM-DD format' };
+  }
+
+  if (from > to || Date.parse(to) - Date.parse(from) > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `from must be on or before to, at most ${MAX_RANGE_DAYS} days apart` };
+  }
+
+  const unknown = categories.filter(category => !(HALT_CATEGORIES as string[]).includes(category));
+  if (unknown.length > 0) {
+    return { error: `Unknown category ${unknown.join(', ')}; expected one of ${HALT_CATEGORIES.join(', ')}` };
+  }
+
+  return { query: { from, to, symbols, categories: categories as HaltCategory[] } };
+}
@@ -0,0 +1,132 @@
+/**
+ * NASDAQ Trader halt and resumption reason codes, from the "Trading Halt
+ * Codes" legend on nasdaqtrader.com.
+ */
+
+export type HaltCategory = 'volatility' | 'news' | 'regulatory' | 'circuit_breaker' | 'other';
+
+export type HaltSeverity = 'low' | 'medium' | 'high';
+
+export interface HaltReason {
+  code: string;
+  description: string;
+  category: HaltCategory;
+  severity: HaltSeverity;
+}
+
+export const HALT_CATEGORIES: readonly HaltCategory[] = ['volatility', 'news', 'regulatory', 'circuit_breaker', 'other'];
+
+export const HALT_CATEGORY_LABELS: Record<HaltCategory, string> = {
+  volatility: 'Volatility',
+  news: 'News',
+  regulatory: 'Regulatory',
+  circuit_breaker: 'Circuit breaker',
+  other: 'Other'
+};
+
+export const HALT_CATEGORY_COLORS: Record<HaltCategory, string> = {
+  volatility: 'orange',
+  news: 'blue',
+  regulatory: 'grape',
+  circuit_breaker: 'red',
+  other: 'gray'
+};
+
+type CatalogueEntry = Omit<HaltReason, 'code'>;
+
+const entry = (description: string, category: HaltCategory, severity: HaltSeverity): CatalogueEntry => ({
+  description,
+  category,
+  severity
+});
+
+export const HALT_REASON_CODES: Record<string, CatalogueEntry> = {
+  // Volatility pauses (Limit Up-Limit Down)
+  LUDP: entry('Volatility trading pause', 'volatility', 'low'),
+  LUDS: entry('Volatility trading pause - straddle condition', 'volatility', 'low'),
+  M: entry('Volatility trading pause', 'volatility', 'low'),
+  T5: entry('Single stock trading pause in effect', 'volatility', 'low'),
+  T7: entry('Single stock trading pause / quotation-only period', 'volatility', 'low'),
+
+  // News
+  T1: entry('Halt - news pending', 'news', 'high'),
+  T2: entry('Halt - news released', 'news', 'medium'),
+  T3: entry('News and resumption times', 'news', 'low'),
+
+  // Regulatory
+  T6: entry('Halt - extraordinary market activity', 'regulatory', 'high'),
+  T8: entry('Halt - exchange-traded fund (ETF)', 'regulatory', 'medium'),
+  T12: entry('Halt - additional information requested by NASDAQ', 'regulatory', 'high'),
+  H4: entry('Halt - non-compliance', 'regulatory', 'high'),
+  H9: entry('Halt - not current in required filings', 'regulatory', 'high'),
+  H10: entry('Halt - SEC trading suspension', 'regulatory', 'high'),
+  H11: entry('Halt - regulatory concern', 'regulatory', 'high'),
+  D: entry('Security deletion from NASDAQ / CQS', 'regulatory', 'high'),
+
+  // Market-wide circuit breakers
+  MWC0: entry('Market-wide circuit breaker halt - carried over from previous day', 'circuit_breaker', 'high'),
+  MWC1: entry('Market-wide circuit breaker halt - level 1 (7% decline)', 'circuit_breaker', 'high'),
+  MWC2: entry('Market-wide circuit breaker halt - level 2 (13% decline)', 'circuit_breaker', 'high'),
+  MWC3: entry('Market-wide circuit breaker halt - level 3 (20% decline), closed for the day', 'circuit_breaker', 'high'),
+  MWCQ: entry('Market-wide circuit breaker resumption', 'circuit_breaker', 'medium'),
+
+  // Operational, IPO and resumption codes
+  O1: entry('Operations halt - contact market operations', 'other', 'medium'),
+  M1: entry('Corporate action', 'other', 'medium'),
+  M2: entry('Quotation not available', 'other', 'medium'),
+  IPO1: entry('IPO issue not yet trading', 'other', 'low'),
+  IPOQ: entry('IPO security released for quotation', 'other', 'low'),
+  IPOE: entry('IPO security - positioning window extension', 'other', 'low'),
+  R1: entry('New issue available', 'other', 'low'),
+  R2: entry('Issue available', 'other', 'low'),
+  R4: entry('Qualification issues reviewed / resolved - trading to resume', 'other', 'low'),
+  R9: entry('Filing requirements satisfied / resolved - trading to resume', 'other', 'low'),
+  C3: entry('Issuer news not forthcoming - trading to resume', 'other', 'low'),
+  C4: entry('Qualifications halt ended - maintenance requirements met', 'other', 'low'),
+  C9: entry('Qualifications halt concluded - filings met', 'other', 'low'),
+  C11: entry('Halt concluded by other regulatory authority - trading to resume', 'other', 'low')
+};
+
+export function describeReasonCode(code: string): HaltReason {
+  const normalized = code.trim().toUpperCase();
+  const known = HALT_REASON_CODES[normalized];
+  if (known) return { code: normalized, ...known };
+
+  // Unmapped free text from another venue describes itself
+  const description = /\s/.test(code.trim()) ? code.trim() : 'Unrecognised reason code';
+  return { code: normalized, description, category: 'other', severity: 'medium' };
+}
+
+/** Splits the feed's "T1, T12" style string into catalogue entries */
+export function parseReasonCodes(reasonCodes: string): HaltReason[] {
+  if (!reasonCodes || reasonCodes === 'N/A') return [];
+  return reasonCodes
+    .split(/\s*,\s*/)
+    .filter(Boolean)
+    .map(describeReasonCode);
+}
+
+// NYSE and Cboe publish reasons as text rather than codes; these map the
+// common ones onto the nearest NASDAQ code so the catalogue still applies
+const REASON_TEXT_CODES: [RegExp, string][] = [
+  [/market[- ]wide circuit breaker.*level\s*1/i, 'MWC1'],
+  [/market[- ]wide circuit breaker.*level\s*2/i, 'MWC2'],
+  [/market[- ]wide circuit breaker.*level\s*3/i, 'MWC3'],
+  [/luld|limit up|limit down|volatility/i, 'LUDP'],
+  [/news pending/i, 'T1'],
+  [/news (released|dissemination)/i, 'T2'],
+  [/extraordinary market activity/i, 'T6'],
+  [/sec (trading )?suspension/i, 'H10'],
+  [/filing/i, 'H9'],
+  [/regulatory/i, 'H11'],
+  [/corporate action/i, 'M1'],
+  [/ipo/i, 'IPO1'],
+  [/operation|equipment|systems? issue|order imbalance/i, 'O1']
+];
+
+/** Reason code for a venue's free text reason, or the text itself when unmapped */
+export function reasonCodeForText(reason: string): string {
+  const text = reason.trim();
+  if (HALT_REASON_CODES[text.toUpperCase()]) return text.toUpperCase();
+  return REASON_TEXT_CODES.find(([pattern]) => pattern.test(text))?.[1] || text;
+}
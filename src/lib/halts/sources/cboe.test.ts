@@ -0,0 +1,37 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseCboeHalts } from './cboe';
+
+// Recorded Cboe US equities halts CSV, using the feed's alternate header names
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('parseCboeHalts', () => {
+  it('reads the alternate headers, two digit years and 12 hour times', () => {
+    const [abvx, cboe] = parseCboeHalts(fixture('cboe-halts.csv'));
+
+    expect(abvx).toEqual({
+      symbol: 'ABVX',
+      haltDate: '03/14/2025',
+      haltTime: '09:45:30',
+      issueName: 'Abivax SA ADS',
+      market: 'NASDAQ',
+      reasonCodes: 'LUDP',
+      pauseThresholdPrice: 'N/A',
+      resumptionDate: '03/14/2025',
+      resumptionQuoteTime: '09:50:30',
+      resumptionTradeTime: '09:50:30',
+      source: 'cboe'
+    });
+    expect(cboe).toMatchObject({ haltTime: '13:05:00', market: 'BZX', reasonCodes: 'LUDP', resumptionTradeTime: '13:10:00' });
+  });
+
+  it('marks a blank halt time as N/A rather than dropping the row', () => {
+    const halts = parseCboeHalts(fixture('cboe-halts.csv'));
+    expect(halts[2]).toMatchObject({ symbol: 'NOTIME', haltTime: 'N/A', reasonCodes: 'T1' });
+  });
+
+  it('throws when a required column disappears', () => {
+    expect(() => parseCboeHalts('Date,Time\n03/14/25,9:45 AM\n')).toThrow('Cboe halts CSV is missing the "Symbol" column');
+  });
+});
@@ -0,0 +1,58 @@
+import { getConfig } from '@/lib/config';
+import { reasonCodeForText } from '../reason-codes';
+import type { HaltRecord } from '../types';
+import { readCsvColumns, toHaltDate, toHaltTime } from './csv';
+import type { HaltSource } from './types';
+
+const CBOE_HALTS_URL = getConfig().halts.cboeUrl;
+
+const CBOE_COLUMNS = {
+  haltDate: ['Halt Date', 'Date'],
+  haltTime: ['Halt Time', 'Time'],
+  symbol: ['Symbol', 'Issue Symbol'],
+  name: ['Issue Name', 'Name', 'Security Name'],
+  market: ['Listing Market', 'Market', 'Exchange'],
+  reason: ['Reason', 'Reason Code', 'Halt Reason'],
+  resumeDate: ['Resumption Date', 'Resume Date'],
+  quoteTime: ['Resumption Quote Time', 'Quote Resumption Time'],
+  tradeTime: ['Resumption Trade Time', 'Trade Resumption Time', 'Resume Time']
+};
+
+/**
+ * Parses the Cboe US equities halts CSV (BZX, BYX, EDGX and EDGA listings).
+ * Reasons may be NASDAQ style codes or text; both go through the catalogue.
+ */
+export function parseCboeHalts(csv: string): HaltRecord[] {
+  const rows = readCsvColumns(csv, CBOE_COLUMNS, ['haltDate', 'haltTime', 'symbol'], 'Cboe');
+
+  return rows
+    .filter(row => row.symbol)
+    .map(row => ({
+      symbol: row.symbol.toUpperCase(),
+      haltDate: toHaltDate(row.haltDate) || 'N/A',
+      haltTime: toHaltTime(row.haltTime) || 'N/A',
+      issueName: row.name || 'N/A',
+      market: row.market || 'Cboe',
+      reasonCodes: row.reason ? reasonCodeForText(row.reason) : 'N/A',
+      pauseThresholdPrice: 'N/A',
+      resumptionDate: toHaltDate(row.resumeDate) || 'N/A',
+      resumptionQuoteTime: toHaltTime(row.quoteTime) || 'N/A',
+      resumptionTradeTime: toHaltTime(row.tradeTime) || 'N/A',
+      source: 'cboe'
+    }));
+}
+
+export const cboeHaltSource: HaltSource = {
+  name: 'cboe',
+  label: 'Cboe',
+  fetch: async ctx => {
+    const response = await ctx.fetch(CBOE_HALTS_URL, {
+      headers: { accept: 'text/csv,*/*' },
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      throw new Error(`Cboe halts request failed: ${response.status} ${response.statusText}`);
+    }
+    return parseCboeHalts(await response.text());
+  }
+};
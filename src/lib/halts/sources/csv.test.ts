@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, readCsvColumns, toHaltDate, toHaltTime } from './csv';
+
+describe('parseCsv', () => {
+  it('honours quoted commas, escaped quotes and quoted line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi""","two\nlines"\r\n1,2,3,4')).toEqual([
+      ['a', 'b, c', 'say "hi"', 'two\nlines'],
+      ['1', '2', '3', '4']
+    ]);
+  });
+
+  it('drops blank lines and keeps a last line without a line break', () => {
+    expect(parseCsv('a,b\n\n\r\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('readCsvColumns', () => {
+  const columns = { symbol: ['Symbol', 'Issue Symbol'], name: ['Name'] };
+
+  it('finds columns under any of their header names, ignoring case and a byte order mark', () => {
+    expect(readCsvColumns('\uFEFFISSUE  SYMBOL,Other\nGME,x\n', columns, ['symbol'], 'Test')).toEqual([
+      { symbol: 'GME', name: '' }
+    ]);
+  });
+
+  it('throws naming the first header of a missing required column', () => {
+    expect(() => readCsvColumns('Name\nGameStop\n', columns, ['symbol'], 'Test')).toThrow('Test halts CSV is missing the "Symbol" column');
+  });
+});
+
+describe('toHaltDate', () => {
+  it.each([
+    ['2025-03-14', '03/14/2025'],
+    ['2025-3-4T09:30:00', '03/04/2025'],
+    ['3/4/2025', '03/04/2025'],
+    ['03/14/25', '03/14/2025'],
+    ['March 14', ''],
+    ['', '']
+  ])('reads %j as %j', (value, expected) => {
+    expect(toHaltDate(value)).toBe(expected);
+  });
+});
+
+describe('toHaltTime', () => {
+  it.each([
+    ['9:30', '09:30:00'],
+    ['09:30:05', '09:30:05'],
+    ['09:30:05.123', '09:30:05'],
+    ['1:05:00 PM', '13:05:00'],
+    ['12:00:01 am', '00:00:01'],
+    ['12:15 PM', '12:15:00'],
+    ['noon', '']
+  ])('reads %j as %j', (value, expected) => {
+    expect(toHaltTime(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Helpers for the venues that publish their halt list as CSV. Column names
+ * differ between venues and have changed over time, so columns are looked up
+ * by any of several header names.
+ */
+
+/** Splits CSV text into rows of cells, honouring quoted cells and "" escapes */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+const normalizeHeader = (header: string) => header.replace(/^\uFEFF/, '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Reads CSV rows as objects. `columns` maps each output key to the header
+ * names it may appear under; a required column that matches no header is an
+ * error so a changed feed fails loudly instead of producing empty halts.
+ */
+export function readCsvColumns<K extends string>(
+  text: string,
+  columns: Record<K, string[]>,
+  required: readonly NoInfer<K>[],
+  feed: string
+): Record<K, string>[] {
+  const [header = [], ...rows] = parseCsv(text);
+  const headers = header.map(normalizeHeader);
+
+  const indexes = {} as Record<K, number>;
+  for (const key of Object.keys(columns) as K[]) {
+    indexes[key] = headers.findIndex(h => columns[key].some(name => normalizeHeader(name) === h));
+    if (indexes[key] === -1 && required.includes(key)) {
+      throw new Error(`${feed} halts CSV is missing the "${columns[key][0]}" column`);
+    }
+  }
+
+  return rows.map(row => {
+    const record = {} as Record<K, string>;
+    for (const key of Object.keys(indexes) as K[]) {
+      record[key] = indexes[key] === -1 ? '' : (row[indexes[key]] || '').trim();
+    }
+    return record;
+  });
+}
+
+/** YYYY-MM-DD, MM/DD/YYYY or MM/DD/YY as the MM/DD/YYYY HaltRecord uses, '' when unparseable */
+export function toHaltDate(value: string): string {
+  const v = value.trim();
+  const iso = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[2].padStart(2, '0')}/${iso[3].padStart(2, '0')}/${iso[1]}`;
+
+  const us = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+    return `${us[1].padStart(2, '0')}/${us[2].padStart(2, '0')}/${year}`;
+  }
+  return '';
+}
+
+/** "9:30", "09:30:05" or "9:30:05 AM" as HH:MM:SS, '' when unparseable */
+export function toHaltTime(value: string): string {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([AaPp][Mm])?$/);
+  if (!match) return '';
+
+  let hour = parseInt(match[1], 10);
+  const meridiem = match[4]?.toUpperCase();
+  if (meridiem === 'PM' && hour < 12) hour += 12;
+  if (meridiem === 'AM' && hour === 12) hour = 0;
+
+  return `${String(hour).padStart(2, '0')}:${match[2]}:${match[3] || '00'}`;
+}
@@ -0,0 +1,65 @@
+import { getConfig } from '@/lib/config';
+import { cboeHaltSource } from './cboe';
+import { mergeHaltRecords } from './merge';
+import { nasdaqHaltSource } from './nasdaq';
+import { nyseHaltSource } from './nyse';
+import type { HaltRecord } from '../types';
+import type { HaltSource, HaltSourceContext } from './types';
+
+export type { HaltSource, HaltSourceContext } from './types';
+export { fetchNasdaqHalts, parseNasdaqRpcResponse, parseNasdaqTable } from './nasdaq';
+export { parseNyseHalts } from './nyse';
+export { parseCboeHalts } from './cboe';
+export { parseCsv } from './csv';
+export { mergeHaltRecords } from './merge';
+
+/** Every halt source known to the app */
+export const haltSources: HaltSource[] = [nasdaqHaltSource, nyseHaltSource, cboeHaltSource];
+
+const DEFAULT_SOURCES = ['nasdaq', 'nyse', 'cboe'];
+
+const defaultContext: HaltSourceContext = {
+  fetch: (input, init) => fetch(input, init)
+};
+
+/**
+ * Resolves which halt sources are polled. HALT_SOURCES replaces the default
+ * list; its order also decides which venue's row wins when a halt is
+ * reported by several and none of them is the listing market.
+ */
+export function getEnabledHaltSources(names: string[] | null = getConfig().halts.sources): HaltSource[] {
+  const requested = names || DEFAULT_SOURCES;
+
+  const sources: HaltSource[] = [];
+  for (const name of requested) {
+    const source = haltSources.find(s => s.name === name);
+    if (!source) {
+      console.warn(`⚠️ Unknown halt source "${name}" - skipping`);
+      continue;
+    }
+    sources.push(source);
+  }
+  return sources;
+}
+
+/**
+ * Fetches every enabled source in parallel and merges halts reported by more
+ * than one venue. A failing source is logged and left out.
+ */
+export async function fetchAllHalts(
+  sources: HaltSource[] = getEnabledHaltSources(),
+  ctx: HaltSourceContext = defaultContext
+): Promise<HaltRecord[]> {
+  const results = await Promise.allSettled(sources.map(source => source.fetch(ctx)));
+
+  const halts: HaltRecord[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      halts.push(...result.value);
+    } else {
+      console.error(`❌ ${sources[i].label} halts unavailable:`, result.reason instanceof Error ? result.reason.message : result.reason);
+    }
+  });
+
+  return mergeHaltRecords(halts, sources.map(s => s.name));
+}
@@ -0,0 +1,107 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import type { HaltRecord } from '../types';
+import { parseCboeHalts } from './cboe';
+import { HaltMergeIndex, mergeHaltRecords } from './merge';
+import { parseNasdaqRpcResponse } from './nasdaq';
+import { parseNyseHalts } from './nyse';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+const halt = (overrides: Partial<HaltRecord>): HaltRecord => ({
+  symbol: 'GME',
+  haltDate: '03/14/2025',
+  haltTime: '10:02:00',
+  issueName: 'GameStop Corp.',
+  market: 'NYSE',
+  reasonCodes: 'T1',
+  pauseThresholdPrice: 'N/A',
+  resumptionDate: 'N/A',
+  resumptionQuoteTime: 'N/A',
+  resumptionTradeTime: 'N/A',
+  source: 'nyse',
+  ...overrides
+});
+
+describe('mergeHaltRecords', () => {
+  it('collapses a halt every venue reported into the listing venue\'s row', () => {
+    const all = [
+      ...parseNasdaqRpcResponse(fixture('nasdaq-halts.json')),
+      ...parseNyseHalts(fixture('nyse-halts.csv')),
+      ...parseCboeHalts(fixture('cboe-halts.csv'))
+    ];
+
+    const merged = mergeHaltRecords(all, ['nasdaq', 'nyse', 'cboe']);
+    const bySymbol = new Map(merged.map(row => [row.symbol, row]));
+
+    // 3 NASDAQ + 3 NYSE + 3 Cboe rows, of which BRK.B and ABVX were reported twice
+    expect(merged).toHaveLength(7);
+
+    // NYSE lists BRK.B, so its row wins and borrows the pause price only NASDAQ had
+    expect(bySymbol.get('BRK B')).toMatchObject({
+      source: 'nyse',
+      sources: ['nyse', 'nasdaq'],
+      haltTime: '15:31:05',
+      issueName: 'Berkshire Hathaway Inc., Class B',
+      pauseThresholdPrice: '478.02'
+    });
+    expect(bySymbol.has('BRK.B')).toBe(false);
+
+    expect(bySymbol.get('ABVX')).toMatchObject({
+      source: 'nasdaq',
+      sources: ['nasdaq', 'cboe'],
+      haltTime: '09:45:12',
+      pauseThresholdPrice: '12.41'
+    });
+  });
+
+  it('prefers the earlier source in the order when no listing venue reported the halt', () => {
+    const merged = mergeHaltRecords([
+      halt({ market: 'OTC', source: 'cboe', issueName: 'From Cboe' }),
+      halt({ market: 'OTC', source: 'nasdaq', issueName: 'From NASDAQ' })
+    ], ['nasdaq', 'cboe']);
+
+    expect(merged).toEqual([expect.objectContaining({ issueName: 'From NASDAQ', sources: ['nasdaq', 'cboe'] })]);
+  });
+
+  it('keeps halts of the same symbol more than two minutes apart', () => {
+    const merged = mergeHaltRecords([
+      halt({ haltTime: '10:02:00' }),
+      halt({ haltTime: '10:04:01', source: 'cboe' }),
+      halt({ haltTime: '10:02:00', haltDate: '03/15/2025' })
+    ]);
+
+    expect(merged).toHaveLength(3);
+  });
+
+  it('matches unparseable times only when they are identical', () => {
+    const merged = mergeHaltRecords([
+      halt({ haltTime: 'N/A' }),
+      halt({ haltTime: 'N/A', source: 'cboe' }),
+      halt({ haltTime: '10:02:00', source: 'nasdaq' })
+    ]);
+
+    expect(merged.map(row => row.sources)).toEqual([['nyse', 'cboe'], ['nasdaq']]);
+  });
+
+  it('does not modify the rows it was given', () => {
+    const rows = [halt({}), halt({ source: 'cboe', resumptionDate: '03/14/2025' })];
+    mergeHaltRecords(rows);
+
+    expect(rows[0].resumptionDate).toBe('N/A');
+    expect(rows[0].sources).toBeUndefined();
+  });
+});
+
+describe('HaltMergeIndex', () => {
+  it('forgets removed rows', () => {
+    const index = new HaltMergeIndex();
+    const row = halt({});
+    index.add(row);
+
+    expect(index.find(halt({ symbol: 'gme', haltTime: '10:03:00', source: 'cboe' }))).toBe(row);
+    index.remove(row);
+    expect(index.find(row)).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { canonicalSymbol } from '@/lib/security-types';
+import type { HaltRecord } from '../types';
+
+// Venues stamp the same halt a few seconds apart
+const SAME_HALT_TOLERANCE_SECONDS = 2 * 60;
+
+const LISTING_SOURCES: [RegExp, string][] = [
+  [/nyse|amex|arca/i, 'nyse'],
+  [/cboe|bats|bzx|byx|edgx|edga/i, 'cboe'],
+  [/nasdaq|^n[gmc]m$|^nas$/i, 'nasdaq']
+];
+
+const isBlank = (value: string | undefined) => !value || value === 'N/A';
+
+/** The listing venue's own row wins, then the earlier source in `order` */
+function rank(halt: HaltRecord, order: string[]): number {
+  const listing = LISTING_SOURCES.find(([pattern]) => pattern.test(halt.market))?.[1];
+  const position = order.indexOf(halt.source);
+  return (listing === halt.source ? 0 : 1000) + (position === -1 ? order.length : position);
+}
+
+interface IndexedHalt {
+  halt: HaltRecord;
+  /** Seconds since midnight, null when the feed's time doesn't parse */
+  time: number | null;
+}
+
+function bucketKey(halt: HaltRecord): string {
+  return `${canonicalSymbol(halt.symbol)}|${halt.haltDate}`;
+}
+
+// Rows in a bucket share the halt date, so the clock time alone orders them
+function indexed(halt: HaltRecord): IndexedHalt {
+  const match = halt.haltTime.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  const time = match ? parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3] || '0', 10) : null;
+  return { halt, time };
+}
+
+function sameHalt(a: IndexedHalt, b: IndexedHalt): boolean {
+  if (a.time === null || b.time === null) return a.halt.haltTime === b.halt.haltTime;
+  return Math.abs(a.time - b.time) <= SAME_HALT_TOLERANCE_SECONDS;
+}
+
+/**
+ * Finds the row of a halt another venue already reported. Rows are bucketed
+ * by canonical symbol and halt date, so a lookup only compares the handful
+ * of rows in its bucket rather than every row seen so far.
+ */
+export class HaltMergeIndex {
+  private buckets = new Map<string, IndexedHalt[]>();
+
+  find(halt: HaltRecord): HaltRecord | undefined {
+    const entry = indexed(halt);
+    return this.buckets.get(bucketKey(halt))?.find(other => sameHalt(other, entry))?.halt;
+  }
+
+  add(halt: HaltRecord): void {
+    const key = bucketKey(halt);
+    const bucket = this.buckets.get(key);
+    if (bucket) bucket.push(indexed(halt));
+    else this.buckets.set(key, [indexed(halt)]);
+  }
+
+  remove(halt: HaltRecord): void {
+    const key = bucketKey(halt);
+    const bucket = this.buckets.get(key)?.filter(entry => entry.halt !== halt);
+    if (bucket && bucket.length > 0) this.buckets.set(key, bucket);
+    else this.buckets.delete(key);
+  }
+}
+
+/** Fills the columns `target` left blank from `other` and adds its sources */
+export function absorbHalt(target: HaltRecord, other: HaltRecord): void {
+  for (const key of Object.keys(other) as (keyof HaltRecord)[]) {
+    if (key === 'source' || key === 'sources') continue;
+    if (isBlank(target[key] as string | undefined) && !isBlank(other[key] as string | undefined)) {
+      (target as unknown as Record<string, unknown>)[key] = other[key];
+    }
+  }
+
+  target.sources = target.sources || [target.source];
+  for (const source of other.sources || [other.source]) {
+    if (!target.sources.includes(source)) target.sources.push(source);
+  }
+}
+
+/**
+ * Collapses halts several venues reported into one row. The preferred row
+ * keeps its values and borrows any column it left blank from the others, and
+ * `sources` lists every venue that reported it.
+ */
+export function mergeHaltRecords(halts: HaltRecord[], order: string[] = []): HaltRecord[] {
+  const sorted = halts
+    .map(halt => ({ halt, rank: rank(halt, order) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ halt }) => halt);
+  const index = new HaltMergeIndex();
+  const merged: HaltRecord[] = [];
+
+  for (const halt of sorted) {
+    const existing = index.find(halt);
+    if (existing) {
+      absorbHalt(existing, halt);
+      continue;
+    }
+
+    const row = { ...halt, sources: [...(halt.sources || [halt.source])] };
+    index.add(row);
+    merged.push(row);
+  }
+
+  return merged;
+}
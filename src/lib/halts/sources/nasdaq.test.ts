@@ -0,0 +1,110 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { fetchNasdaqHalts, parseNasdaqRpcResponse, parseNasdaqTable } from './nasdaq';
+
+// Recorded RPCHandler.axd answers to BL_TradeHalt.GetTradeHalts
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('parseNasdaqRpcResponse', () => {
+  it('parses every row of the halts table', () => {
+    const halts = parseNasdaqRpcResponse(fixture('nasdaq-halts.json'));
+
+    expect(halts).toHaveLength(3);
+    expect(halts[0]).toEqual({
+      symbol: 'ABVX',
+      haltDate: '03/14/2025',
+      haltTime: '09:45:12',
+      issueName: 'Abivax SA American Depositary Shares',
+      market: 'NASDAQ',
+      reasonCodes: 'LUDP',
+      pauseThresholdPrice: '12.41',
+      resumptionDate: '03/14/2025',
+      resumptionQuoteTime: '09:50:12',
+      resumptionTradeTime: '09:50:12',
+      source: 'nasdaq'
+    });
+    expect(halts[1]).toMatchObject({ symbol: 'XTIA', reasonCodes: 'T1', pauseThresholdPrice: 'N/A', resumptionTradeTime: 'N/A' });
+  });
+
+  it('returns no halts for a table with only its header row', () => {
+    expect(parseNasdaqRpcResponse(fixture('nasdaq-no-rows.json'))).toEqual([]);
+  });
+
+  it('finds columns by header text when their order changes', () => {
+    const reordered = parseNasdaqRpcResponse(fixture('nasdaq-reordered-columns.json'));
+    expect(reordered).toEqual(parseNasdaqRpcResponse(fixture('nasdaq-halts.json')));
+  });
+
+  it('skips rows of a truncated table that lack a valid time', () => {
+    const halts = parseNasdaqRpcResponse(fixture('nasdaq-malformed.json'));
+    expect(halts.map(halt => halt.symbol)).toEqual(['ABVX']);
+  });
+
+  it('throws when the answer holds no table', () => {
+    expect(() => parseNasdaqRpcResponse(fixture('nasdaq-maintenance.json'))).toThrow(/has no table/);
+  });
+
+  it('throws on a body that is not JSON, an RPC error or a missing result', () => {
+    expect(() => parseNasdaqRpcResponse('<html>Bad Gateway</html>')).toThrow(/not JSON/);
+    expect(() => parseNasdaqRpcResponse('{"id":2,"error":{"message":"Method not found"}}')).toThrow(/RPC returned an error/);
+    expect(() => parseNasdaqRpcResponse('{"id":2,"result":null}')).toThrow(/no "result"/);
+  });
+});
+
+describe('parseNasdaqTable', () => {
+  it('throws naming the required columns a changed table lost', () => {
+    const html = '<table><tr><th>Halt Date</th><th>Issue Symbol</th></tr><tr><td>03/14/2025</td><td>ABVX</td></tr></table>';
+    expect(() => parseNasdaqTable(html)).toThrow(/"Halt Time", "Reason Codes"/);
+  });
+});
+
+describe('fetchNasdaqHalts', () => {
+  it('posts the GetTradeHalts RPC and parses the answer', async () => {
+    const calls: RequestInit[] = [];
+    const fetchFn = (async (_url: RequestInfo | URL, init?: RequestInit) => {
+      calls.push(init!);
+      return new Response(fixture('nasdaq-halts.json'));
+    }) as typeof fetch;
+
+    const halts = await fetchNasdaqHalts(fetchFn);
+
+    expect(halts).toHaveLength(3);
+    expect(calls).toHaveLength(1);
+    expect(JSON.parse(calls[0].body as string)).toMatchObject({ method: 'BL_TradeHalt.GetTradeHalts' });
+  });
+
+  // Answers each attempt with the next response, repeating the last one
+  const answering = (...responses: (() => Response)[]) => {
+    const calls: string[] = [];
+    const fetchFn = (async (url: RequestInfo | URL) => {
+      calls.push(String(url));
+      return responses[Math.min(calls.length, responses.length) - 1]();
+    }) as typeof fetch;
+    return { fetchFn, calls };
+  };
+
+  it('fails on the first answer it cannot parse instead of fetching it again', async () => {
+    const { fetchFn, calls } = answering(() => new Response(fixture('nasdaq-maintenance.json')));
+
+    await expect(fetchNasdaqHalts(fetchFn)).rejects.toThrow('NASDAQ halts HTML has no table');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('does not retry a client error', async () => {
+    const { fetchFn, calls } = answering(() => new Response('Not Found', { status: 404, statusText: 'Not Found' }));
+
+    await expect(fetchNasdaqHalts(fetchFn)).rejects.toThrow('HTTP 404: Not Found');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('retries when the feed is overloaded', async () => {
+    const { fetchFn, calls } = answering(
+      () => new Response('Service Unavailable', { status: 503, statusText: 'Service Unavailable' }),
+      () => new Response(fixture('nasdaq-halts.json'))
+    );
+
+    expect(await fetchNasdaqHalts(fetchFn)).toHaveLength(3);
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,231 @@
+import * as cheerio from 'cheerio';
+import { isString, shape } from '@/lib/schema';
+import type { HaltRecord } from '../types';
+import type { HaltSource } from './types';
+
+// Worth another attempt: the feed is overloaded or rate limiting us
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Downloads the trade halts table NASDAQ Trader currently shows, which covers
+ * a short rolling window of recent days. Network errors, timeouts, 429 and
+ * 5xx answers are retried; any other HTTP error, or a response that doesn't
+ * parse, rejects straight away since asking again won't change it. The other
+ * halt sources and the archive still answer.
+ */
+export async function fetchNasdaqHalts(fetchFn: typeof fetch = fetch): Promise<HaltRecord[]> {
+  const url = "https://www.nasdaqtrader.com/RPCHandler.axd";
+  
+  const headers = {
+    "accept": "*/*",
+    "accept-language": "en-US,en;q=0.9",
+    "content-type": "application/json",
+    "origin": "https://www.nasdaqtrader.com",
+    "referer": "https://www.nasdaqtrader.com/trader.aspx?id=tradehalts",
+    "user-agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36",
+    "sec-fetch-dest": "empty",
+    "sec-fetch-mode": "cors",
+    "sec-fetch-site": "same-origin"
+  };
+
+  const payload = JSON.stringify({
+    id: 2,
+    method: "BL_TradeHalt.GetTradeHalts",
+    params: "[]",
+    version: "1.1"
+  });
+
+  const maxRetries = 3;
+  let lastError: Error | null = null;
+  let responseText: string | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timeoutMs = 8000;
+    const timeoutId = setTimeout(() => {
+      console.log(`⏰ Request timeout after ${timeoutMs}ms on attempt ${attempt}`);
+      controller.abort();
+    }, timeoutMs);
+
+    let response: Response | null = null;
+    try {
+      console.log(`🔄 Attempt ${attempt}/${maxRetries} to fetch NASDAQ halts`);
+
+      response = await fetchFn(url, {
+        method: "POST",
+        headers,
+        body: payload,
+        signal: controller.signal,
+      });
+      if (response.ok) {
+        responseText = await response.text();
+      }
+    } catch (error) {
+      lastError = error as Error;
+      const errorType = error instanceof Error && error.name === 'AbortError' ? 'TIMEOUT' : 'NETWORK';
+      console.log(`❌ Attempt ${attempt} failed (${errorType}):`, error instanceof Error ? error.message : error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (responseText !== null) {
+      console.log(`✅ Fetched NASDAQ halts on attempt ${attempt} (${responseText.length} bytes)`);
+      break;
+    }
+
+    if (response && !response.ok) {
+      lastError = new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (!isRetryableStatus(response.status)) {
+        throw lastError;
+      }
+      console.log(`❌ Attempt ${attempt} failed (HTTP ${response.status})`);
+    }
+
+    if (attempt < maxRetries) {
+      // Shorter delays for faster fallback: 1s, 2s
+      const delay = attempt * 1000;
+      console.log(`⏳ Waiting ${delay}ms before retry...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  if (responseText === null) {
+    throw lastError || new Error('NASDAQ halts request failed');
+  }
+
+  return parseNasdaqRpcResponse(responseText);
+}
+
+const rpcResponseSchema = shape<{ result: string }>({ result: isString });
+
+/**
+ * Unwraps the JSON-RPC envelope RPCHandler.axd answers with and parses the
+ * halts table inside it. Throws an error saying what was wrong with the
+ * response rather than returning an empty list.
+ */
+export function parseNasdaqRpcResponse(text: string): HaltRecord[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`NASDAQ halts response is not JSON (${error instanceof Error ? error.message : error}): ${text.slice(0, 120)}`);
+  }
+
+  const rpcError = (json as { error?: unknown } | null)?.error;
+  if (rpcError) {
+    throw new Error(`NASDAQ halts RPC returned an error: ${JSON.stringify(rpcError).slice(0, 200)}`);
+  }
+  if (!rpcResponseSchema(json)) {
+    throw new Error('NASDAQ halts response has no "result" HTML string');
+  }
+
+  return parseNasdaqTable(json.result);
+}
+
+const NASDAQ_COLUMNS = {
+  haltDate: 'Halt Date',
+  haltTime: 'Halt Time',
+  symbol: 'Issue Symbol',
+  issueName: 'Issue Name',
+  market: 'Market',
+  reasonCodes: 'Reason Codes',
+  pauseThresholdPrice: 'Pause Threshold Price',
+  resumptionDate: 'Resumption Date',
+  resumptionQuoteTime: 'Resumption Quote Time',
+  resumptionTradeTime: 'Resumption Trade Time'
+};
+
+type NasdaqColumn = keyof typeof NASDAQ_COLUMNS;
+
+const REQUIRED_COLUMNS: NasdaqColumn[] = ['haltDate', 'haltTime', 'symbol', 'reasonCodes'];
+
+const DATE_PATTERN = /^\d{2}\/\d{2}\/\d{4}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}:\d{2}$/;
+
+const nasdaqRowSchema = shape<Pick<HaltRecord, 'symbol' | 'haltDate' | 'haltTime'>>({
+  symbol: (value): value is string => isString(value) && value.length > 0,
+  haltDate: (value): value is string => isString(value) && DATE_PATTERN.test(value),
+  haltTime: (value): value is string => isString(value) && TIME_PATTERN.test(value)
+});
+
+const normalizeHeader = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Parses every row of the halts table, whatever its date. Columns are found
+ * by header text, so a reordered table still parses; a missing required
+ * column throws. Rows without a symbol, date and time are skipped.
+ */
+export function parseNasdaqTable(html: string): HaltRecord[] {
+  const $ = cheerio.load(html);
+  const table = $('table').first();
+  if (table.length === 0) {
+    throw new Error(`NASDAQ halts HTML has no table: ${html.trim().slice(0, 120) || '(empty)'}`);
+  }
+
+  const rows = table.find('tr');
+  const headerRow = rows.filter((_, row) => $(row).find('th').length > 0).first();
+  const headers = headerRow.find('th').map((_, th) => normalizeHeader($(th).text())).get();
+
+  const indexes = {} as Record<NasdaqColumn, number>;
+  for (const key of Object.keys(NASDAQ_COLUMNS) as NasdaqColumn[]) {
+    indexes[key] = headers.indexOf(normalizeHeader(NASDAQ_COLUMNS[key]));
+  }
+  const missing = REQUIRED_COLUMNS.filter(key => indexes[key] === -1);
+  if (missing.length > 0) {
+    throw new Error(
+      `NASDAQ halts table is missing the ${missing.map(key => `"${NASDAQ_COLUMNS[key]}"`).join(', ')} column(s); ` +
+      `found ${headers.length > 0 ? headers.join(', ') : 'no header row'}`
+    );
+  }
+
+  const halts: HaltRecord[] = [];
+  let skipped = 0;
+
+  rows.each((_, row) => {
+    const cells = $(row).find('td');
+    if (cells.length === 0) return;
+
+    const cell = (key: NasdaqColumn): string => {
+      if (indexes[key] === -1) return 'N/A';
+      const td = cells.eq(indexes[key]);
+      if (key === 'reasonCodes') {
+        // Each code is a link to its legend entry; fall back to the plain text
+        const codes = td.find('a').map((_, a) => $(a).text().trim()).get().filter(Boolean);
+        if (codes.length > 0) return codes.join(', ');
+      }
+      return td.text().replace(/\s+/g, ' ').trim() || 'N/A';
+    };
+
+    const halt: HaltRecord = {
+      symbol: cell('symbol').toUpperCase(),
+      haltDate: cell('haltDate'),
+      haltTime: cell('haltTime'),
+      issueName: cell('issueName'),
+      market: cell('market'),
+      reasonCodes: cell('reasonCodes'),
+      pauseThresholdPrice: cell('pauseThresholdPrice'),
+      resumptionDate: cell('resumptionDate'),
+      resumptionQuoteTime: cell('resumptionQuoteTime'),
+      resumptionTradeTime: cell('resumptionTradeTime'),
+      source: 'nasdaq'
+    };
+
+    if (nasdaqRowSchema(halt)) {
+      halts.push(halt);
+    } else {
+      skipped++;
+    }
+  });
+
+  if (skipped > 0) {
+    console.warn(`⚠️ Skipped ${skipped} NASDAQ halt row(s) without a valid symbol, halt date and time`);
+  }
+  console.log(`Found ${halts.length} halts in the NASDAQ feed`);
+  return halts;
+}
+
+export const nasdaqHaltSource: HaltSource = {
+  name: 'nasdaq',
+  label: 'NASDAQ Trader',
+  fetch: ctx => fetchNasdaqHalts(ctx.fetch)
+};
@@ -0,0 +1,50 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseNyseHalts } from './nyse';
+
+// Recorded NYSE current trade halts CSV, byte order mark and CRLF line ends included
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('parseNyseHalts', () => {
+  it('normalizes every row into the NASDAQ columns', () => {
+    const halts = parseNyseHalts(fixture('nyse-halts.csv'));
+
+    expect(halts).toHaveLength(3);
+    expect(halts[0]).toEqual({
+      symbol: 'BRK B',
+      haltDate: '03/13/2025',
+      haltTime: '15:31:05',
+      issueName: 'Berkshire Hathaway Inc., Class B',
+      market: 'NYSE',
+      reasonCodes: 'LUDP',
+      pauseThresholdPrice: 'N/A',
+      resumptionDate: '03/13/2025',
+      resumptionQuoteTime: '15:36:05',
+      resumptionTradeTime: '15:36:05',
+      source: 'nyse'
+    });
+  });
+
+  it('keeps escaped quotes and leaves blank resumption columns as N/A', () => {
+    const [, gme] = parseNyseHalts(fixture('nyse-halts.csv'));
+    expect(gme).toMatchObject({
+      issueName: 'GameStop Corp. "Class A"',
+      reasonCodes: 'T1',
+      resumptionDate: 'N/A',
+      resumptionTradeTime: 'N/A'
+    });
+  });
+
+  it('maps free text reasons onto catalogue codes', () => {
+    expect(parseNyseHalts(fixture('nyse-halts.csv')).map(halt => halt.reasonCodes)).toEqual(['LUDP', 'T1', 'O1']);
+  });
+
+  it('throws when a required column disappears', () => {
+    expect(() => parseNyseHalts('Halt Date,Symbol\n2025-03-13,GME\n')).toThrow('NYSE halts CSV is missing the "Halt Time" column');
+  });
+
+  it('returns no halts for a header without rows', () => {
+    expect(parseNyseHalts('Halt Date,Halt Time,Symbol\r\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { getConfig } from '@/lib/config';
+import { reasonCodeForText } from '../reason-codes';
+import type { HaltRecord } from '../types';
+import { readCsvColumns, toHaltDate, toHaltTime } from './csv';
+import type { HaltSource } from './types';
+
+const NYSE_HALTS_URL = getConfig().halts.nyseUrl;
+
+const NYSE_COLUMNS = {
+  haltDate: ['Halt Date'],
+  haltTime: ['Halt Time'],
+  symbol: ['Symbol'],
+  name: ['Name', 'Issue Name'],
+  exchange: ['Exchange', 'Market'],
+  reason: ['Reason'],
+  resumeDate: ['Resume Date', 'Resumption Date'],
+  resumeTime: ['NYSE Resume Time', 'Resume Time', 'Resumption Time']
+};
+
+/**
+ * Parses the NYSE current trade halts CSV, which covers halts of NYSE,
+ * NYSE American, Arca, National and Texas listings. NYSE does not publish a
+ * separate quote and trade resumption time, so the resume time fills both.
+ */
+export function parseNyseHalts(csv: string): HaltRecord[] {
+  const rows = readCsvColumns(csv, NYSE_COLUMNS, ['haltDate', 'haltTime', 'symbol'], 'NYSE');
+
+  return rows
+    .filter(row => row.symbol)
+    .map(row => {
+      const resumeTime = toHaltTime(row.resumeTime);
+      return {
+        symbol: row.symbol.toUpperCase(),
+        haltDate: toHaltDate(row.haltDate) || 'N/A',
+        haltTime: toHaltTime(row.haltTime) || 'N/A',
+        issueName: row.name || 'N/A',
+        market: row.exchange || 'NYSE',
+        reasonCodes: row.reason ? reasonCodeForText(row.reason) : 'N/A',
+        pauseThresholdPrice: 'N/A',
+        resumptionDate: toHaltDate(row.resumeDate) || 'N/A',
+        resumptionQuoteTime: resumeTime || 'N/A',
+        resumptionTradeTime: resumeTime || 'N/A',
+        source: 'nyse'
+      };
+    });
+}
+
+export const nyseHaltSource: HaltSource = {
+  name: 'nyse',
+  label: 'NYSE',
+  fetch: async ctx => {
+    const response = await ctx.fetch(NYSE_HALTS_URL, {
+      headers: { accept: 'text/csv,*/*' },
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      throw new Error(`NYSE halts request failed: ${response.status} ${response.statusText}`);
+    }
+    return parseNyseHalts(await response.text());
+  }
+};
@@ -0,0 +1,18 @@
+import type { HaltRecord } from '../types';
+
+export interface HaltSourceContext {
+  fetch: typeof fetch;
+}
+
+/**
+ * A venue's published halt list. Adapters download their feed and normalize
+ * every row into a HaltRecord tagged with the adapter's name as `source`.
+ */
+export interface HaltSource {
+  /** Unique id used in HALT_SOURCES and in HaltRecord.source */
+  name: string;
+  /** Human readable label used in logs and the UI */
+  label: string;
+  /** May reject when the feed is down; the other sources still run */
+  fetch: (ctx: HaltSourceContext) => Promise<HaltRecord[]>;
+}
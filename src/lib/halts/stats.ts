@@ -0,0 +1,147 @@
+import { nasdaqDateToKey } from '@/lib/market-calendar';
+import { describeReasonCode, type HaltCategory } from './reason-codes';
+import type { Halt } from './types';
+
+// Limit Up-Limit Down pauses, as opposed to news or regulatory halts
+const LULD_CODES = ['LUDP', 'LUDS', 'M'];
+
+const TOP_LIMIT = 25;
+
+export interface ReasonCodeCount {
+  code: string;
+  description: string;
+  category: HaltCategory;
+  count: number;
+}
+
+export interface RepeatHaltedSymbol {
+  symbol: string;
+  halts: number;
+  /** Distinct exchange-time days the symbol was halted on */
+  days: number;
+  luldPauses: number;
+  /** ISO timestamp of the latest halt */
+  lastHaltedAt: string | null;
+}
+
+export interface LuldSymbolDay {
+  symbol: string;
+  /** YYYY-MM-DD */
+  date: string;
+  pauses: number;
+}
+
+export interface HaltStats {
+  total: number;
+  symbols: number;
+  byReasonCode: ReasonCodeCount[];
+  byMarket: { market: string; count: number }[];
+  /** 24 entries, halts by exchange-time hour of the halt */
+  byHour: number[];
+  /** Over halts that have resumed trading */
+  medianDurationSeconds: number | null;
+  resumedCount: number;
+  /** Symbols halted more than once, most halts first */
+  repeatSymbols: RepeatHaltedSymbol[];
+  luld: {
+    /** How many symbol-days had 1, 2, 3... LULD pauses */
+    distribution: { pauses: number; symbolDays: number }[];
+    /** Symbol-days with the most pauses */
+    top: LuldSymbolDay[];
+  };
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const isLuld = (halt: Halt) => halt.reasons.some(reason => LULD_CODES.includes(reason.code));
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const k = key(item);
+    counts.set(k, (counts.get(k) || 0) + 1);
+  }
+  return counts;
+}
+
+/** Aggregates already-described halts, e.g. the result of `getHalts` for a range */
+export function computeHaltStats(halts: Halt[]): HaltStats {
+  const reasonCounts = new Map<string, number>();
+  for (const halt of halts) {
+    const codes = halt.reasons.length > 0 ? halt.reasons.map(reason => reason.code) : ['N/A'];
+    for (const code of new Set(codes)) {
+      reasonCounts.set(code, (reasonCounts.get(code) || 0) + 1);
+    }
+  }
+  const byReasonCode = [...reasonCounts.entries()]
+    .map(([code, count]) => {
+      const { description, category } = describeReasonCode(code);
+      return { code, description, category, count };
+    })
+    .sort((a, b) => b.count - a.count);
+
+  const byMarket = [...countBy(halts, halt => halt.market || 'N/A').entries()]
+    .map(([market, count]) => ({ market, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const byHour = new Array<number>(24).fill(0);
+  for (const halt of halts) {
+    const hour = parseInt(halt.haltTime.slice(0, 2), 10);
+    if (hour >= 0 && hour < 24) byHour[hour]++;
+  }
+
+  const durations = halts
+    .filter(halt => halt.status === 'resumed' && halt.durationSeconds !== null)
+    .map(halt => halt.durationSeconds as number);
+
+  const bySymbol = new Map<string, Halt[]>();
+  for (const halt of halts) {
+    bySymbol.set(halt.symbol, [...(bySymbol.get(halt.symbol) || []), halt]);
+  }
+
+  const repeatSymbols = [...bySymbol.entries()]
+    .filter(([, symbolHalts]) => symbolHalts.length > 1)
+    .map(([symbol, symbolHalts]) => ({
+      symbol,
+      halts: symbolHalts.length,
+      days: new Set(symbolHalts.map(halt => halt.haltDate)).size,
+      luldPauses: symbolHalts.filter(isLuld).length,
+      lastHaltedAt: symbolHalts
+        .map(halt => halt.haltedAt)
+        .filter((at): at is string => at !== null)
+        .sort()
+        .pop() ?? null
+    }))
+    .sort((a, b) => b.halts - a.halts || b.luldPauses - a.luldPauses)
+    .slice(0, TOP_LIMIT);
+
+  const luldDays = [...countBy(halts.filter(isLuld), halt => `${halt.symbol}|${halt.haltDate}`).entries()]
+    .map(([key, pauses]) => {
+      const [symbol, haltDate] = key.split('|');
+      return { symbol, date: nasdaqDateToKey(haltDate) || haltDate, pauses };
+    });
+
+  const distribution = [...countBy(luldDays, day => String(day.pauses)).entries()]
+    .map(([pauses, symbolDays]) => ({ pauses: parseInt(pauses, 10), symbolDays }))
+    .sort((a, b) => a.pauses - b.pauses);
+
+  return {
+    total: halts.length,
+    symbols: bySymbol.size,
+    byReasonCode,
+    byMarket,
+    byHour,
+    medianDurationSeconds: median(durations),
+    resumedCount: durations.length,
+    repeatSymbols,
+    luld: {
+      distribution,
+      top: luldDays.sort((a, b) => b.pauses - a.pauses || b.date.localeCompare(a.date)).slice(0, TOP_LIMIT)
+    }
+  };
+}
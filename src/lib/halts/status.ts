@@ -0,0 +1,66 @@
+import { nasdaqDateToKey, parseEasternDateTime } from '@/lib/market-calendar';
+import { parseReasonCodes } from './reason-codes';
+import type { Halt, HaltQuery, HaltRecord, HaltStatus, HaltTiming } from './types';
+
+/** A halt is the same event across polls as long as symbol, date and time match */
+export function haltKey(halt: HaltRecord): string {
+  return `${halt.symbol}|${halt.haltDate}|${halt.haltTime}`;
+}
+
+export function matchesHaltQuery(halt: HaltRecord, query: HaltQuery): boolean {
+  const dateKey = nasdaqDateToKey(halt.haltDate);
+  if (!dateKey || dateKey < query.from || dateKey > query.to) return false;
+  if (query.symbols && query.symbols.length > 0 && !query.symbols.includes(halt.symbol.toUpperCase())) return false;
+  return !query.categories || query.categories.length === 0 ||
+    parseReasonCodes(halt.reasonCodes).some(reason => query.categories!.includes(reason.category));
+}
+
+function parseResumption(halt: HaltRecord, time: string | undefined): Date | null {
+  if (!time || time === 'N/A') return null;
+  // The resumption date is blank on some rows that do have a time
+  const date = halt.resumptionDate && halt.resumptionDate !== 'N/A' ? halt.resumptionDate : halt.haltDate;
+  return parseEasternDateTime(date, time);
+}
+
+/** Status of a halt at `now`, from its ISO resumption timestamps */
+export function haltStatusAt(timing: Pick<HaltTiming, 'resumptionQuoteAt' | 'resumptionTradeAt'>, now: Date = new Date()): HaltStatus {
+  const nowMs = now.getTime();
+  if (timing.resumptionTradeAt && Date.parse(timing.resumptionTradeAt) <= nowMs) return 'resumed';
+  if (timing.resumptionQuoteAt && Date.parse(timing.resumptionQuoteAt) <= nowMs) return 'quoting';
+  return 'halted';
+}
+
+export function getHaltTiming(halt: HaltRecord, now: Date = new Date()): HaltTiming {
+  const haltedAt = parseEasternDateTime(halt.haltDate, halt.haltTime);
+  const resumptionQuoteAt = parseResumption(halt, halt.resumptionQuoteTime);
+  const resumptionTradeAt = parseResumption(halt, halt.resumptionTradeTime);
+
+  const timing = {
+    haltedAt: haltedAt ? haltedAt.toISOString() : null,
+    resumptionQuoteAt: resumptionQuoteAt ? resumptionQuoteAt.toISOString() : null,
+    resumptionTradeAt: resumptionTradeAt ? resumptionTradeAt.toISOString() : null
+  };
+  const status = haltStatusAt(timing, now);
+
+  return {
+    ...timing,
+    status,
+    durationSeconds: status === 'resumed' && haltedAt && resumptionTradeAt
+      ? Math.max(0, Math.round((resumptionTradeAt.getTime() - haltedAt.getTime()) / 1000))
+      : null
+  };
+}
+
+/** Adds parsed times, status and structured reason codes to a feed row */
+export function describeHalt(halt: HaltRecord, now: Date = new Date()): Halt {
+  return { ...halt, ...getHaltTiming(halt, now), reasons: parseReasonCodes(halt.reasonCodes) };
+}
+
+/** "4m 05s", "1h 12m" */
+export function formatHaltDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}h ${m.toString().padStart(2, '0')}m`;
+  return `${m}m ${s.toString().padStart(2, '0')}s`;
+}
@@ -0,0 +1,72 @@
+import type { NewsArticle, SecFiling } from '@/lib/symbol-providers/types';
+import type { HaltCategory, HaltReason } from './reason-codes';
+
+/** One halt, normalized to the NASDAQ Trader feed's columns whichever venue published it */
+export interface HaltRecord {
+  symbol: string;
+  /** MM/DD/YYYY, exchange time */
+  haltDate: string;
+  /** HH:MM:SS, exchange time */
+  haltTime: string;
+  issueName: string;
+  market: string;
+  reasonCodes: string;
+  pauseThresholdPrice: string;
+  resumptionDate: string;
+  resumptionQuoteTime: string;
+  /** Missing on halts archived before the column was captured */
+  resumptionTradeTime?: string;
+  /** Halt source the row came from, e.g. "nasdaq" */
+  source: string;
+  /** Every source that reported the halt, when feeds were merged */
+  sources?: string[];
+}
+
+/**
+ * halted  - no resumption time yet, or it is still in the future
+ * quoting - quotes have resumed but trading has not
+ * resumed - trading has resumed
+ */
+export type HaltStatus = 'halted' | 'quoting' | 'resumed';
+
+/** Feed times parsed as exchange time, plus where the halt stands */
+export interface HaltTiming {
+  /** ISO timestamps, null when the feed leaves the column blank */
+  haltedAt: string | null;
+  resumptionQuoteAt: string | null;
+  resumptionTradeAt: string | null;
+  status: HaltStatus;
+  /** Halt to trade resumption, null while the halt is still open */
+  durationSeconds: number | null;
+}
+
+/** Quote and news context of a halted symbol, from `/api/halts?enrich=true` */
+export interface HaltEnrichment {
+  lastPrice: number | null;
+  /** Provider the last price came from, e.g. "QuoteMedia" */
+  lastPriceSource: string | null;
+  /** Last price against the pause threshold price, in percent */
+  thresholdDistancePercent: number | null;
+  premarketGapPercent: number | null;
+  latestNews: NewsArticle | null;
+  latestFiling: SecFiling | null;
+}
+
+/** A halt as the API returns it */
+export type Halt = HaltRecord & HaltTiming & {
+  /** `reasonCodes` looked up in the reason code catalogue */
+  reasons: HaltReason[];
+  /** Only when enrichment was requested, and not for every symbol of large ranges */
+  enrichment?: HaltEnrichment;
+};
+
+export interface HaltQuery {
+  /** First exchange-time date to include, YYYY-MM-DD */
+  from: string;
+  /** Last exchange-time date to include, YYYY-MM-DD */
+  to: string;
+  /** Only these symbols, when given */
+  symbols?: string[];
+  /** Only halts with a reason code in one of these categories, when given */
+  categories?: HaltCategory[];
+}
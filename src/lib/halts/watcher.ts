@@ -0,0 +1,182 @@
+import { getConfig } from '@/lib/config';
+import { easternDateKey, nasdaqDateToKey } from '@/lib/market-calendar';
+import { haltArchive } from './archive';
+import { fetchAllHalts } from './sources';
+import { describeHalt, haltKey } from './status';
+import type { Halt } from './types';
+
+/**
+ * new_halt        - a halt appeared in the feed
+ * resumption_set  - a venue published a resumption quote or trade time
+ * resumed         - the resumption trade time has passed
+ */
+export type HaltEventType = 'new_halt' | 'resumption_set' | 'resumed';
+
+export interface HaltEvent {
+  type: HaltEventType;
+  key: string;
+  halt: Halt;
+  at: string;
+}
+
+export type HaltEventListener = (event: HaltEvent) => void;
+
+const POLL_INTERVAL_MS = getConfig().halts.watchIntervalMs;
+
+// Halts older than this are dropped from the snapshot; they can't change anymore
+const SNAPSHOT_DAYS = 5;
+
+/**
+ * Events between two snapshots of the feed. A halt can produce more than one
+ * event in the same poll, e.g. resumption_set and resumed together.
+ */
+export function diffHaltSnapshots(previous: Map<string, Halt>, next: Halt[], now: Date = new Date()): HaltEvent[] {
+  const events: HaltEvent[] = [];
+  const at = now.toISOString();
+
+  for (const halt of next) {
+    const key = haltKey(halt);
+    const before = previous.get(key);
+
+    if (!before) {
+      events.push({ type: 'new_halt', key, halt, at });
+      continue;
+    }
+
+    const resumptionChanged =
+      halt.resumptionQuoteAt !== before.resumptionQuoteAt ||
+      halt.resumptionTradeAt !== before.resumptionTradeAt;
+    if (resumptionChanged && (halt.resumptionQuoteAt || halt.resumptionTradeAt)) {
+      events.push({ type: 'resumption_set', key, halt, at });
+    }
+
+    if (halt.status === 'resumed' && before.status !== 'resumed') {
+      events.push({ type: 'resumed', key, halt, at });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Polls the halt sources while anyone is listening and reports what changed.
+ * There is one watcher per server, so the feeds are polled once however many
+ * browser tabs are subscribed.
+ */
+export class HaltWatcher {
+  private listeners = new Set<HaltEventListener>();
+  private snapshot = new Map<string, Halt>();
+  // What was reported, so a client can name an event without supplying it
+  private recent = new Map<string, HaltEvent>();
+  private seeded = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling: Promise<void> | null = null;
+
+  constructor(private intervalMs: number = POLL_INTERVAL_MS) {}
+
+  subscribe(listener: HaltEventListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      console.log('👀 Halt watcher started');
+      this.poll();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.timer) {
+        console.log('💤 Halt watcher stopped, no subscribers');
+        clearTimeout(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size;
+  }
+
+  /** An event this watcher reported, until its halt leaves the snapshot */
+  findEvent(type: HaltEventType, key: string): HaltEvent | undefined {
+    return this.recent.get(`${type}|${key}`);
+  }
+
+  /** Runs one poll now; concurrent calls share it */
+  poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.runPoll().finally(() => {
+        this.polling = null;
+        this.scheduleNext();
+      });
+    }
+    return this.polling;
+  }
+
+  private scheduleNext(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = this.listeners.size > 0 ? setTimeout(() => this.poll(), this.intervalMs) : null;
+  }
+
+  private async runPoll(): Promise<void> {
+    try {
+      const live = await fetchAllHalts();
+      await haltArchive.record(live);
+
+      const now = new Date();
+      const halts = live.map(halt => describeHalt(halt, now));
+
+      // The first poll only seeds the snapshot, otherwise every halt would look new
+      const events = this.seeded ? diffHaltSnapshots(this.snapshot, halts, now) : [];
+      this.seeded = this.seeded || halts.length > 0;
+
+      // Merge rather than replace: a failed fetch returns nothing and must not
+      // make every halt look new on the next poll
+      for (const halt of halts) {
+        this.snapshot.set(haltKey(halt), halt);
+      }
+      this.prune(now);
+
+      // Halts missing from this poll still turn resumed once their resumption time passes
+      const seen = new Set(halts.map(haltKey));
+      for (const [key, halt] of this.snapshot) {
+        if (seen.has(key)) continue;
+        const current = describeHalt(halt, now);
+        if (current.status === halt.status) continue;
+
+        this.snapshot.set(key, current);
+        if (this.seeded && current.status === 'resumed') {
+          events.push({ type: 'resumed', key, halt: current, at: now.toISOString() });
+        }
+      }
+
+      if (events.length > 0) {
+        console.log(`🔔 ${events.length} halt event(s): ${events.map(e => `${e.type} ${e.halt.symbol}`).join(', ')}`);
+      }
+
+      for (const event of events) {
+        this.recent.set(`${event.type}|${event.key}`, event);
+        this.listeners.forEach(listener => {
+          try {
+            listener(event);
+          } catch (error) {
+            console.error('❌ Halt event listener failed:', error);
+          }
+        });
+      }
+    } catch (error) {
+      console.error('❌ Halt watcher poll failed:', error);
+    }
+  }
+
+  private prune(now: Date): void {
+    const cutoff = easternDateKey(new Date(now.getTime() - SNAPSHOT_DAYS * 24 * 60 * 60 * 1000));
+    this.snapshot.forEach((halt, key) => {
+      const dateKey = nasdaqDateToKey(halt.haltDate);
+      if (!dateKey || dateKey < cutoff) this.snapshot.delete(key);
+    });
+    this.recent.forEach((event, key) => {
+      if (!this.snapshot.has(event.key)) this.recent.delete(key);
+    });
+  }
+}
+
+export const haltWatcher = new HaltWatcher();
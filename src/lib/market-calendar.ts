@@ -0,0 +1,319 @@
+/**
+ * US equity market calendar in exchange time (America/New_York), independent
+ * of the server's own time zone. Covers the extended-hours sessions, NYSE /
+ * NASDAQ holidays and the 1:00 PM early closes.
+ */
+
+export const MARKET_TIME_ZONE = 'America/New_York';
+
+export type MarketSession = 'premarket' | 'regular' | 'after_hours' | 'closed';
+
+export interface SessionWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface TradingDaySessions {
+  /** Trading day as YYYY-MM-DD in exchange time */
+  date: string;
+  earlyClose: boolean;
+  premarket: SessionWindow;
+  regular: SessionWindow;
+  afterHours: SessionWindow;
+}
+
+export interface MarketStatus {
+  session: MarketSession;
+  /** Exchange-time calendar date of `at` as YYYY-MM-DD */
+  date: string;
+  isTradingDay: boolean;
+  holiday: string | null;
+  earlyClose: boolean;
+  at: string;
+}
+
+// Minutes after midnight, exchange time
+const PREMARKET_OPEN = 4 * 60;
+const REGULAR_OPEN = 9 * 60 + 30;
+const REGULAR_CLOSE = 16 * 60;
+const EARLY_CLOSE = 13 * 60;
+const AFTER_HOURS_CLOSE = 20 * 60;
+const EARLY_AFTER_HOURS_CLOSE = 17 * 60;
+
+const easternFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: MARKET_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit'
+});
+
+interface EasternParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function easternParts(date: Date): EasternParts {
+  const parts: Record<string, number> = {};
+  for (const part of easternFormatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function parseDateKey(dateKey: string): { year: number; month: number; day: number } {
+  const [year, month, day] = dateKey.split('-').map(n => parseInt(n, 10));
+  return { year, month, day };
+}
+
+/** Exchange-time calendar date of an instant, as YYYY-MM-DD */
+export function easternDateKey(date: Date = new Date()): string {
+  const { year, month, day } = easternParts(date);
+  return toDateKey(year, month, day);
+}
+
+/** Exchange-time calendar date as MM/DD/YYYY, the format NASDAQ Trader uses */
+export function formatEasternDate(date: Date = new Date()): string {
+  const { year, month, day } = easternParts(date);
+  return `${pad(month)}/${pad(day)}/${year}`;
+}
+
+/** Minutes since exchange-time midnight */
+export function easternMinutes(date: Date): number {
+  const { hour, minute } = easternParts(date);
+  return hour * 60 + minute;
+}
+
+/**
+ * Converts a wall-clock time on an exchange-time date to an instant, e.g.
+ * ('2025-03-10', 9 * 60 + 30) is 13:30 UTC while ('2025-03-07', 570) is 14:30 UTC.
+ */
+export function easternTimeToDate(dateKey: string, minutes: number, seconds: number = 0): Date {
+  const { year, month, day } = parseDateKey(dateKey);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60, seconds);
+
+  // Offset the wall clock by New York's UTC offset, checked twice to settle across DST changes
+  let instant = wallClockAsUtc;
+  for (let i = 0; i < 2; i++) {
+    const p = easternParts(new Date(instant));
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    instant += wallClockAsUtc - asUtc;
+  }
+  return new Date(instant);
+}
+
+/**
+ * Parses a NASDAQ Trader date and time ("03/10/2025", "09:45:12"), which are
+ * exchange time, to an instant. Returns null for blank or malformed values.
+ */
+export function parseEasternDateTime(date: string, time: string = '00:00:00'): Date | null {
+  const dateKey = nasdaqDateToKey(date);
+  const timeMatch = time.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!dateKey || !timeMatch) return null;
+
+  const [, hour, minute, second] = timeMatch.map(n => parseInt(n || '0', 10));
+  return easternTimeToDate(dateKey, hour * 60 + minute, second);
+}
+
+/** NASDAQ Trader's MM/DD/YYYY date as YYYY-MM-DD, or null when malformed */
+export function nasdaqDateToKey(date: string): string | null {
+  const match = date.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return null;
+  return toDateKey(parseInt(match[3], 10), parseInt(match[1], 10), parseInt(match[2], 10));
+}
+
+/** Day of week (0 = Sunday) of a calendar date, which is time zone independent */
+function weekday(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function nthWeekday(year: number, month: number, dow: number, n: number): string {
+  const firstDow = weekday(year, month, 1);
+  const day = 1 + ((dow - firstDow + 7) % 7) + (n - 1) * 7;
+  return toDateKey(year, month, day);
+}
+
+function lastWeekday(year: number, month: number, dow: number): string {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const lastDow = weekday(year, month, lastDay);
+  return toDateKey(year, month, lastDay - ((lastDow - dow + 7) % 7));
+}
+
+/** Saturday holidays move to Friday and Sunday holidays to Monday */
+function observed(year: number, month: number, day: number): string | null {
+  const dow = weekday(year, month, day);
+  const date = new Date(Date.UTC(year, month - 1, day + (dow === 6 ? -1 : dow === 0 ? 1 : 0)));
+  // NYSE does not close on Friday Dec 31 for a Saturday New Year's Day
+  if (date.getUTCFullYear() !== year) return null;
+  return toDateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+function easterSunday(year: number): { month: number; day: number } {
+  // Anonymous Gregorian algorithm
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { month, day };
+}
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+/** Full-day exchange holidays of a year, keyed by YYYY-MM-DD */
+export function marketHolidays(year: number): Map<string, string> {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays = new Map<string, string>();
+  const add = (date: string | null, name: string) => {
+    if (date) holidays.set(date, name);
+  };
+
+  const easter = easterSunday(year);
+  const goodFriday = new Date(Date.UTC(year, easter.month - 1, easter.day - 2));
+
+  add(observed(year, 1, 1), "New Year's Day");
+  add(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  add(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  add(toDateKey(year, goodFriday.getUTCMonth() + 1, goodFriday.getUTCDate()), 'Good Friday');
+  add(lastWeekday(year, 5, 1), 'Memorial Day');
+  if (year >= 2022) add(observed(year, 6, 19), 'Juneteenth');
+  add(observed(year, 7, 4), 'Independence Day');
+  add(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  add(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+  add(observed(year, 12, 25), 'Christmas Day');
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+function isWeekend(dateKey: string): boolean {
+  const { year, month, day } = parseDateKey(dateKey);
+  const dow = weekday(year, month, day);
+  return dow === 0 || dow === 6;
+}
+
+export function holidayName(dateKey: string): string | null {
+  return marketHolidays(parseDateKey(dateKey).year).get(dateKey) || null;
+}
+
+export function isTradingDay(dateKey: string): boolean {
+  return !isWeekend(dateKey) && !holidayName(dateKey);
+}
+
+/** Trading days that close at 1:00 PM: July 3, the day after Thanksgiving and Christmas Eve */
+export function isEarlyClose(dateKey: string): boolean {
+  if (!isTradingDay(dateKey)) return false;
+
+  const { year, month, day } = parseDateKey(dateKey);
+  if (month === 7 && day === 3) return true;
+  if (month === 12 && day === 24) return true;
+
+  const thanksgiving = parseDateKey(nthWeekday(year, 11, 4, 4));
+  return month === 11 && day === thanksgiving.day + 1;
+}
+
+/** Calendar date `days` after (or before, when negative) a YYYY-MM-DD key */
+export function addDays(dateKey: string, days: number): string {
+  const { year, month, day } = parseDateKey(dateKey);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return toDateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+export function previousTradingDay(dateKey: string): string {
+  let date = addDays(dateKey, -1);
+  while (!isTradingDay(date)) date = addDays(date, -1);
+  return date;
+}
+
+export function nextTradingDay(dateKey: string): string {
+  let date = addDays(dateKey, 1);
+  while (!isTradingDay(date)) date = addDays(date, 1);
+  return date;
+}
+
+/** Session boundaries of a trading day, or null on weekends and holidays */
+export function getTradingDaySessions(dateKey: string): TradingDaySessions | null {
+  if (!isTradingDay(dateKey)) return null;
+
+  const earlyClose = isEarlyClose(dateKey);
+  const close = earlyClose ? EARLY_CLOSE : REGULAR_CLOSE;
+  const afterHoursClose = earlyClose ? EARLY_AFTER_HOURS_CLOSE : AFTER_HOURS_CLOSE;
+
+  return {
+    date: dateKey,
+    earlyClose,
+    premarket: { start: easternTimeToDate(dateKey, PREMARKET_OPEN), end: easternTimeToDate(dateKey, REGULAR_OPEN) },
+    regular: { start: easternTimeToDate(dateKey, REGULAR_OPEN), end: easternTimeToDate(dateKey, close) },
+    afterHours: { start: easternTimeToDate(dateKey, close), end: easternTimeToDate(dateKey, afterHoursClose) }
+  };
+}
+
+function inWindow(date: Date, window: SessionWindow): boolean {
+  return date >= window.start && date < window.end;
+}
+
+/** Which session an instant falls in */
+export function getMarketSession(date: Date = new Date()): MarketSession {
+  const sessions = getTradingDaySessions(easternDateKey(date));
+  if (!sessions) return 'closed';
+  if (inWindow(date, sessions.premarket)) return 'premarket';
+  if (inWindow(date, sessions.regular)) return 'regular';
+  if (inWindow(date, sessions.afterHours)) return 'after_hours';
+  return 'closed';
+}
+
+/**
+ * The trading day an instant belongs to: its own date on trading days,
+ * otherwise the most recent trading day before it.
+ */
+export function tradingDayFor(date: Date = new Date()): string {
+  const dateKey = easternDateKey(date);
+  return isTradingDay(dateKey) ? dateKey : previousTradingDay(dateKey);
+}
+
+export function getMarketStatus(now: Date = new Date()): MarketStatus {
+  const date = easternDateKey(now);
+  return {
+    session: getMarketSession(now),
+    date,
+    isTradingDay: isTradingDay(date),
+    holiday: holidayName(date),
+    earlyClose: isEarlyClose(date),
+    at: now.toISOString()
+  };
+}
@@ -0,0 +1,117 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { normalizeQuoteMediaStock, parseQuoteMediaQuoteList, quoteMediaStockSchema } from './quotemedia-client';
+
+// Recorded datatool responses, trimmed to a few rows
+const fixture = (name: string) => JSON.parse(readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8'));
+
+describe('parseQuoteMediaQuoteList', () => {
+  it('unwraps a getMarketStats list and drops the row that fails the schema', () => {
+    const list = parseQuoteMediaQuoteList(fixture('quotemedia-market-stats.json'), 'getMarketStats');
+
+    expect(list.quotes.map(stock => stock.key?.symbol)).toEqual(['NVDA', 'XTIA']);
+    expect(list.copyright).toBe('Copyright (c) 2025 QuoteMedia, Inc.');
+    expect(list.symbolCount).toBe(3);
+  });
+
+  it('reads the older top-level quotedata form of getQuotes', () => {
+    const list = parseQuoteMediaQuoteList(fixture('quotemedia-quotedata.json'), 'getQuotes');
+
+    expect(list.quotes).toHaveLength(1);
+    expect(list.copyright).toBeNull();
+    expect(list.symbolCount).toBe(1);
+  });
+
+  it('throws when the payload is not a quote list', () => {
+    expect(() => parseQuoteMediaQuoteList(fixture('quotemedia-not-a-list.json'), 'getMarketStats'))
+      .toThrow('getMarketStats response is not a quote list');
+    expect(() => parseQuoteMediaQuoteList('<html>Forbidden</html>')).toThrow('QuoteMedia response is not a quote list');
+    expect(() => parseQuoteMediaQuoteList({ results: null })).toThrow('not a quote list');
+  });
+});
+
+describe('quoteMediaStockSchema', () => {
+  it('rejects non-numeric prices and nested objects where numbers belong', () => {
+    const [, , broken] = fixture('quotemedia-market-stats.json').results.quote;
+
+    expect(quoteMediaStockSchema(broken)).toBe(false);
+    expect(quoteMediaStockSchema({ ...broken, pricedata: { last: 'n/a' } })).toBe(false);
+    expect(quoteMediaStockSchema({ ...broken, pricedata: { last: '1.5' } })).toBe(true);
+  });
+});
+
+describe('normalizeQuoteMediaStock', () => {
+  const now = new Date('2025-03-14T20:00:00Z');
+
+  it('flattens a nested row, reading numeric strings as numbers', () => {
+    const [nvda] = parseQuoteMediaQuoteList(fixture('quotemedia-market-stats.json')).quotes;
+
+    expect(normalizeQuoteMediaStock(nvda, now)).toEqual({
+      symbol: 'NVDA',
+      price: 121.67,
+      change: -3.41,
+      changePercent: -2.7262,
+      tick: -1,
+      open: 124.1,
+      high: 124.5,
+      low: 120.8,
+      previousClose: 125.08,
+      bid: 121.66,
+      ask: 121.68,
+      bidSize: 3,
+      askSize: 5,
+      rawBidSize: 300,
+      rawAskSize: 500,
+      tradevolume: 100,
+      sharevolume: 245617330,
+      volume: 245617330,
+      vwap: 122.3104,
+      vwapvolume: 245617330,
+      marketCap: 2969000000000,
+      eps: 2.94,
+      peRatio: 41.38,
+      pbRatio: null,
+      week52High: 153.13,
+      week52Low: 75.61,
+      exchange: 'NSD',
+      exchangeLongName: 'Nasdaq Global Select',
+      companyName: 'NVIDIA Corporation',
+      shortName: 'NVIDIA Corp',
+      datatype: 'equity',
+      symbolString: 'NVDA',
+      lastTradeTime: '2025-03-14T15:59:59-04:00',
+      entitlement: 'RT'
+    });
+  });
+
+  it('fills the columns a sparse row leaves out', () => {
+    const [, xtia] = parseQuoteMediaQuoteList(fixture('quotemedia-market-stats.json')).quotes;
+
+    expect(normalizeQuoteMediaStock(xtia, now)).toMatchObject({
+      symbol: 'XTIA',
+      price: 0.4123,
+      changePercent: -31.2833,
+      volume: 98123456,
+      open: 0,
+      eps: null,
+      companyName: 'XTI Aerospace',
+      shortName: 'XTI Aerospace',
+      symbolString: 'XTIA',
+      lastTradeTime: now.toISOString(),
+      entitlement: 'RT'
+    });
+  });
+
+  it('reads identity from the flat quotedata form', () => {
+    const [aapl] = parseQuoteMediaQuoteList(fixture('quotemedia-quotedata.json')).quotes;
+
+    expect(normalizeQuoteMediaStock(aapl, now)).toMatchObject({
+      symbol: 'AAPL',
+      companyName: 'Apple Inc.',
+      exchange: 'NSD',
+      price: 213.49,
+      previousClose: 209.68
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import { isString, nullable, optional, shape, type Guard } from '@/lib/schema';
+import { parseGatewayRequest, quoteMediaUrl, type QuoteMediaGatewayEndpoint, type QuoteMediaGatewayRequest } from '@/lib/quotemedia-gateway';
+import { quoteMediaSession, type QuoteMediaSession } from '@/lib/quotemedia-session';
+
+/** QuoteMedia sends most numbers as JSON numbers, some as numeric strings, null when it has none */
+export type QuoteMediaNumber = number | string | null;
+
+export interface QuoteMediaKey {
+  symbol?: string | null;
+  exchange?: string | null;
+  exLgName?: string | null;
+  exShName?: string | null;
+  timezone?: string | null;
+}
+
+export interface QuoteMediaEquityInfo {
+  longname?: string | null;
+  shortname?: string | null;
+}
+
+export interface QuoteMediaPriceData {
+  last?: QuoteMediaNumber;
+  change?: QuoteMediaNumber;
+  changepercent?: QuoteMediaNumber;
+  tick?: QuoteMediaNumber;
+  open?: QuoteMediaNumber;
+  high?: QuoteMediaNumber;
+  low?: QuoteMediaNumber;
+  prevclose?: QuoteMediaNumber;
+  bid?: QuoteMediaNumber;
+  ask?: QuoteMediaNumber;
+  bidsize?: QuoteMediaNumber;
+  asksize?: QuoteMediaNumber;
+  rawbidsize?: QuoteMediaNumber;
+  rawasksize?: QuoteMediaNumber;
+  tradevolume?: QuoteMediaNumber;
+  sharevolume?: QuoteMediaNumber;
+  vwap?: QuoteMediaNumber;
+  vwapvolume?: QuoteMediaNumber;
+  lasttradedatetime?: string | null;
+}
+
+export interface QuoteMediaDatedValue {
+  content?: QuoteMediaNumber;
+  date?: string | null;
+}
+
+export interface QuoteMediaFundamental {
+  marketcap?: QuoteMediaNumber;
+  eps?: QuoteMediaNumber;
+  peratio?: QuoteMediaNumber;
+  pbratio?: QuoteMediaNumber;
+  sharesoutstanding?: QuoteMediaNumber;
+  week52high?: QuoteMediaDatedValue;
+  week52low?: QuoteMediaDatedValue;
+}
+
+/**
+ * One row of a datatool quote list. getMarketStats and newer getQuotes
+ * responses nest identity under `key` and `equityinfo`; the older
+ * `quotedata` form of getQuotes has the same fields flat on the row.
+ */
+export interface QuoteMediaStock {
+  key?: QuoteMediaKey;
+  equityinfo?: QuoteMediaEquityInfo;
+  pricedata?: QuoteMediaPriceData;
+  fundamental?: QuoteMediaFundamental;
+  symbolstring?: string | null;
+  datatype?: string | null;
+  entitlement?: string | null;
+  delaymin?: QuoteMediaNumber;
+  symbol?: string | null;
+  longname?: string | null;
+  shortname?: string | null;
+  exchange?: string | null;
+  exLgName?: string | null;
+}
+
+export interface QuoteMediaQuoteList {
+  quotes: QuoteMediaStock[];
+  copyright: string | null;
+  symbolCount: number;
+}
+
+/** A QuoteMedia row flattened into the shape our market movers views use */
+export interface Quote {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  tick: number;
+  open: number;
+  high: number;
+  low: number;
+  previousClose: number;
+  bid: number;
+  ask: number;
+  bidSize: number;
+  askSize: number;
+  rawBidSize: number;
+  rawAskSize: number;
+  tradevolume: number;
+  sharevolume: number;
+  volume: number;
+  vwap: number;
+  vwapvolume: number;
+  marketCap: number;
+  eps: number | null;
+  peRatio: number | null;
+  pbRatio: number | null;
+  week52High: number;
+  week52Low: number;
+  exchange: string;
+  exchangeLongName: string;
+  companyName: string;
+  shortName: string;
+  datatype: string;
+  symbolString: string;
+  lastTradeTime: string;
+  entitlement: string;
+}
+
+const isQuoteMediaNumber: Guard<QuoteMediaNumber> = (value): value is QuoteMediaNumber =>
+  value === null ||
+  (typeof value === 'number' && isFinite(value)) ||
+  (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value)));
+
+const num = optional(isQuoteMediaNumber);
+const text = optional(nullable(isString));
+
+const datedValueSchema = optional(shape<QuoteMediaDatedValue>({ content: num, date: text }));
+
+export const quoteMediaStockSchema = shape<QuoteMediaStock>({
+  key: optional(shape<QuoteMediaKey>({ symbol: text, exchange: text, exLgName: text, exShName: text, timezone: text })),
+  equityinfo: optional(shape<QuoteMediaEquityInfo>({ longname: text, shortname: text })),
+  pricedata: optional(shape<QuoteMediaPriceData>({
+    last: num,
+    change: num,
+    changepercent: num,
+    tick: num,
+    open: num,
+    high: num,
+    low: num,
+    prevclose: num,
+    bid: num,
+    ask: num,
+    bidsize: num,
+    asksize: num,
+    rawbidsize: num,
+    rawasksize: num,
+    tradevolume: num,
+    sharevolume: num,
+    vwap: num,
+    vwapvolume: num,
+    lasttradedatetime: text
+  })),
+  fundamental: optional(shape<QuoteMediaFundamental>({
+    marketcap: num,
+    eps: num,
+    peratio: num,
+    pbratio: num,
+    sharesoutstanding: num,
+    week52high: datedValueSchema,
+    week52low: datedValueSchema
+  })),
+  symbolstring: text,
+  datatype: text,
+  entitlement: text,
+  delaymin: num,
+  symbol: text,
+  longname: text,
+  shortname: text,
+  exchange: text,
+  exLgName: text
+});
+
+interface QuoteListEnvelope {
+  quote?: unknown[];
+  stock?: unknown[];
+  quotedata?: unknown[];
+  copyright?: string | null;
+  symbolcount?: QuoteMediaNumber;
+}
+
+const isArray: Guard<unknown[]> = (value): value is unknown[] => Array.isArray(value);
+const rows = optional(isArray);
+
+const quoteListEnvelopeSchema = shape<QuoteListEnvelope>({
+  quote: rows,
+  stock: rows,
+  quotedata: rows,
+  copyright: text,
+  symbolcount: num
+});
+
+const toNumber = (value: QuoteMediaNumber | undefined): number | null => {
+  if (value === undefined || value === null) return null;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : null;
+};
+
+const toInt = (value: QuoteMediaNumber | undefined): number => Math.trunc(toNumber(value) ?? 0);
+
+/**
+ * The rows of a getMarketStats, getMarketMovers or getQuotes response.
+ * Throws when the payload isn't a quote list at all; rows that don't match
+ * the schema are dropped with a warning rather than failing the lot.
+ */
+export function parseQuoteMediaQuoteList(data: unknown, endpoint: string = 'QuoteMedia'): QuoteMediaQuoteList {
+  const record = data && typeof data === 'object' ? data as Record<string, unknown> : null;
+  // Lists come wrapped in `results`, the older getQuotes form has them at the top level
+  const envelope = record && record.results !== undefined ? record.results : record;
+  if (!quoteListEnvelopeSchema(envelope)) {
+    throw new Error(`${endpoint} response is not a quote list`);
+  }
+
+  const candidates = envelope.quote || envelope.stock || envelope.quotedata || [];
+  const quotes = candidates.filter(quoteMediaStockSchema);
+  if (quotes.length < candidates.length) {
+    console.warn(`⚠️ Dropped ${candidates.length - quotes.length} malformed ${endpoint} rows`);
+  }
+
+  return {
+    quotes,
+    copyright: envelope.copyright ?? null,
+    symbolCount: toNumber(envelope.symbolcount) ?? quotes.length
+  };
+}
+
+export function normalizeQuoteMediaStock(stock: QuoteMediaStock, now: Date = new Date()): Quote {
+  const price = stock.pricedata || {};
+  const fundamental = stock.fundamental || {};
+  const symbol = stock.key?.symbol || stock.symbol || stock.symbolstring || 'N/A';
+  const longName = stock.equityinfo?.longname || stock.longname;
+  const shortName = stock.equityinfo?.shortname || stock.shortname;
+
+  return {
+    symbol,
+    price: toNumber(price.last) ?? 0,
+    change: toNumber(price.change) ?? 0,
+    changePercent: toNumber(price.changepercent) ?? 0,
+    tick: toInt(price.tick),
+    open: toNumber(price.open) ?? 0,
+    high: toNumber(price.high) ?? 0,
+    low: toNumber(price.low) ?? 0,
+    previousClose: toNumber(price.prevclose) ?? 0,
+    bid: toNumber(price.bid) ?? 0,
+    ask: toNumber(price.ask) ?? 0,
+    bidSize: toInt(price.bidsize),
+    askSize: toInt(price.asksize),
+    rawBidSize: toInt(price.rawbidsize),
+    rawAskSize: toInt(price.rawasksize),
+    tradevolume: toInt(price.tradevolume),
+    sharevolume: toInt(price.sharevolume),
+    volume: toInt(price.sharevolume),
+    vwap: toNumber(price.vwap) ?? 0,
+    vwapvolume: toInt(price.vwapvolume),
+    marketCap: toNumber(fundamental.marketcap) ?? 0,
+    eps: toNumber(fundamental.eps),
+    peRatio: toNumber(fundamental.peratio),
+    pbRatio: toNumber(fundamental.pbratio),
+    week52High: toNumber(fundamental.week52high?.content) ?? 0,
+    week52Low: toNumber(fundamental.week52low?.content) ?? 0,
+    exchange: stock.key?.exchange || stock.exchange || 'US',
+    exchangeLongName: stock.key?.exLgName || stock.exLgName || 'US Exchange',
+    companyName: longName || shortName || 'N/A',
+    shortName: shortName || longName || 'N/A',
+    datatype: stock.datatype || 'equity',
+    symbolString: stock.symbolstring || symbol,
+    lastTradeTime: price.lasttradedatetime || now.toISOString(),
+    entitlement: stock.entitlement || 'RT'
+  };
+}
+
+export type QuoteMediaMarketSession = 'PRE' | 'NORMAL' | 'POST';
+
+export interface MarketStatsParams {
+  /** Statistic code, e.g. pl (percent losers), pg, va, dv */
+  stat: string;
+  marketSession?: QuoteMediaMarketSession;
+  statExchange?: string;
+  statCountry?: string;
+  statTop?: number;
+  qmodTool?: string;
+  pathName?: string;
+}
+
+export interface QuoteMediaClientOptions {
+  session?: QuoteMediaSession;
+  fetch?: typeof fetch;
+}
+
+// Mirrors what the QuoteMedia web tools send; the datatool endpoints check Origin
+const DATATOOL_HEADERS: Record<string, string> = {
+  'Accept': '*/*',
+  'Accept-Language': 'en',
+  'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
+  'Origin': 'https://qrm.quotemedia.com',
+  'Referer': 'https://qrm.quotemedia.com/',
+  'Sec-Fetch-Dest': 'empty',
+  'Sec-Fetch-Mode': 'cors',
+  'Sec-Fetch-Site': 'same-site'
+};
+
+function marketStatsQuery(params: MarketStatsParams): URLSearchParams {
+  const marketSession = params.marketSession || 'NORMAL';
+  const query = new URLSearchParams({ marketSession, stat: params.stat, timezone: 'true' });
+  if (marketSession === 'PRE') query.set('premarket', 'true');
+  if (params.statExchange) query.set('statExchange', params.statExchange);
+  if (params.statCountry) query.set('statCountry', params.statCountry);
+  if (params.statTop) query.set('statTop', String(params.statTop));
+  if (params.qmodTool) query.set('qmodTool', params.qmodTool);
+  if (params.pathName) query.set('pathName', params.pathName);
+  return query;
+}
+
+/**
+ * Typed access to the QuoteMedia datatool endpoints, signed with the shared
+ * session. Parameters go through the same allowlist as the browser gateway,
+ * and payloads are checked against the schemas above before they are used.
+ */
+export class QuoteMediaClient {
+  private session: QuoteMediaSession;
+  private fetchFn: typeof fetch;
+
+  constructor(options: QuoteMediaClientOptions = {}) {
+    this.session = options.session || quoteMediaSession;
+    this.fetchFn = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  getMarketStats(params: MarketStatsParams): Promise<QuoteMediaQuoteList> {
+    return this.quoteList('getMarketStats', marketStatsQuery(params));
+  }
+
+  getMarketMovers(params: MarketStatsParams): Promise<QuoteMediaQuoteList> {
+    return this.quoteList('getMarketMovers', marketStatsQuery(params));
+  }
+
+  getQuotes(symbols: string[]): Promise<QuoteMediaQuoteList> {
+    return this.quoteList('getQuotes', new URLSearchParams({ symbols: symbols.join(',') }));
+  }
+
+  /** Signs and sends an allowlisted call, returning the parsed JSON unchecked */
+  async raw(request: QuoteMediaGatewayRequest): Promise<unknown> {
+    const response = await this.session.withDataToolToken(async token =>
+      this.fetchFn(quoteMediaUrl(request, this.session.webmasterId, await this.session.getSid()), {
+        headers: { ...DATATOOL_HEADERS, 'datatool-token': token }
+      })
+    );
+    if (!response.ok) {
+      throw new Error(`QuoteMedia ${request.endpoint} answered ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.text();
+    try {
+      return JSON.parse(body);
+    } catch {
+      throw new Error(`QuoteMedia ${request.endpoint} did not return JSON`);
+    }
+  }
+
+  private async quoteList(endpoint: QuoteMediaGatewayEndpoint, params: URLSearchParams): Promise<QuoteMediaQuoteList> {
+    const parsed = parseGatewayRequest(endpoint, params);
+    if ('error' in parsed) {
+      throw new Error(parsed.error);
+    }
+    return parseQuoteMediaQuoteList(await this.raw(parsed.request), endpoint);
+  }
+}
+
+export const quoteMediaClient = new QuoteMediaClient();
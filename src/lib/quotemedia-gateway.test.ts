@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { gatewayClientKey } from './quotemedia-gateway';
+
+describe('gatewayClientKey', () => {
+  const headers = new Headers({
+    'x-forwarded-for': '6.6.6.6, 203.0.113.7',
+    'x-real-ip': '203.0.113.7',
+    'x-vercel-forwarded-for': '198.51.100.4'
+  });
+
+  it('ignores forwarding headers unless one is trusted', () => {
+    expect(gatewayClientKey(headers, null)).toBe('shared');
+  });
+
+  it.each([
+    ['x-real-ip', 'ip:203.0.113.7'],
+    ['x-vercel-forwarded-for', 'ip:198.51.100.4'],
+    // The left end is whatever the client claimed
+    ['x-forwarded-for', 'ip:203.0.113.7']
+  ])('reads the caller from %s', (header, key) => {
+    expect(gatewayClientKey(headers, header)).toBe(key);
+  });
+
+  it('shares one key when the trusted header is missing', () => {
+    expect(gatewayClientKey(new Headers(), 'x-real-ip')).toBe('shared');
+  });
+});
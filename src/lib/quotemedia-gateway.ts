@@ -0,0 +1,170 @@
+/**
+ * What the browser may ask QuoteMedia for through /api/quotemedia/data. The
+ * server adds the webmaster id, session id and datatool token itself, so
+ * they are never accepted from, or handed to, the client.
+ */
+
+const QUOTEMEDIA_ORIGIN = 'https://app.quotemedia.com';
+
+const SYMBOLS = /^[A-Za-z0-9.:^\-]{1,20}(,[A-Za-z0-9.:^\-]{1,20}){0,49}$/;
+const BOOLEAN = /^(true|false)$/;
+
+const MARKET_STATS_PARAMS: Record<string, RegExp> = {
+  marketSession: /^(PRE|NORMAL|POST)$/,
+  premarket: BOOLEAN,
+  stat: /^[a-z]{1,4}$/,
+  statExchange: /^[A-Z]{2,6}$/,
+  statCountry: /^[A-Z]{2}$/,
+  statTop: /^([1-9]\d?|[1-4]\d\d|500)$/,
+  timezone: BOOLEAN,
+  pathName: /^\/[\w\/-]{0,64}$/,
+  qmodTool: /^\w{1,32}$/
+};
+
+export const QUOTEMEDIA_GATEWAY_ENDPOINTS = {
+  getMarketStats: {
+    path: '/datatool/getMarketStats.json',
+    params: MARKET_STATS_PARAMS,
+    required: []
+  },
+  getQuotes: {
+    path: '/datatool/getQuotes.json',
+    params: { symbols: SYMBOLS, timezone: BOOLEAN },
+    required: ['symbols']
+  },
+  getMarketMovers: {
+    path: '/datatool/getMarketMovers.json',
+    params: MARKET_STATS_PARAMS,
+    required: []
+  }
+} satisfies Record<string, { path: string; params: Record<string, RegExp>; required: string[] }>;
+
+export type QuoteMediaGatewayEndpoint = keyof typeof QUOTEMEDIA_GATEWAY_ENDPOINTS;
+
+// Filled in by the server; a client sending them is either confused or probing
+const SERVER_PARAMS = ['webmasterId', 'sid', 'datatool-token', 'token'];
+
+export interface QuoteMediaGatewayRequest {
+  endpoint: QuoteMediaGatewayEndpoint;
+  params: URLSearchParams;
+}
+
+function isGatewayEndpoint(name: string): name is QuoteMediaGatewayEndpoint {
+  return Object.prototype.hasOwnProperty.call(QUOTEMEDIA_GATEWAY_ENDPOINTS, name);
+}
+
+/** Checks an incoming gateway call against the allowlist */
+export function parseGatewayRequest(
+  endpoint: string,
+  params: URLSearchParams
+): { request: QuoteMediaGatewayRequest } | { error: string } {
+  if (!isGatewayEndpoint(endpoint)) {
+    return { error: `Unknown endpoint ${endpoint}; expected one of ${Object.keys(QUOTEMEDIA_GATEWAY_ENDPOINTS).join(', ')}` };
+  }
+
+  const { params: allowed, required } = QUOTEMEDIA_GATEWAY_ENDPOINTS[endpoint];
+  const accepted = new URLSearchParams();
+  const rejected: string[] = [];
+
+  for (const [name, value] of params) {
+    if (SERVER_PARAMS.includes(name)) {
+      rejected.push(`${name} is supplied by the server`);
+    } else if (!Object.prototype.hasOwnProperty.call(allowed, name)) {
+      rejected.push(`${name} is not allowed`);
+    } else if (accepted.has(name)) {
+      rejected.push(`${name} is given more than once`);
+    } else if (!(allowed as Record<string, RegExp>)[name].test(value)) {
+      rejected.push(`${name} has an invalid value`);
+    } else {
+      accepted.set(name, value);
+    }
+  }
+
+  const missing = (required as string[]).filter(name => !accepted.has(name));
+  if (missing.length > 0) {
+    rejected.push(`${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} required`);
+  }
+  if (rejected.length > 0) {
+    return { error: `Invalid ${endpoint} request: ${rejected.join('; ')}` };
+  }
+
+  return { request: { endpoint, params: accepted } };
+}
+
+/** The upstream URL of an accepted request, credentials included */
+export function quoteMediaUrl(request: QuoteMediaGatewayRequest, webmasterId: string, sid: string): string {
+  const params = new URLSearchParams(request.params);
+  params.set('webmasterId', webmasterId);
+  params.set('sid', sid);
+  return `${QUOTEMEDIA_ORIGIN}${QUOTEMEDIA_GATEWAY_ENDPOINTS[request.endpoint].path}?${params}`;
+}
+
+/**
+ * Rewrites a direct QuoteMedia datatool URL, like the ones the PowerStream
+ * analysis turns up, into the matching gateway path. Credentials in the URL
+ * are dropped; null when the endpoint isn't on the allowlist.
+ */
+export function toGatewayPath(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const endpoint = (Object.keys(QUOTEMEDIA_GATEWAY_ENDPOINTS) as QuoteMediaGatewayEndpoint[])
+    .find(name => QUOTEMEDIA_GATEWAY_ENDPOINTS[name].path === parsed.pathname);
+  if (!endpoint || parsed.origin !== QUOTEMEDIA_ORIGIN) return null;
+
+  SERVER_PARAMS.forEach(name => parsed.searchParams.delete(name));
+  const query = parsed.searchParams.toString();
+  return `/api/quotemedia/data/${endpoint}${query ? `?${query}` : ''}`;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Until the oldest counted request leaves the window, 0 when allowed */
+  retryAfterMs: number;
+}
+
+export type ClientRateLimiter = (clientKey: string, now?: number) => RateLimitResult;
+
+/** Allows each client `limit` requests in any sliding window of `windowMs` */
+export function createClientRateLimiter(limit: number, windowMs: number): ClientRateLimiter {
+  const requests = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  return (clientKey, now = Date.now()) => {
+    // Forget clients that went quiet, so the map doesn't grow forever
+    if (now - lastSweep > windowMs) {
+      lastSweep = now;
+      requests.forEach((times, key) => {
+        if (times[times.length - 1] <= now - windowMs) requests.delete(key);
+      });
+    }
+
+    const times = (requests.get(clientKey) || []).filter(time => time > now - windowMs);
+    if (times.length >= limit) {
+      requests.set(clientKey, times);
+      return { allowed: false, remaining: 0, retryAfterMs: times[0] + windowMs - now };
+    }
+
+    times.push(now);
+    requests.set(clientKey, times);
+    return { allowed: true, remaining: limit - times.length, retryAfterMs: 0 };
+  };
+}
+
+/**
+ * Rate limit key for a gateway caller: the IP in `clientIpHeader`, which
+ * only the proxy in front of the app may set. A list such as
+ * x-forwarded-for is read from the right, where that proxy appends the
+ * address it saw. Without a trusted header, or when it is missing, callers
+ * share one key.
+ */
+export function gatewayClientKey(headers: Headers, clientIpHeader: string | null): string {
+  const value = clientIpHeader ? headers.get(clientIpHeader) : null;
+  const ip = value?.split(',').map(part => part.trim()).filter(Boolean).pop();
+  return ip ? `ip:${ip}` : 'shared';
+}
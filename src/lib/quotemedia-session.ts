@@ -0,0 +1,291 @@
+import { getConfig } from '@/lib/config';
+
+const AUTH_URL = 'https://app.quotemedia.com/auth/p/authenticate/v0/';
+const DATATOOL_TOKEN_URL = 'https://app.quotemedia.com/auth/g/authenticate/dataTool/v0';
+
+// DISCOVERY: Static hash from Python implementation that works across all sessions
+const STATIC_TOKEN_HASH = "32767a4633142b08e3315819e5eeef1af1be83bd7817e59926d246d7ba416430";
+
+const SID_TTL_MS = 60 * 60 * 1000;
+const TOKEN_TTL_MS = 30 * 60 * 1000;
+
+// Share of a credential's lifetime after which it is renewed in the background
+const REFRESH_AT = 0.8;
+
+// A session younger than this that gets rejected was not stale, the account
+// most likely lacks access to the endpoint, so logging in again won't help
+const MIN_REAUTH_INTERVAL_MS = 30 * 1000;
+
+export interface QuoteMediaCredentials {
+  webmasterId: string;
+  username: string;
+  password: string;
+}
+
+export interface QuoteMediaSessionOptions {
+  credentials?: () => QuoteMediaCredentials;
+  fetch?: typeof fetch;
+  sidTtlMs?: number;
+  tokenTtlMs?: number;
+}
+
+/**
+ * unauthenticated - nothing has logged in yet
+ * healthy         - the last login succeeded
+ * degraded        - the last refresh failed but a cached credential is still valid
+ * failing         - the last login failed and nothing valid is cached
+ */
+export type QuoteMediaSessionStatus = 'unauthenticated' | 'healthy' | 'degraded' | 'failing';
+
+export interface QuoteMediaSessionHealth {
+  status: QuoteMediaSessionStatus;
+  webmasterId: string;
+  /** ISO timestamps, null when nothing is cached */
+  sidExpiresAt: string | null;
+  dataToolTokenExpiresAt: string | null;
+  logins: number;
+  tokenRefreshes: number;
+  /** Calls retried after QuoteMedia answered 401 or 403 */
+  reauthentications: number;
+  consecutiveFailures: number;
+  lastSuccessAt: string | null;
+  lastError: { message: string; at: string } | null;
+}
+
+interface CachedCredential {
+  value: string;
+  issuedAt: number;
+  refreshAt: number;
+  expiresAt: number;
+}
+
+const isAuthFailure = (status: number) => status === 401 || status === 403;
+
+const isoOrNull = (time: number | undefined) => (time ? new Date(time).toISOString() : null);
+
+/**
+ * Owns the QuoteMedia session id and the datatool token derived from it.
+ * Credentials are renewed in the background before they expire, concurrent
+ * callers share one login, and calls that come back 401/403 are retried once
+ * with fresh credentials. There is one session per server.
+ */
+export class QuoteMediaSession {
+  private sid: CachedCredential | null = null;
+  private token: CachedCredential | null = null;
+  private sidLogin: Promise<string> | null = null;
+  private tokenLogin: Promise<string> | null = null;
+
+  private logins = 0;
+  private tokenRefreshes = 0;
+  private reauthentications = 0;
+  private consecutiveFailures = 0;
+  private lastSuccessAt: number | null = null;
+  private lastError: { message: string; at: number } | null = null;
+
+  private credentials: () => QuoteMediaCredentials;
+  private fetchFn: typeof fetch;
+  private sidTtlMs: number;
+  private tokenTtlMs: number;
+
+  constructor(options: QuoteMediaSessionOptions = {}) {
+    this.credentials = options.credentials || (() => getConfig().quoteMedia);
+    this.fetchFn = options.fetch || ((input, init) => fetch(input, init));
+    this.sidTtlMs = options.sidTtlMs ?? SID_TTL_MS;
+    this.tokenTtlMs = options.tokenTtlMs ?? TOKEN_TTL_MS;
+  }
+
+  get webmasterId(): string {
+    return this.credentials().webmasterId;
+  }
+
+  getSid(): Promise<string> {
+    return this.current(this.sid, () => this.refreshSid());
+  }
+
+  getDataToolToken(): Promise<string> {
+    return this.current(this.token, () => this.refreshToken());
+  }
+
+  /** Drops both credentials; the token is only good as long as its session */
+  invalidate(): void {
+    this.sid = null;
+    this.token = null;
+    console.log('🗑️ Cleared cached QuoteMedia session');
+  }
+
+  /** Runs a call that authenticates with `sid=`, logging in again once if it is rejected */
+  withSid(call: (sid: string) => Promise<Response>): Promise<Response> {
+    return this.withRetry(() => this.getSid(), call);
+  }
+
+  /** Runs a call that authenticates with the `datatool-token` header, re-authenticating once if it is rejected */
+  withDataToolToken(call: (token: string) => Promise<Response>): Promise<Response> {
+    return this.withRetry(() => this.getDataToolToken(), call);
+  }
+
+  health(now: number = Date.now()): QuoteMediaSessionHealth {
+    const valid = (credential: CachedCredential | null) => (credential && now < credential.expiresAt ? credential : null);
+    const sid = valid(this.sid);
+    const token = valid(this.token);
+
+    let status: QuoteMediaSessionStatus = 'healthy';
+    if (this.consecutiveFailures > 0) {
+      status = sid ? 'degraded' : 'failing';
+    } else if (!this.lastSuccessAt) {
+      status = 'unauthenticated';
+    }
+
+    return {
+      status,
+      webmasterId: this.webmasterId,
+      sidExpiresAt: isoOrNull(sid?.expiresAt),
+      dataToolTokenExpiresAt: isoOrNull(token?.expiresAt),
+      logins: this.logins,
+      tokenRefreshes: this.tokenRefreshes,
+      reauthentications: this.reauthentications,
+      consecutiveFailures: this.consecutiveFailures,
+      lastSuccessAt: isoOrNull(this.lastSuccessAt ?? undefined),
+      lastError: this.lastError && { message: this.lastError.message, at: new Date(this.lastError.at).toISOString() }
+    };
+  }
+
+  private async withRetry(get: () => Promise<string>, call: (credential: string) => Promise<Response>): Promise<Response> {
+    const response = await call(await get());
+    if (!isAuthFailure(response.status)) return response;
+    if (this.sid && Date.now() - this.sid.issuedAt < MIN_REAUTH_INTERVAL_MS) return response;
+
+    console.log(`🔒 QuoteMedia answered ${response.status}, re-authenticating and retrying once`);
+    this.reauthentications++;
+    this.invalidate();
+    return call(await get());
+  }
+
+  /** A cached credential, renewed in the background once it is due and awaited once it has expired */
+  private current(cached: CachedCredential | null, refresh: () => Promise<string>): Promise<string> {
+    const now = Date.now();
+    if (!cached || now >= cached.expiresAt) return refresh();
+
+    if (now >= cached.refreshAt) {
+      refresh().catch(error => console.warn('⚠️ Background QuoteMedia refresh failed:', error.message));
+    }
+    return Promise.resolve(cached.value);
+  }
+
+  private refreshSid(): Promise<string> {
+    if (!this.sidLogin) {
+      this.sidLogin = this.track(this.login()).finally(() => {
+        this.sidLogin = null;
+      });
+    }
+    return this.sidLogin;
+  }
+
+  private refreshToken(): Promise<string> {
+    if (!this.tokenLogin) {
+      this.tokenLogin = this.getSid().then(sid => this.track(this.generateToken(sid))).finally(() => {
+        this.tokenLogin = null;
+      });
+    }
+    return this.tokenLogin;
+  }
+
+  private async track(login: Promise<string>): Promise<string> {
+    try {
+      const value = await login;
+      this.consecutiveFailures = 0;
+      this.lastSuccessAt = Date.now();
+      return value;
+    } catch (error) {
+      this.consecutiveFailures++;
+      this.lastError = { message: error instanceof Error ? error.message : String(error), at: Date.now() };
+      console.error('❌ QuoteMedia authentication failed:', error);
+      throw error;
+    }
+  }
+
+  private expiring(value: string, ttlMs: number): CachedCredential {
+    const now = Date.now();
+    return { value, issuedAt: now, refreshAt: now + ttlMs * REFRESH_AT, expiresAt: now + ttlMs };
+  }
+
+  private async login(): Promise<string> {
+    const { webmasterId, username, password } = this.credentials();
+    if (!username || !password) {
+      throw new Error('QuoteMedia credentials not found. Set QUOTEMEDIA_USERNAME and QUOTEMEDIA_PASSWORD.');
+    }
+
+    console.log('🔐 Authenticating with QuoteMedia...');
+    this.logins++;
+
+    const response = await this.fetchFn(AUTH_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36'
+      },
+      body: JSON.stringify({ wmId: parseInt(webmasterId, 10), username, password })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Authentication failed: ${response.status} ${response.statusText}`);
+    }
+
+    // QuoteMedia returns the session id in the 'sid' field
+    const data = await response.json();
+    if (!data?.sid) {
+      throw new Error('No session ID found in authentication response');
+    }
+
+    this.sid = this.expiring(data.sid, this.sidTtlMs);
+    // A token from the previous session would not outlive it
+    this.token = null;
+    console.log('✅ QuoteMedia authentication successful, SID cached');
+    return data.sid;
+  }
+
+  /** Datatool token from the static hash authentication method, based on the Python implementation */
+  private async generateToken(sid: string): Promise<string> {
+    const { webmasterId } = this.credentials();
+
+    console.log('🔑 Generating fresh Datatool-Token...');
+    this.tokenRefreshes++;
+
+    const response = await this.fetchFn(`${DATATOOL_TOKEN_URL}/${webmasterId}/${STATIC_TOKEN_HASH}`, {
+      method: 'POST',
+      headers: {
+        'datatool-token': 'null',
+        'origin': 'https://qrm.quotemedia.com',
+        'referer': 'https://qrm.quotemedia.com/',
+        'user-agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36',
+        'accept': '*/*',
+        'content-type': 'application/json'
+      },
+      body: JSON.stringify({ sid })
+    });
+
+    // The session behind the token was rejected, log in again next time
+    if (isAuthFailure(response.status)) {
+      this.sid = null;
+    }
+    if (!response.ok) {
+      throw new Error(`Token generation failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (!data?.token) {
+      throw new Error('No token found in response');
+    }
+
+    this.token = this.expiring(data.token, this.tokenTtlMs);
+    console.log('✅ Fresh Datatool-Token generated and cached');
+    return data.token;
+  }
+}
+
+export const quoteMediaSession = new QuoteMediaSession();
+
+/** Strips the session id from an upstream URL before it is logged or sent to the browser */
+export function withoutSid(url: string): string {
+  return url.replace(/&sid=[^&]*/, '');
+}
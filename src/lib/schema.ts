@@ -0,0 +1,38 @@
+/**
+ * Minimal runtime type guards used to validate data coming back from
+ * scrapers and third-party APIs before it reaches our response payloads.
+ */
+
+export type Guard<T> = (value: unknown) => value is T;
+
+export const isString: Guard<string> = (value): value is string => typeof value === 'string';
+
+export const isNumber: Guard<number> = (value): value is number =>
+  typeof value === 'number' && !isNaN(value);
+
+export const isBoolean: Guard<boolean> = (value): value is boolean => typeof value === 'boolean';
+
+export function nullable<T>(guard: Guard<T>): Guard<T | null> {
+  return (value): value is T | null => value === null || guard(value);
+}
+
+/** For fields a payload may leave out */
+export function optional<T>(guard: Guard<T>): Guard<T | undefined> {
+  return (value): value is T | undefined => value === undefined || guard(value);
+}
+
+export function arrayOf<T>(guard: Guard<T>): Guard<T[]> {
+  return (value): value is T[] => Array.isArray(value) && value.every(item => guard(item));
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Guard<T> {
+  return (value): value is T => typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+export function shape<T extends object>(fields: { [K in keyof T]: Guard<T[K]> }): Guard<T> {
+  return (value): value is T => {
+    if (!value || typeof value !== 'object') return false;
+    const record = value as Record<string, unknown>;
+    return (Object.keys(fields) as Array<keyof T & string>).every(key => fields[key](record[key]));
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * SEC form type helpers shared by the filings providers and the UI.
+ */
+
+export type SecFormCategory = 'dilution' | 'current' | 'periodic' | 'ownership' | 'other';
+
+// Registration statements and prospectuses - how small caps raise money
+const DILUTION_FORMS = /^(S-1|S-3|S-4|S-8|F-1|F-3|F-4|424B\d?|EFFECT|RW)(\/A)?$/;
+const CURRENT_FORMS = /^(8-K|6-K)(\/A)?$/;
+const PERIODIC_FORMS = /^(10-K|10-Q|20-F|40-F|10-KT|10-QT|NT 10-K|NT 10-Q)(\/A)?$/;
+const OWNERSHIP_FORMS = /^(3|4|5|SC 13D|SC 13G|13D|13G|SCHEDULE 13D|SCHEDULE 13G|144)(\/A)?$/;
+
+// Longest first so "424B5" wins over "424B" and "10-K/A" over "10-K"
+const FORM_PATTERN = /\b(SC 13[DG](?:\/A)?|NT 10-[KQ]|10-KT|10-QT|10-K|10-Q|20-F|40-F|8-K|6-K|S-[1348]|F-[134]|424B\d?|DEF 14A|PRE 14A|DEFA14A|EFFECT|144)(\/A)?(?![\w-])/i;
+
+export function normalizeFormType(formType: string): string {
+  return formType.trim().toUpperCase().replace(/\s+/g, ' ');
+}
+
+/** Finds a form type mentioned in free text such as a filing title */
+export function detectFormType(text: string): string | null {
+  const match = text.match(FORM_PATTERN);
+  if (!match) return null;
+  return normalizeFormType(match[1] + (match[2] || ''));
+}
+
+export function formCategory(formType: string): SecFormCategory {
+  const form = normalizeFormType(formType);
+  if (DILUTION_FORMS.test(form)) return 'dilution';
+  if (CURRENT_FORMS.test(form)) return 'current';
+  if (PERIODIC_FORMS.test(form)) return 'periodic';
+  if (OWNERSHIP_FORMS.test(form)) return 'ownership';
+  return 'other';
+}
+
+export const FORM_CATEGORY_COLORS: Record<SecFormCategory, string> = {
+  dilution: 'red',
+  current: 'orange',
+  periodic: 'blue',
+  ownership: 'grape',
+  other: 'gray'
+};
@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getConfig } from '@/lib/config';
+import {
+  canonicalSymbol,
+  parseNasdaqListed,
+  parseOtherListed,
+  type SecurityListing,
+  type SecurityType
+} from '@/lib/security-types';
+
+const NASDAQ_LISTED_URL = 'https://www.nasdaqtrader.com/dynamic/SymDir/nasdaqlisted.txt';
+const OTHER_LISTED_URL = 'https://www.nasdaqtrader.com/dynamic/SymDir/otherlisted.txt';
+
+// The directory files are regenerated once per trading day
+const REFRESH_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Resolved on use, so importing this module never reads the config
+const indexFile = () => path.resolve(getConfig().symbols.securityIndexFile);
+
+export interface SecurityIndex {
+  generatedAt: string;
+  listings: Record<string, SecurityListing>;
+}
+
+let index: SecurityIndex | null = null;
+let building: Promise<SecurityIndex> | null = null;
+
+async function downloadText(url: string, fetchFn: typeof fetch): Promise<string> {
+  const response = await fetchFn(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36'
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`${url} HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return response.text();
+}
+
+export function buildSecurityIndex(listings: SecurityListing[], generatedAt: Date = new Date()): SecurityIndex {
+  const byCanonical: Record<string, SecurityListing> = {};
+  for (const listing of listings) {
+    byCanonical[canonicalSymbol(listing.symbol)] = listing;
+  }
+  return { generatedAt: generatedAt.toISOString(), listings: byCanonical };
+}
+
+/** Downloads both directory files and rewrites the local dataset */
+export async function refreshSecurityIndex(fetchFn: typeof fetch = (input, init) => fetch(input, init)): Promise<SecurityIndex> {
+  if (!building) {
+    building = (async () => {
+      console.log('📥 Rebuilding security type index from NASDAQ Trader symbol directory...');
+
+      const [nasdaqText, otherText] = await Promise.all([
+        downloadText(NASDAQ_LISTED_URL, fetchFn),
+        downloadText(OTHER_LISTED_URL, fetchFn)
+      ]);
+
+      const built = buildSecurityIndex([...parseNasdaqListed(nasdaqText), ...parseOtherListed(otherText)]);
+      index = built;
+      console.log(`✅ Security index rebuilt with ${Object.keys(built.listings).length} symbols`);
+
+      // The file only saves a download after a restart; a read-only file system (Vercel) just goes without
+      const file = indexFile();
+      try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, JSON.stringify(built), 'utf8');
+      } catch (error) {
+        console.warn(`⚠️ Could not cache security index to ${file}:`, error instanceof Error ? error.message : error);
+      }
+      return built;
+    })().finally(() => {
+      building = null;
+    });
+  }
+
+  return building;
+}
+
+async function readIndexFile(): Promise<SecurityIndex | null> {
+  const file = indexFile();
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as SecurityIndex;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`⚠️ Could not read security index ${file}:`, error instanceof Error ? error.message : error);
+    }
+    return null;
+  }
+}
+
+function isStale(candidate: SecurityIndex): boolean {
+  return Date.now() - Date.parse(candidate.generatedAt) > REFRESH_AFTER_MS;
+}
+
+/**
+ * Returns the security index, loading it from the local dataset file and
+ * rebuilding it when missing or older than a day. A stale index keeps being
+ * served if the rebuild fails.
+ */
+export async function getSecurityIndex(fetchFn?: typeof fetch): Promise<SecurityIndex> {
+  if (!index) {
+    index = await readIndexFile();
+  }
+
+  if (!index) {
+    return refreshSecurityIndex(fetchFn);
+  }
+
+  if (isStale(index)) {
+    refreshSecurityIndex(fetchFn).catch(error => {
+      console.error('❌ Security index refresh failed, keeping the previous index:', error);
+    });
+  }
+
+  return index;
+}
+
+export async function lookupSecurity(symbol: string, fetchFn?: typeof fetch): Promise<SecurityListing | null> {
+  const current = await getSecurityIndex(fetchFn);
+  return current.listings[canonicalSymbol(symbol)] || null;
+}
+
+export async function lookupSecurityType(symbol: string, fetchFn?: typeof fetch): Promise<SecurityType | null> {
+  const listing = await lookupSecurity(symbol, fetchFn);
+  return listing ? listing.type : null;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { classifySecurity } from './security-types';
+
+// Security names as the NASDAQ Trader symbol directory lists them
+describe('classifySecurity', () => {
+  it.each([
+    ['Enterprise Products Partners L.P. Common Units', 'common_stock'],
+    ['Energy Transfer LP Common Units representing limited partner interests', 'common_stock'],
+    ['MPLX LP Common Units Representing Limited Partner Interests', 'common_stock'],
+    ['Churchill Capital Corp IX - Units', 'unit'],
+    ['Churchill Capital Corp IX - Warrant', 'warrant'],
+    ['Apple Inc. - Common Stock', 'common_stock'],
+    ['Abivax SA - American Depositary Shares', 'adr'],
+    ['Wells Fargo & Company Non-Cumulative Perpetual Class A Preferred Stock, Series L', 'preferred']
+  ])('classifies %j as %s', (name, type) => {
+    expect(classifySecurity(name, false)).toBe(type);
+  });
+
+  it('trusts the directory ETF flag, except for ETNs', () => {
+    expect(classifySecurity('SPDR S&P 500 ETF Trust', true)).toBe('etf');
+    expect(classifySecurity('iPath Bloomberg Commodity Index Total Return ETN', true)).toBe('etn');
+  });
+});
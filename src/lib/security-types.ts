@@ -0,0 +1,141 @@
+/**
+ * Security type classification for listed US symbols, built from the
+ * NASDAQ Trader symbol directory files (nasdaqlisted.txt / otherlisted.txt).
+ * Pure functions only, so the UI can share the types and labels.
+ */
+
+export type SecurityType =
+  | 'common_stock'
+  | 'etf'
+  | 'etn'
+  | 'adr'
+  | 'warrant'
+  | 'unit'
+  | 'right'
+  | 'preferred'
+  | 'other';
+
+export const SECURITY_TYPES: readonly SecurityType[] = [
+  'common_stock', 'etf', 'etn', 'adr', 'warrant', 'unit', 'right', 'preferred', 'other'
+];
+
+export const SECURITY_TYPE_LABELS: Record<SecurityType, string> = {
+  common_stock: 'Stock',
+  etf: 'ETF',
+  etn: 'ETN',
+  adr: 'ADR',
+  warrant: 'Warrant',
+  unit: 'Unit',
+  right: 'Right',
+  preferred: 'Preferred',
+  other: 'Other'
+};
+
+export const SECURITY_TYPE_COLORS: Record<SecurityType, string> = {
+  common_stock: 'blue',
+  etf: 'orange',
+  etn: 'orange',
+  adr: 'cyan',
+  warrant: 'grape',
+  unit: 'grape',
+  right: 'grape',
+  preferred: 'teal',
+  other: 'gray'
+};
+
+export interface SecurityListing {
+  symbol: string;
+  name: string;
+  exchange: string;
+  type: SecurityType;
+}
+
+/**
+ * Classifies a listing from its security name and the directory's ETF flag.
+ * Order matters: ETNs are flagged as ETFs in the directory, and unit and
+ * warrant names often mention the common stock they convert into.
+ */
+export function classifySecurity(name: string, etfFlag: boolean): SecurityType {
+  const n = name.toLowerCase();
+
+  if (/\betns?\b|exchange[- ]traded notes?|\bnotes? linked to\b/.test(n)) return 'etn';
+  if (etfFlag) return 'etf';
+  if (/\bwarrants?\b/.test(n)) return 'warrant';
+  // MLPs list their common equity as "Common Units" representing limited partner interests
+  if (/\bunits?\b/.test(n.replace(/\b(common|limited partnership) units?\b/g, ''))) return 'unit';
+  if (/\brights?\b/.test(n)) return 'right';
+  if (/\bpreferred\b|\bpfd\b|\bpreference shares?\b/.test(n)) return 'preferred';
+  if (/american depositary|\bads\b|\badrs?\b|depositary shares|depositary receipts?/.test(n)) return 'adr';
+  if (/\bnotes? due\b|\bdebentures?\b|\bsenior notes?\b/.test(n)) return 'other';
+  return 'common_stock';
+}
+
+function splitPipeFile(text: string): { header: string[]; rows: string[][] } {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('File Creation Time'));
+  const [headerLine, ...rowLines] = lines;
+  return {
+    header: (headerLine || '').split('|').map(h => h.trim()),
+    rows: rowLines.map(line => line.split('|'))
+  };
+}
+
+function column(header: string[], name: string): number {
+  const index = header.indexOf(name);
+  if (index === -1) {
+    throw new Error(`Symbol directory file is missing the "${name}" column`);
+  }
+  return index;
+}
+
+/** Parses nasdaqlisted.txt, skipping test issues */
+export function parseNasdaqListed(text: string): SecurityListing[] {
+  const { header, rows } = splitPipeFile(text);
+  const symbolCol = column(header, 'Symbol');
+  const nameCol = column(header, 'Security Name');
+  const etfCol = column(header, 'ETF');
+  const testCol = column(header, 'Test Issue');
+
+  return rows
+    .filter(row => row[testCol] !== 'Y' && row[symbolCol])
+    .map(row => ({
+      symbol: row[symbolCol].trim().toUpperCase(),
+      name: row[nameCol].trim(),
+      exchange: 'NASDAQ',
+      type: classifySecurity(row[nameCol], row[etfCol] === 'Y')
+    }));
+}
+
+const OTHER_EXCHANGES: Record<string, string> = {
+  A: 'NYSE American',
+  N: 'NYSE',
+  P: 'NYSE Arca',
+  Z: 'Cboe BZX',
+  V: 'IEX'
+};
+
+/** Parses otherlisted.txt (NYSE, NYSE American, Arca, Cboe), skipping test issues */
+export function parseOtherListed(text: string): SecurityListing[] {
+  const { header, rows } = splitPipeFile(text);
+  const symbolCol = column(header, 'ACT Symbol');
+  const nameCol = column(header, 'Security Name');
+  const exchangeCol = column(header, 'Exchange');
+  const etfCol = column(header, 'ETF');
+  const testCol = column(header, 'Test Issue');
+
+  return rows
+    .filter(row => row[testCol] !== 'Y' && row[symbolCol])
+    .map(row => ({
+      symbol: row[symbolCol].trim().toUpperCase(),
+      name: row[nameCol].trim(),
+      exchange: OTHER_EXCHANGES[row[exchangeCol]] || row[exchangeCol],
+      type: classifySecurity(row[nameCol], row[etfCol] === 'Y')
+    }));
+}
+
+/**
+ * Symbols are written differently across sources (BRK.B, BRK-B, BRK/B,
+ * and ABR$D vs ABR-D for preferreds), so lookups use a canonical form.
+ */
+export function canonicalSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase().replace(/[.\-/$ ]/g, '.');
+}
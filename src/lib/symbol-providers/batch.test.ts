@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { enrichSymbols, type BatchResult } from './batch';
+import { runSymbolProviders } from './index';
+import type { SymbolProvider } from './types';
+
+const requested = vi.hoisted((): string[] => []);
+
+vi.mock('./index', async () => {
+  const { withProviderCache } = await import('./cache');
+  const { createCacheStore } = await import('@/lib/cache-store');
+  const store = createCacheStore('memory', '');
+  const provider = { name: 'test-last-price', cache: { ttlMs: 0, staleMs: 0 } } as SymbolProvider<'lastPrice'>;
+
+  return {
+    // One provider behind the real provider cache, so batches asking for the same symbol share its load
+    runSymbolProviders: vi.fn(async (symbol: string, options: { ctx: { fetch: typeof fetch }; fresh?: boolean }) => ({
+      lastPrice: await withProviderCache(provider, symbol, async () => {
+        await options.ctx.fetch(`https://example.test/${symbol}`);
+        return { status: 'ok', value: 1.5, source: 'Test', fetchedAt: '2025-03-14T20:00:00.000Z', error: null };
+      }, { fresh: true, store })
+    }))
+  };
+});
+
+vi.mock('@/lib/concurrency', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/concurrency')>(),
+  createHostRateLimitedFetch: () => (input: RequestInfo | URL, init?: RequestInit) =>
+    new Promise<Response>((resolve, reject) => {
+      requested.push(String(input));
+      const timer = setTimeout(() => resolve(new Response('{}')), 20);
+      init?.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(init.signal!.reason);
+      });
+    })
+}));
+
+describe('enrichSymbols', () => {
+  it('reports every symbol when left to finish', async () => {
+    const results: BatchResult[] = [];
+    await enrichSymbols(['AAPL', 'MSFT', 'GME'], { concurrency: 2 }, result => results.push(result));
+
+    expect(results.map(result => result.symbol).sort()).toEqual(['AAPL', 'GME', 'MSFT']);
+  });
+
+  it('skips queued symbols once the signal aborts', async () => {
+    vi.mocked(runSymbolProviders).mockClear();
+    const abort = new AbortController();
+    const results: BatchResult[] = [];
+
+    const batch = enrichSymbols(['AAPL', 'MSFT', 'GME', 'AMC'], { concurrency: 1, signal: abort.signal }, result => {
+      results.push(result);
+      abort.abort();
+    });
+    await batch;
+
+    expect(results.map(result => result.symbol)).toEqual(['AAPL']);
+    expect(runSymbolProviders).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports nothing for a request the abort cut short', async () => {
+    const abort = new AbortController();
+    const results: BatchResult[] = [];
+
+    const batch = enrichSymbols(['AAPL', 'MSFT'], { concurrency: 2, signal: abort.signal }, result => results.push(result));
+    setTimeout(() => abort.abort(), 5);
+    await batch;
+
+    expect(results).toEqual([]);
+  });
+
+  it('lets a load shared with another batch finish when one of them is cancelled', async () => {
+    requested.length = 0;
+    const abort = new AbortController();
+    const cancelled: BatchResult[] = [];
+    const kept: BatchResult[] = [];
+
+    const first = enrichSymbols(['GME'], { signal: abort.signal }, result => cancelled.push(result));
+    const second = enrichSymbols(['GME'], {}, result => kept.push(result));
+    setTimeout(() => abort.abort(), 5);
+    await Promise.all([first, second]);
+
+    expect(cancelled).toEqual([]);
+    expect(kept).toMatchObject([{ type: 'result', symbol: 'GME', data: { lastPrice: { status: 'ok', value: 1.5 } } }]);
+    expect(requested).toEqual(['https://example.test/GME']);
+  });
+});
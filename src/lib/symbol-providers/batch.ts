@@ -0,0 +1,82 @@
+import { createHostRateLimitedFetch, createLimiter, type HostLimit } from '@/lib/concurrency';
+import { runSymbolProviders } from './index';
+import type { ProviderContext, SymbolPayloadFields } from './types';
+
+export const MAX_BATCH_SYMBOLS = 100;
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+const HOST_LIMITS: Record<string, HostLimit> = {
+  'script.google.com': { maxConcurrent: 2, minIntervalMs: 500 },
+  'finance.yahoo.com': { maxConcurrent: 2, minIntervalMs: 300 },
+  'query1.finance.yahoo.com': { maxConcurrent: 2, minIntervalMs: 300 },
+  'www.zacks.com': { maxConcurrent: 2, minIntervalMs: 500 },
+  'www.stocktitan.net': { maxConcurrent: 1, minIntervalMs: 500 },
+  'www.nasdaqtrader.com': { maxConcurrent: 1, minIntervalMs: 500 }
+};
+
+const DEFAULT_HOST_LIMIT: HostLimit = { maxConcurrent: 2, minIntervalMs: 250 };
+
+// Shared by every batch on this server so parallel batches still respect the host limits
+const batchContext: ProviderContext = {
+  fetch: createHostRateLimitedFetch(HOST_LIMITS, DEFAULT_HOST_LIMIT)
+};
+
+export type BatchResult =
+  | { type: 'result'; symbol: string; data: { symbol: string } & Partial<SymbolPayloadFields> }
+  | { type: 'error'; symbol: string; error: string };
+
+export interface EnrichSymbolsOptions {
+  concurrency?: number;
+  fresh?: boolean;
+  /** Stops the batch: queued symbols are skipped and symbols in flight are no longer waited for */
+  signal?: AbortSignal;
+}
+
+/**
+ * Settles with `promise`, or rejects as soon as `signal` aborts. The work
+ * itself keeps running: provider loads are shared with every other request
+ * for the same symbol, so one caller going away must not cancel them.
+ */
+function unlessAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Enriches many symbols with the enabled providers, at most `concurrency`
+ * symbols at a time, reporting each one through `onResult` as it completes.
+ * Nothing is reported once `options.signal` aborts.
+ */
+export async function enrichSymbols(
+  symbols: string[],
+  options: EnrichSymbolsOptions,
+  onResult: (result: BatchResult) => void
+): Promise<void> {
+  const concurrency = Math.min(Math.max(options.concurrency || DEFAULT_BATCH_CONCURRENCY, 1), MAX_BATCH_CONCURRENCY);
+  const limit = createLimiter(concurrency);
+  const { signal } = options;
+
+  console.log(`📦 Enriching ${symbols.length} symbols, ${concurrency} at a time`);
+
+  await Promise.all(symbols.map(symbol => limit(async () => {
+    if (signal?.aborted) return;
+
+    try {
+      const loading = runSymbolProviders(symbol, { ctx: batchContext, fresh: options.fresh });
+      const fields = await (signal ? unlessAborted(loading, signal) : loading);
+      if (!signal?.aborted) onResult({ type: 'result', symbol, data: { symbol, ...fields } });
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error(`❌ Batch enrichment failed for ${symbol}:`, error);
+      onResult({ type: 'error', symbol, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  })));
+
+  if (signal?.aborted) {
+    console.log(`🛑 Batch of ${symbols.length} symbols cancelled`);
+  }
+}
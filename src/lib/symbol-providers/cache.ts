@@ -0,0 +1,73 @@
+import { getConfig } from '@/lib/config';
+import { createCacheStore, type CacheStore } from '@/lib/cache-store';
+import type { FieldResult, SymbolField, SymbolFields, SymbolProvider } from './types';
+
+/**
+ * Shared cache for provider results. SYMBOL_CACHE=file persists it to
+ * SYMBOL_CACHE_FILE so local restarts don't re-scrape everything.
+ */
+export const symbolCache: CacheStore = createCacheStore(getConfig().symbols.cache, getConfig().symbols.cacheFile);
+
+// Loads currently running per cache key, so concurrent requests share one scrape
+const inflight = new Map<string, Promise<FieldResult<unknown>>>();
+
+export function cacheKey(provider: { name: string }, ticker: string): string {
+  return `${provider.name}:${ticker}`;
+}
+
+/**
+ * Serves a provider result from cache when fresh, serves it stale while
+ * refetching in the background inside the stale window, and otherwise
+ * loads it. Only `ok` and `empty` results are cached; failures are retried
+ * on the next request.
+ */
+export async function withProviderCache<K extends SymbolField>(
+  provider: SymbolProvider<K>,
+  ticker: string,
+  load: () => Promise<FieldResult<SymbolFields[K]>>,
+  options: { fresh?: boolean; store?: CacheStore } = {}
+): Promise<FieldResult<SymbolFields[K]>> {
+  const store = options.store || symbolCache;
+  const key = cacheKey(provider, ticker);
+
+  const refresh = (): Promise<FieldResult<SymbolFields[K]>> => {
+    const running = inflight.get(key);
+    if (running) return running as Promise<FieldResult<SymbolFields[K]>>;
+
+    const promise = load()
+      .then(async result => {
+        if (result.status === 'ok' || result.status === 'empty') {
+          const now = Date.now();
+          await store.set(key, {
+            value: result,
+            storedAt: now,
+            expiresAt: now + provider.cache.ttlMs + provider.cache.staleMs
+          });
+        }
+        return result;
+      })
+      .finally(() => inflight.delete(key));
+
+    inflight.set(key, promise);
+    return promise;
+  };
+
+  if (options.fresh) {
+    return refresh();
+  }
+
+  const entry = await store.get<FieldResult<SymbolFields[K]>>(key);
+  if (!entry) {
+    return refresh();
+  }
+
+  const age = Date.now() - entry.storedAt;
+  if (age >= provider.cache.ttlMs) {
+    console.log(`♻️ Serving stale ${provider.name} for ${ticker} (${Math.round(age / 1000)}s old), revalidating`);
+    refresh().catch(error => {
+      console.error(`❌ Background refresh of ${provider.name} for ${ticker} failed:`, error);
+    });
+  }
+
+  return entry.value;
+}
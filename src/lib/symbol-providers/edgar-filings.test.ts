@@ -0,0 +1,94 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { edgarFilingsProvider, padCik, parseEdgarSubmissions, parseTickerCikMap, toEdgarTicker } from './edgar-filings';
+import type { ProviderContext } from './types';
+
+// Trimmed copies of company_tickers.json and a data.sec.gov submissions feed
+const fixture = (name: string) => JSON.parse(readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8'));
+
+describe('parseTickerCikMap', () => {
+  it('maps upper-cased tickers to their CIK and skips malformed entries', () => {
+    const cikByTicker = parseTickerCikMap(fixture('edgar-company-tickers.json'));
+
+    expect(cikByTicker.get('AAPL')).toBe(320193);
+    expect(cikByTicker.get('BRK-B')).toBe(1067983);
+    expect(cikByTicker.get('LCID')).toBe(1811210);
+    expect(cikByTicker.has('BAD')).toBe(false);
+    expect(cikByTicker.size).toBe(5);
+  });
+
+  it('has no CIK for a ticker EDGAR does not list', () => {
+    expect(parseTickerCikMap(fixture('edgar-company-tickers.json')).get(toEdgarTicker('SHOP.TO'))).toBeUndefined();
+  });
+
+  it('throws on a map that is not an object or has no entries', () => {
+    expect(() => parseTickerCikMap(null)).toThrow('not an object');
+    expect(() => parseTickerCikMap({ 0: { ticker: 'AAPL' } })).toThrow('no entries');
+  });
+});
+
+describe('parseEdgarSubmissions', () => {
+  const now = new Date('2025-03-26T12:00:00Z');
+
+  it('returns filings inside the lookback window, newest first', () => {
+    const filings = parseEdgarSubmissions(fixture('edgar-submissions-gme.json'), 30, now);
+
+    expect(filings).toEqual([
+      {
+        formType: '8-K',
+        title: '8-K',
+        filedAt: '2025-03-25T16:05:12.000Z',
+        url: 'https://www.sec.gov/Archives/edgar/data/1326380/000132638025000031/gme-20250325.htm'
+      },
+      {
+        formType: '10-K',
+        title: '10-K',
+        filedAt: '2025-03-18T06:01:44.000Z',
+        url: 'https://www.sec.gov/Archives/edgar/data/1326380/000132638025000028/gme-20250201.htm'
+      },
+      // No acceptance time or primary document: the filing date and the folder stand in
+      {
+        formType: '424B5',
+        title: '424B5',
+        filedAt: '2025-03-12T00:00:00.000Z',
+        url: 'https://www.sec.gov/Archives/edgar/data/1326380/000119312525054321/'
+      }
+    ]);
+  });
+
+  it('widens with the lookback', () => {
+    expect(parseEdgarSubmissions(fixture('edgar-submissions-gme.json'), 365, now)).toHaveLength(4);
+  });
+
+  it('throws on a feed without filings.recent', () => {
+    expect(() => parseEdgarSubmissions(fixture('edgar-submissions-no-recent.json'), 30, now)).toThrow('missing filings.recent');
+  });
+});
+
+describe('edgarFilingsProvider', () => {
+  const requested: string[] = [];
+  const ctx: ProviderContext = {
+    fetch: (async (input: RequestInfo | URL) => {
+      const url = String(input);
+      requested.push(url);
+      if (url.endsWith('/company_tickers.json')) return Response.json(fixture('edgar-company-tickers.json'));
+      if (url.endsWith('/CIK0001067983.json')) return Response.json(fixture('edgar-submissions-gme.json'));
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    }) as typeof fetch
+  };
+
+  it('looks share classes up under their EDGAR ticker and fetches the padded CIK', async () => {
+    const filings = await edgarFilingsProvider.load('brk.b', ctx);
+
+    expect(Array.isArray(filings)).toBe(true);
+    expect(requested).toContain(`https://data.sec.gov/submissions/CIK${padCik(1067983)}.json`);
+  });
+
+  it('resolves null without fetching submissions for a ticker with no CIK', async () => {
+    requested.length = 0;
+
+    expect(await edgarFilingsProvider.load('SHOP.TO', ctx)).toBeNull();
+    expect(requested.some(url => url.includes('/submissions/'))).toBe(false);
+  });
+});
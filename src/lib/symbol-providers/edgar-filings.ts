@@ -0,0 +1,165 @@
+import { getConfig } from '@/lib/config';
+import { normalizeFormType } from '@/lib/sec-forms';
+import { getFilingsLookbackDays, lookbackCutoff, secFilingsSchema, sortFilingsNewestFirst } from './filings';
+import type { ProviderContext, SecFiling, SymbolProvider } from './types';
+
+const TICKER_MAP_URL = 'https://www.sec.gov/files/company_tickers.json';
+const SUBMISSIONS_URL = 'https://data.sec.gov/submissions';
+
+// The ticker map is ~1MB and changes rarely, so keep it for a day
+const TICKER_MAP_TTL_MS = 24 * 60 * 60 * 1000;
+
+// SEC asks automated clients to identify themselves with a contact address
+const SEC_USER_AGENT = getConfig().sec.userAgent;
+
+let tickerMap: { cikByTicker: Map<string, number>; loadedAt: number } | null = null;
+let tickerMapLoading: Promise<Map<string, number>> | null = null;
+
+/** Entry in https://www.sec.gov/files/company_tickers.json */
+interface EdgarTickerEntry {
+  cik_str: number;
+  ticker: string;
+  title: string;
+}
+
+/** The part of https://data.sec.gov/submissions/CIK##########.json we read */
+interface EdgarSubmissions {
+  cik: string;
+  filings: {
+    recent: {
+      accessionNumber: string[];
+      filingDate: string[];
+      acceptanceDateTime?: string[];
+      form: string[];
+      primaryDocument: string[];
+      primaryDocDescription?: string[];
+    };
+  };
+}
+
+function secHeaders() {
+  return {
+    'User-Agent': SEC_USER_AGENT,
+    'Accept': 'application/json'
+  };
+}
+
+/** EDGAR writes share classes with a dash: BRK.B is BRK-B */
+export function toEdgarTicker(symbol: string): string {
+  return symbol.trim().toUpperCase().replace(/\./g, '-');
+}
+
+export function parseTickerCikMap(json: unknown): Map<string, number> {
+  if (!json || typeof json !== 'object') {
+    throw new Error('EDGAR ticker map is not an object');
+  }
+
+  const cikByTicker = new Map<string, number>();
+  for (const entry of Object.values(json as Record<string, EdgarTickerEntry>)) {
+    if (entry && typeof entry.ticker === 'string' && typeof entry.cik_str === 'number') {
+      cikByTicker.set(entry.ticker.toUpperCase(), entry.cik_str);
+    }
+  }
+
+  if (cikByTicker.size === 0) {
+    throw new Error('EDGAR ticker map has no entries');
+  }
+
+  return cikByTicker;
+}
+
+async function getTickerCikMap(ctx: ProviderContext): Promise<Map<string, number>> {
+  if (tickerMap && Date.now() - tickerMap.loadedAt < TICKER_MAP_TTL_MS) {
+    return tickerMap.cikByTicker;
+  }
+
+  if (!tickerMapLoading) {
+    tickerMapLoading = (async () => {
+      console.log('📥 Downloading EDGAR ticker to CIK map...');
+      const response = await ctx.fetch(TICKER_MAP_URL, { headers: secHeaders() });
+      if (!response.ok) {
+        throw new Error(`EDGAR ticker map HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const cikByTicker = parseTickerCikMap(await response.json());
+      tickerMap = { cikByTicker, loadedAt: Date.now() };
+      console.log(`✅ Loaded ${cikByTicker.size} EDGAR tickers`);
+      return cikByTicker;
+    })().finally(() => {
+      tickerMapLoading = null;
+    });
+  }
+
+  return tickerMapLoading;
+}
+
+export function padCik(cik: number | string): string {
+  return String(cik).padStart(10, '0');
+}
+
+/**
+ * Turns the `filings.recent` columns of an EDGAR submissions feed into
+ * filings filed within the last `lookbackDays`, newest first.
+ */
+export function parseEdgarSubmissions(json: unknown, lookbackDays: number, now: Date = new Date()): SecFiling[] {
+  const submissions = json as EdgarSubmissions;
+  const recent = submissions?.filings?.recent;
+
+  if (!recent || !Array.isArray(recent.accessionNumber) || !Array.isArray(recent.form) || !Array.isArray(recent.filingDate)) {
+    throw new Error('EDGAR submissions feed is missing filings.recent');
+  }
+
+  const cik = String(parseInt(submissions.cik, 10));
+  const cutoff = lookbackCutoff(now, lookbackDays);
+  const filings: SecFiling[] = [];
+
+  for (let i = 0; i < recent.accessionNumber.length; i++) {
+    // acceptanceDateTime has the time of day, filingDate only the date
+    const filedAt = new Date(recent.acceptanceDateTime?.[i] || `${recent.filingDate[i]}T00:00:00Z`);
+    if (isNaN(filedAt.getTime()) || filedAt < cutoff) continue;
+
+    const formType = normalizeFormType(recent.form[i] || 'UNKNOWN');
+    const accession = recent.accessionNumber[i].replace(/-/g, '');
+    const document = recent.primaryDocument?.[i];
+
+    filings.push({
+      formType,
+      title: recent.primaryDocDescription?.[i] || formType,
+      filedAt: filedAt.toISOString(),
+      url: document
+        ? `https://www.sec.gov/Archives/edgar/data/${cik}/${accession}/${document}`
+        : `https://www.sec.gov/Archives/edgar/data/${cik}/${accession}/`
+    });
+  }
+
+  return sortFilingsNewestFirst(filings);
+}
+
+export const edgarFilingsProvider: SymbolProvider<'secFilings'> = {
+  name: 'edgar-filings',
+  label: 'EDGAR SEC Filings',
+  source: 'SEC EDGAR',
+  field: 'secFilings',
+  timeoutMs: 10000,
+  retry: { maxRetries: 2 },
+  cache: { ttlMs: 15 * 60 * 1000, staleMs: 45 * 60 * 1000 },
+  schema: secFilingsSchema,
+  isEmpty: filings => filings.length === 0,
+  load: async (symbol, ctx) => {
+    const cikByTicker = await getTickerCikMap(ctx);
+    const cik = cikByTicker.get(toEdgarTicker(symbol));
+
+    // Not an SEC registrant (foreign listing, fund share class, delisted...)
+    if (!cik) {
+      console.log(`ℹ️ No EDGAR CIK for ${symbol}`);
+      return null;
+    }
+
+    const response = await ctx.fetch(`${SUBMISSIONS_URL}/CIK${padCik(cik)}.json`, { headers: secHeaders() });
+    if (!response.ok) {
+      throw new Error(`EDGAR submissions HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return parseEdgarSubmissions(await response.json(), getFilingsLookbackDays());
+  }
+};
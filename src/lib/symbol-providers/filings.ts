@@ -0,0 +1,25 @@
+import { getConfig } from '@/lib/config';
+import { arrayOf, isString, shape } from '@/lib/schema';
+import type { SecFiling } from './types';
+
+/** How many days back filings are reported, from SEC_FILINGS_LOOKBACK_DAYS */
+export function getFilingsLookbackDays(): number {
+  return getConfig().sec.filingsLookbackDays;
+}
+
+export function lookbackCutoff(now: Date, days: number): Date {
+  const cutoff = new Date(now);
+  cutoff.setDate(now.getDate() - days);
+  return cutoff;
+}
+
+export const secFilingsSchema = arrayOf(shape<SecFiling>({
+  formType: isString,
+  title: isString,
+  filedAt: isString,
+  url: isString
+}));
+
+export function sortFilingsNewestFirst(filings: SecFiling[]): SecFiling[] {
+  return [...filings].sort((a, b) => Date.parse(b.filedAt) - Date.parse(a.filedAt));
+}
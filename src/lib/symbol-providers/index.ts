@@ -0,0 +1,189 @@
+import { getConfig, type AppConfig } from '@/lib/config';
+import { withRetry } from './retry';
+import { withProviderCache } from './cache';
+import { yahooProfileAppsScriptProvider, yahooProfileScrapeProvider } from './yahoo-profile';
+import { premarketLowProvider } from './premarket-low';
+import { afterHoursStatsProvider, premarketStatsProvider } from './session-stats';
+import { previousCloseProvider } from './previous-close';
+import { quoteMediaLastPriceProvider, yahooLastPriceProvider } from './last-price';
+import { securityTypeProvider } from './security-type';
+import { zacksNewsProvider } from './zacks-news';
+import { edgarFilingsProvider } from './edgar-filings';
+import { stockTitanFilingsProvider } from './stocktitan-filings';
+import type {
+  AnySymbolProvider,
+  FieldResult,
+  ProviderContext,
+  SymbolField,
+  SymbolFields,
+  SymbolPayloadFields,
+  SymbolProvider
+} from './types';
+
+export * from './types';
+export { withRetry } from './retry';
+export { symbolCache } from './cache';
+
+/** Every provider known to the app */
+export const symbolProviders: AnySymbolProvider[] = [
+  yahooProfileAppsScriptProvider,
+  yahooProfileScrapeProvider,
+  premarketLowProvider,
+  premarketStatsProvider,
+  afterHoursStatsProvider,
+  previousCloseProvider,
+  quoteMediaLastPriceProvider,
+  yahooLastPriceProvider,
+  securityTypeProvider,
+  zacksNewsProvider,
+  edgarFilingsProvider,
+  stockTitanFilingsProvider
+];
+
+const DEFAULT_PROVIDERS = [
+  'yahoo-profile',
+  'premarket-low',
+  'premarket-stats',
+  'after-hours-stats',
+  'previous-close',
+  'quotemedia-quote',
+  'yahoo-quote',
+  'security-type',
+  'zacks-news',
+  'edgar-filings',
+  'stocktitan-filings'
+];
+
+const defaultContext: ProviderContext = {
+  fetch: (input, init) => fetch(input, init)
+};
+
+/**
+ * Resolves which providers run for this deployment.
+ *
+ * SYMBOL_PROVIDERS replaces the default list, SYMBOL_PROVIDERS_DISABLED
+ * removes entries from it. When several enabled providers fill the same
+ * field, the later ones are fallbacks for the earlier ones, in list order.
+ */
+export function getEnabledProviders(settings: AppConfig['symbols'] = getConfig().symbols): AnySymbolProvider[] {
+  const requested = settings.providers || DEFAULT_PROVIDERS;
+  const disabled = new Set(settings.disabledProviders);
+  const providers: AnySymbolProvider[] = [];
+
+  for (const name of requested) {
+    if (disabled.has(name)) continue;
+
+    const provider = symbolProviders.find(p => p.name === name);
+    if (!provider) {
+      console.warn(`⚠️ Unknown symbol provider "${name}" - skipping`);
+      continue;
+    }
+
+    if (!providers.includes(provider)) {
+      providers.push(provider);
+    }
+  }
+
+  return providers;
+}
+
+/**
+ * Runs a single provider with its retry policy and validates the result
+ * against its schema. Never rejects: failures are reported in the result status.
+ */
+export async function runProvider<K extends SymbolField>(
+  provider: SymbolProvider<K>,
+  ticker: string,
+  ctx: ProviderContext = defaultContext
+): Promise<FieldResult<SymbolFields[K]>> {
+  try {
+    const value = await withRetry(
+      () => provider.load(ticker, ctx),
+      provider.label,
+      ticker,
+      provider.retry.maxRetries,
+      provider.timeoutMs
+    );
+
+    if (value !== null && !provider.schema(value)) {
+      throw new Error(`${provider.label} returned data that does not match its schema`);
+    }
+
+    const isEmpty = value === null || (provider.isEmpty ? provider.isEmpty(value) : false);
+
+    return {
+      status: isEmpty ? 'empty' : 'ok',
+      value,
+      source: provider.source,
+      fetchedAt: new Date().toISOString(),
+      error: null
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const isTimeout = errorMessage.includes('timeout') || errorMessage.includes('aborted') || errorMessage.includes('ETIMEDOUT');
+
+    return {
+      status: isTimeout ? 'timeout' : 'failed',
+      value: null,
+      source: provider.source,
+      fetchedAt: new Date().toISOString(),
+      error: errorMessage
+    };
+  }
+}
+
+export interface RunSymbolProvidersOptions {
+  providers?: AnySymbolProvider[];
+  ctx?: ProviderContext;
+  /** Skip cached results and refetch every field */
+  fresh?: boolean;
+}
+
+/** Runs the given providers in parallel and collects their fields */
+export async function runSymbolProviders(
+  ticker: string,
+  options: RunSymbolProvidersOptions = {}
+): Promise<Partial<SymbolPayloadFields>> {
+  const { providers = getEnabledProviders(), ctx = defaultContext, fresh = false } = options;
+  const chains = new Map<SymbolField, AnySymbolProvider[]>();
+  for (const provider of providers) {
+    chains.set(provider.field, [...(chains.get(provider.field) || []), provider]);
+  }
+
+  const fields: Partial<Record<SymbolField, FieldResult<unknown>>> = {};
+
+  await Promise.all(Array.from(chains.entries()).map(async ([field, chain]) => {
+    fields[field] = await runProviderChain(chain, ticker, ctx, fresh);
+  }));
+
+  return fields as Partial<SymbolPayloadFields>;
+}
+
+/**
+ * Tries providers for one field in order until one answers. An `empty`
+ * answer counts - only failures and timeouts move on to the next provider.
+ */
+async function runProviderChain(
+  chain: AnySymbolProvider[],
+  ticker: string,
+  ctx: ProviderContext,
+  fresh: boolean
+): Promise<FieldResult<unknown>> {
+  const errors: string[] = [];
+  let result: FieldResult<unknown> | null = null;
+
+  for (const provider of chain) {
+    result = await withProviderCache(provider, ticker, () => runProvider(provider, ticker, ctx), { fresh });
+
+    if (result.status === 'ok' || result.status === 'empty') {
+      return result;
+    }
+
+    errors.push(`${result.source}: ${result.error}`);
+    if (provider !== chain[chain.length - 1]) {
+      console.log(`↪️ ${provider.name} ${result.status} for ${ticker}, falling back`);
+    }
+  }
+
+  return { ...result!, error: errors.join('; ') };
+}
@@ -0,0 +1,60 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { quoteMediaSession } from '@/lib/quotemedia-session';
+import { parseQuoteMediaLastPrice, parseYahooLastPrice, quoteMediaLastPriceProvider, yahooLastPriceProvider } from './last-price';
+import type { ProviderContext } from './types';
+
+const fixture = (name: string) => JSON.parse(readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8'));
+
+describe('parseQuoteMediaLastPrice', () => {
+  it('reads the last trade of the requested symbol', () => {
+    expect(parseQuoteMediaLastPrice(fixture('quotemedia-getquotes.json'), 'xtia')).toBe(0.615);
+  });
+
+  it('is null for a symbol that has not traded', () => {
+    expect(parseQuoteMediaLastPrice(fixture('quotemedia-getquotes-no-trade.json'), 'ZZZT')).toBeNull();
+  });
+});
+
+describe('parseYahooLastPrice', () => {
+  it('takes the close of the latest bar, after hours included', () => {
+    expect(parseYahooLastPrice(fixture('yahoo-chart-1m.json'))).toBe(0.615);
+  });
+
+  it('falls back to the regular market price on a chart without bars', () => {
+    const chart = fixture('yahoo-chart-1m.json');
+    chart.chart.result[0].timestamp = [];
+
+    expect(parseYahooLastPrice(chart)).toBe(0.64);
+    expect(parseYahooLastPrice({ chart: { result: null } })).toBeNull();
+  });
+});
+
+describe('last price providers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('quotemedia-quote sends the session id with getQuotes', async () => {
+    vi.spyOn(quoteMediaSession, 'withSid').mockImplementation(call => call('test-sid'));
+    const requested: string[] = [];
+    const ctx: ProviderContext = {
+      fetch: (async (input: RequestInfo | URL) => {
+        requested.push(String(input));
+        return Response.json(fixture('quotemedia-getquotes.json'));
+      }) as typeof fetch
+    };
+
+    expect(await quoteMediaLastPriceProvider.load('XTIA', ctx)).toBe(0.615);
+    expect(requested[0]).toMatch(/\/datatool\/getQuotes\.json\?symbols=XTIA&webmasterId=\d+&sid=test-sid$/);
+  });
+
+  it('yahoo-quote reads the chart', async () => {
+    const ctx: ProviderContext = {
+      fetch: (async () => Response.json(fixture('yahoo-chart-1m.json'))) as typeof fetch
+    };
+
+    expect(await yahooLastPriceProvider.load('XTIA', ctx)).toBe(0.615);
+  });
+});
@@ -0,0 +1,60 @@
+import { isNumber } from '@/lib/schema';
+import { parseChartCandles } from '@/lib/chart';
+import { normalizeQuoteMediaStock, parseQuoteMediaQuoteList } from '@/lib/quotemedia-client';
+import { quoteMediaSession } from '@/lib/quotemedia-session';
+import { fetchYahooChart } from './yahoo-chart';
+import type { SymbolProvider } from './types';
+
+const validPrice = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+
+/** Last trade from a QuoteMedia getQuotes.json response, null when the symbol has none */
+export function parseQuoteMediaLastPrice(data: unknown, ticker: string): number | null {
+  const quotes = parseQuoteMediaQuoteList(data, 'getQuotes').quotes.map(stock => normalizeQuoteMediaStock(stock));
+  const quote = quotes.find(q => q.symbol.toUpperCase() === ticker.toUpperCase()) || quotes[0];
+  return quote && validPrice(quote.price) ? quote.price : null;
+}
+
+/** Close of the latest bar, pre- and post-market included, from a Yahoo chart response */
+export function parseYahooLastPrice(data: any): number | null {
+  const result = data?.chart?.result?.[0];
+  if (!result) return null;
+
+  const candles = parseChartCandles(result);
+  const last = candles.length > 0 ? candles[candles.length - 1].close : result.meta?.regularMarketPrice;
+  return validPrice(last) ? last : null;
+}
+
+export const quoteMediaLastPriceProvider: SymbolProvider<'lastPrice'> = {
+  name: 'quotemedia-quote',
+  label: 'QuoteMedia Quote',
+  source: 'QuoteMedia',
+  field: 'lastPrice',
+  timeoutMs: 8000,
+  retry: { maxRetries: 1 },
+  cache: { ttlMs: 15 * 1000, staleMs: 60 * 1000 },
+  schema: isNumber,
+  load: async (ticker, ctx) => {
+    const url = `https://app.quotemedia.com/datatool/getQuotes.json?symbols=${encodeURIComponent(ticker)}&webmasterId=${quoteMediaSession.webmasterId}`;
+
+    const response = await quoteMediaSession.withSid(sid =>
+      ctx.fetch(`${url}&sid=${sid}`, { headers: { Accept: 'application/json' } })
+    );
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return parseQuoteMediaLastPrice(await response.json(), ticker);
+  }
+};
+
+export const yahooLastPriceProvider: SymbolProvider<'lastPrice'> = {
+  name: 'yahoo-quote',
+  label: 'Yahoo Last Price',
+  source: 'Yahoo Finance',
+  field: 'lastPrice',
+  timeoutMs: 10000,
+  retry: { maxRetries: 2 },
+  cache: { ttlMs: 30 * 1000, staleMs: 60 * 1000 },
+  schema: isNumber,
+  load: async (ticker, ctx) => parseYahooLastPrice(await fetchYahooChart(ticker, ctx))
+};
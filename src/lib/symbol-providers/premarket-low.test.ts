@@ -0,0 +1,34 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parsePremarketLow, premarketLowProvider } from './premarket-low';
+import type { ProviderContext } from './types';
+
+const fixture = (name: string) => JSON.parse(readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8'));
+
+describe('parsePremarketLow', () => {
+  it('formats the premarket low to two decimals', () => {
+    expect(parsePremarketLow(fixture('yahoo-chart-1m.json'), 'XTIA')).toBe('0.55');
+  });
+
+  it('does not fall back to the regular session low', () => {
+    expect(parsePremarketLow(fixture('yahoo-chart-no-premarket.json'), 'BRK-B')).toBeNull();
+  });
+});
+
+describe('premarketLowProvider', () => {
+  it('requests the 1-minute chart with pre- and post-market bars', async () => {
+    const requested: string[] = [];
+    const ctx: ProviderContext = {
+      fetch: (async (input: RequestInfo | URL) => {
+        requested.push(String(input));
+        return Response.json(fixture('yahoo-chart-1m.json'));
+      }) as typeof fetch
+    };
+
+    expect(await premarketLowProvider.load('XTIA', ctx)).toBe('0.55');
+    expect(requested).toEqual([
+      'https://query1.finance.yahoo.com/v8/finance/chart/XTIA?interval=1m&range=1d&includePrePost=true'
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { isString } from '@/lib/schema';
+import { parsePremarketStats } from './session-stats';
+import { fetchYahooChart } from './yahoo-chart';
+import type { SymbolProvider } from './types';
+
+export const premarketLowProvider: SymbolProvider<'premarketLow'> = {
+  name: 'premarket-low',
+  label: 'Premarket Low',
+  source: 'Yahoo Finance Chart',
+  field: 'premarketLow',
+  timeoutMs: 10000,
+  retry: { maxRetries: 3 },
+  cache: { ttlMs: 60 * 1000, staleMs: 30 * 1000 },
+  schema: isString,
+  load: async (ticker, ctx) => parsePremarketLow(await fetchYahooChart(ticker, ctx), ticker)
+};
+
+/**
+ * Extracts the premarket low from a Yahoo `v8/finance/chart` response,
+ * formatted to two decimals. The premarket window comes from the market
+ * calendar (4:00-9:30 ET). Returns null when nothing traded in it.
+ */
+export function parsePremarketLow(data: any, ticker: string, now: Date = new Date()): string | null {
+  const stats = parsePremarketStats(data, now);
+
+  // No premarket trades is a valid answer, not a reason to report another session's low
+  if (!stats) {
+    console.log(`No premarket trades for ${ticker}`);
+    return null;
+  }
+
+  const formattedPrice = (Math.round(stats.low * 100) / 100).toFixed(2);
+  console.log(`Low price for ${ticker}: ${formattedPrice} at ${stats.lowAt}`);
+
+  return formattedPrice;
+}
@@ -0,0 +1,31 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parsePreviousClose, previousCloseProvider } from './previous-close';
+import type { ProviderContext } from './types';
+
+// Statistics block of a Yahoo quote page
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('parsePreviousClose', () => {
+  it('reads the regularMarketPreviousClose streamer', () => {
+    expect(parsePreviousClose(fixture('yahoo-quote.html'))).toBe(0.6);
+  });
+
+  it('is null on a page without one', () => {
+    expect(parsePreviousClose(fixture('yahoo-profile.html'))).toBeNull();
+  });
+});
+
+describe('previousCloseProvider', () => {
+  it('loads the quote page through ctx.fetch', async () => {
+    const ctx: ProviderContext = {
+      fetch: (async (input: RequestInfo | URL) => String(input) === 'https://finance.yahoo.com/quote/XTIA/'
+        ? new Response(fixture('yahoo-quote.html'))
+        : new Response('Not Found', { status: 404, statusText: 'Not Found' })) as typeof fetch
+    };
+
+    expect(await previousCloseProvider.load('XTIA', ctx)).toBe(0.6);
+    await expect(previousCloseProvider.load('NOPE', ctx)).rejects.toThrow('HTTP 404: Not Found');
+  });
+});
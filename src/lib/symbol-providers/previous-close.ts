@@ -0,0 +1,42 @@
+import * as cheerio from 'cheerio';
+import { isNumber } from '@/lib/schema';
+import type { SymbolProvider } from './types';
+
+export const previousCloseProvider: SymbolProvider<'previousClose'> = {
+  name: 'previous-close',
+  label: 'Previous Close',
+  source: 'Yahoo Finance',
+  field: 'previousClose',
+  timeoutMs: 10000,
+  retry: { maxRetries: 3 },
+  cache: { ttlMs: 60 * 60 * 1000, staleMs: 60 * 60 * 1000 },
+  schema: isNumber,
+  load: async (ticker, ctx) => {
+    const yahooResponse = await ctx.fetch(`https://finance.yahoo.com/quote/${ticker}/`, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36"
+      }
+    });
+
+    if (!yahooResponse.ok) {
+      throw new Error(`HTTP ${yahooResponse.status}: ${yahooResponse.statusText}`);
+    }
+
+    return parsePreviousClose(await yahooResponse.text());
+  }
+};
+
+/** Returns null when the quote page has no previous close for the symbol */
+export function parsePreviousClose(html: string): number | null {
+  const $ = cheerio.load(html);
+  const previousClose = $('fin-streamer[data-field="regularMarketPreviousClose"]').attr('data-value');
+
+  if (previousClose) {
+    const price = parseFloat(previousClose);
+    if (!isNaN(price)) {
+      return price;
+    }
+  }
+
+  return null;
+}
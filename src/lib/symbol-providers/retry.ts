@@ -0,0 +1,52 @@
+// Helper function to create retry wrapper
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  functionName: string,
+  symbol: string,
+  maxRetries: number = 3,
+  timeoutMs: number = 10000
+): Promise<T> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      console.log(`🔄 ${functionName} - Attempt ${attempt}/${maxRetries} for ${symbol}`);
+
+      // Create AbortController for timeout
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      const result = await Promise.race([
+        fn(),
+        new Promise<never>((_, reject) => {
+          controller.signal.addEventListener('abort', () => {
+            reject(new Error('Request timeout'));
+          });
+        })
+      ]);
+
+      clearTimeout(timeoutId);
+      console.log(`✅ ${functionName} successful for ${symbol} on attempt ${attempt}`);
+      return result;
+
+    } catch (error) {
+      lastError = error as Error;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+
+      if (errorMsg.includes('aborted') || errorMsg.includes('timeout') || errorMsg.includes('ETIMEDOUT')) {
+        console.log(`⏳ ${functionName} attempt ${attempt} timed out for ${symbol}`);
+      } else {
+        console.log(`❌ ${functionName} attempt ${attempt} failed for ${symbol}: ${errorMsg}`);
+      }
+
+      if (attempt < maxRetries) {
+        const delay = attempt * 1000; // Progressive delay
+        console.log(`⏳ Waiting ${delay}ms before retry...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  console.log(`🔥 All ${functionName} attempts failed for ${symbol}: ${lastError?.message}`);
+  throw lastError || new Error(`${functionName} failed after ${maxRetries} attempts`);
+}
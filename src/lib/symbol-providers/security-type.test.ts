@@ -0,0 +1,48 @@
+import { promises as fs, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { securityTypeProvider } from './security-type';
+import type { ProviderContext } from './types';
+
+// Keep the index the provider builds out of the working copy's .cache
+const indexFile = path.join(os.tmpdir(), `security-index-${process.pid}.json`);
+
+// The NASDAQ Trader symbol directory files, trimmed to a few rows
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('securityTypeProvider', () => {
+  const requested: string[] = [];
+  const ctx: ProviderContext = {
+    fetch: (async (input: RequestInfo | URL) => {
+      const url = String(input);
+      requested.push(url);
+      return new Response(fixture(path.basename(url)));
+    }) as typeof fetch
+  };
+
+  beforeAll(() => {
+    vi.stubEnv('SECURITY_INDEX_FILE', indexFile);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(indexFile, { force: true });
+  });
+
+  it.each([
+    ['XTIA', 'common_stock'],
+    ['QQQ', 'etf'],
+    ['BRK-B', 'common_stock'],
+    ['EPD', 'common_stock'],
+    ['CCIX.U', 'unit']
+  ])('classifies %s as %s from the directory files', async (symbol, type) => {
+    expect(await securityTypeProvider.load(symbol, ctx)).toBe(type);
+  });
+
+  it('downloads the directory once and has nothing for symbols it does not list', async () => {
+    expect(await securityTypeProvider.load('ZVZZT', ctx)).toBeNull();
+    expect(await securityTypeProvider.load('GOOGLE', ctx)).toBeNull();
+    expect(requested.map(url => path.basename(url))).toEqual(['nasdaqlisted.txt', 'otherlisted.txt']);
+  });
+});
@@ -0,0 +1,17 @@
+import { oneOf } from '@/lib/schema';
+import { lookupSecurityType } from '@/lib/security-index';
+import { SECURITY_TYPES } from '@/lib/security-types';
+import type { SymbolProvider } from './types';
+
+export const securityTypeProvider: SymbolProvider<'securityType'> = {
+  name: 'security-type',
+  label: 'Security Type',
+  source: 'NASDAQ Trader Symbol Directory',
+  field: 'securityType',
+  timeoutMs: 20000,
+  retry: { maxRetries: 2 },
+  cache: { ttlMs: 24 * 60 * 60 * 1000, staleMs: 6 * 24 * 60 * 60 * 1000 },
+  schema: oneOf(SECURITY_TYPES),
+  // Symbols missing from the directory (OTC, delisted) come back empty
+  load: (symbol, ctx) => lookupSecurityType(symbol, ctx.fetch)
+};
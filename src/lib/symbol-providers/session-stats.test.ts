@@ -0,0 +1,62 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { afterHoursStatsProvider, parseAfterHoursStats, parsePremarketStats, premarketStatsProvider } from './session-stats';
+import type { ProviderContext } from './types';
+
+// 1-minute chart of Friday 03/14/2025, trimmed to a few bars per session
+const fixture = (name: string) => JSON.parse(readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8'));
+
+describe('parsePremarketStats', () => {
+  it('summarizes the 4:00-9:30 ET bars and skips empty ones', () => {
+    expect(parsePremarketStats(fixture('yahoo-chart-1m.json'))).toEqual({
+      open: 0.6,
+      high: 0.65,
+      low: 0.55,
+      last: 0.58,
+      volume: 6000,
+      vwap: 0.5878,
+      referencePrice: 0.6,
+      gapPercent: -3.33,
+      highAt: '2025-03-14T11:15:00.000Z',
+      lowAt: '2025-03-14T11:15:00.000Z',
+      start: '2025-03-14T08:00:00.000Z',
+      end: '2025-03-14T13:30:00.000Z'
+    });
+  });
+
+  it('is null when nothing traded before the open', () => {
+    expect(parsePremarketStats(fixture('yahoo-chart-no-premarket.json'))).toBeNull();
+    expect(parsePremarketStats({ chart: { result: null } })).toBeNull();
+  });
+});
+
+describe('parseAfterHoursStats', () => {
+  it('measures the change against the regular session close', () => {
+    expect(parseAfterHoursStats(fixture('yahoo-chart-1m.json'))).toMatchObject({
+      open: 0.64,
+      high: 0.65,
+      low: 0.6,
+      last: 0.615,
+      volume: 2000,
+      referencePrice: 0.64,
+      gapPercent: -3.91,
+      start: '2025-03-14T20:00:00.000Z',
+      end: '2025-03-15T00:00:00.000Z'
+    });
+  });
+});
+
+describe('session stats providers', () => {
+  const ctx: ProviderContext = {
+    fetch: (async () => Response.json(fixture('yahoo-chart-1m.json'))) as typeof fetch
+  };
+
+  it('read the chart through ctx.fetch and satisfy their schema', async () => {
+    const premarket = await premarketStatsProvider.load('XTIA', ctx);
+    const afterHours = await afterHoursStatsProvider.load('XTIA', ctx);
+
+    expect(premarketStatsProvider.schema(premarket)).toBe(true);
+    expect(afterHoursStatsProvider.schema(afterHours)).toBe(true);
+  });
+});
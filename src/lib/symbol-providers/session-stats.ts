@@ -0,0 +1,127 @@
+import { isNumber, isString, nullable, shape } from '@/lib/schema';
+import { getTradingDaySessions, tradingDayFor, type SessionWindow } from '@/lib/market-calendar';
+import { parseChartCandles, type Candle } from '@/lib/chart';
+import { fetchYahooChart } from './yahoo-chart';
+import type { SessionStats, SymbolProvider } from './types';
+
+export const sessionStatsSchema = shape<SessionStats>({
+  open: isNumber,
+  high: isNumber,
+  low: isNumber,
+  last: isNumber,
+  volume: isNumber,
+  vwap: nullable(isNumber),
+  referencePrice: nullable(isNumber),
+  gapPercent: nullable(isNumber),
+  highAt: isString,
+  lowAt: isString,
+  start: isString,
+  end: isString
+});
+
+function validPrice(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value) && value > 0;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Open, high, low, last, volume and VWAP of the bars inside `window`, with
+ * the change of the last price against `referencePrice`. Returns null when
+ * nothing traded in the window.
+ */
+export function computeSessionStats(bars: Candle[], window: SessionWindow, referencePrice: number | null): SessionStats | null {
+  const start = window.start.getTime() / 1000;
+  const end = window.end.getTime() / 1000;
+  const inSession = bars.filter(bar => bar.time >= start && bar.time < end);
+  if (inSession.length === 0) return null;
+
+  let high = inSession[0];
+  let low = inSession[0];
+  let volume = 0;
+  let turnover = 0;
+
+  for (const bar of inSession) {
+    if (bar.high > high.high) high = bar;
+    if (bar.low < low.low) low = bar;
+    volume += bar.volume;
+    // Typical price of the minute stands in for the trades we don't see
+    turnover += bar.volume * (bar.high + bar.low + bar.close) / 3;
+  }
+
+  const last = inSession[inSession.length - 1].close;
+
+  return {
+    open: round(inSession[0].open, 4),
+    high: round(high.high, 4),
+    low: round(low.low, 4),
+    last: round(last, 4),
+    volume,
+    vwap: volume > 0 ? round(turnover / volume, 4) : null,
+    referencePrice,
+    gapPercent: referencePrice ? round((last - referencePrice) / referencePrice * 100, 2) : null,
+    highAt: new Date(high.time * 1000).toISOString(),
+    lowAt: new Date(low.time * 1000).toISOString(),
+    start: window.start.toISOString(),
+    end: window.end.toISOString()
+  };
+}
+
+/** Sessions of the trading day the chart covers, taken from its last bar */
+function chartSessions(result: any, now: Date) {
+  const timestamps: unknown[] = result?.timestamp || [];
+  const lastTs = [...timestamps].reverse().find(ts => typeof ts === 'number') as number | undefined;
+  return getTradingDaySessions(tradingDayFor(lastTs ? new Date(lastTs * 1000) : now));
+}
+
+/** Premarket (4:00-9:30 ET) stats, gap measured against the previous close */
+export function parsePremarketStats(data: any, now: Date = new Date()): SessionStats | null {
+  const result = data?.chart?.result?.[0];
+  const sessions = chartSessions(result, now);
+  if (!result || !sessions) return null;
+
+  const previousClose = result.meta?.chartPreviousClose ?? result.meta?.previousClose;
+  return computeSessionStats(parseChartCandles(result), sessions.premarket, validPrice(previousClose) ? previousClose : null);
+}
+
+/** After-hours stats, change measured against the regular session close */
+export function parseAfterHoursStats(data: any, now: Date = new Date()): SessionStats | null {
+  const result = data?.chart?.result?.[0];
+  const sessions = chartSessions(result, now);
+  if (!result || !sessions) return null;
+
+  const bars = parseChartCandles(result);
+  const regularEnd = sessions.regular.end.getTime() / 1000;
+  const regularStart = sessions.regular.start.getTime() / 1000;
+  const regularBars = bars.filter(bar => bar.time >= regularStart && bar.time < regularEnd);
+  const regularClose = regularBars.length > 0 ? regularBars[regularBars.length - 1].close : null;
+
+  return computeSessionStats(bars, sessions.afterHours, regularClose);
+}
+
+export const premarketStatsProvider: SymbolProvider<'premarketStats'> = {
+  name: 'premarket-stats',
+  label: 'Premarket Stats',
+  source: 'Yahoo Finance Chart',
+  field: 'premarketStats',
+  timeoutMs: 10000,
+  retry: { maxRetries: 3 },
+  cache: { ttlMs: 60 * 1000, staleMs: 30 * 1000 },
+  schema: sessionStatsSchema,
+  load: async (ticker, ctx) => parsePremarketStats(await fetchYahooChart(ticker, ctx))
+};
+
+export const afterHoursStatsProvider: SymbolProvider<'afterHoursStats'> = {
+  name: 'after-hours-stats',
+  label: 'After-Hours Stats',
+  source: 'Yahoo Finance Chart',
+  field: 'afterHoursStats',
+  timeoutMs: 10000,
+  retry: { maxRetries: 3 },
+  cache: { ttlMs: 60 * 1000, staleMs: 30 * 1000 },
+  schema: sessionStatsSchema,
+  load: async (ticker, ctx) => parseAfterHoursStats(await fetchYahooChart(ticker, ctx))
+};
@@ -0,0 +1,69 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseStockTitanFilings, stockTitanFilingsProvider } from './stocktitan-filings';
+import type { ProviderContext } from './types';
+
+// A StockTitan filings page, trimmed to a handful of rows
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('parseStockTitanFilings', () => {
+  const now = new Date('2025-03-14T16:00:00Z');
+
+  it('returns the filing rows inside the lookback window, newest first', () => {
+    expect(parseStockTitanFilings(fixture('stocktitan-filings.html'), 'XTIA', 14, now)).toEqual([
+      {
+        formType: '8-K',
+        title: 'XTI Aerospace files 8-K current report',
+        filedAt: '2025-03-14T11:45:02.000Z',
+        url: 'https://www.stocktitan.net/sec-filings/XTIA/8-k-xti-aerospace-inc-reports-material-event-d4e5f6.html'
+      },
+      // The badge names the form when the title doesn't
+      {
+        formType: '424B5',
+        title: 'XTI Aerospace, Inc. Prospectus Supplement',
+        filedAt: '2025-03-13T21:05:11.000Z',
+        url: 'https://www.stocktitan.net/sec-filings/XTIA/424b5-xti-aerospace-inc-prospectus-supplement-debt-securities-a1b2c3.html'
+      },
+      {
+        formType: 'SC 13G/A',
+        title: 'SC 13G/A: Amended ownership report',
+        filedAt: '2025-03-03T20:10:00.000Z',
+        url: 'https://www.stocktitan.net/sec-filings/XTIA/sc-13g-a-xti-aerospace-inc-ownership-g7h8i9.html'
+      }
+    ]);
+  });
+
+  it('narrows with the lookback', () => {
+    const filings = parseStockTitanFilings(fixture('stocktitan-filings.html'), 'XTIA', 3, now);
+    expect(filings.map(filing => filing.formType)).toEqual(['8-K', '424B5']);
+  });
+
+  it('throws when a filing row has no date', () => {
+    expect(() => parseStockTitanFilings(fixture('stocktitan-filings-no-date.html'), 'XTIA', 3, now))
+      .toThrow('No date found for XTIA');
+  });
+});
+
+describe('stockTitanFilingsProvider', () => {
+  const requested: string[] = [];
+  const ctx: ProviderContext = {
+    fetch: (async (input: RequestInfo | URL) => {
+      const url = String(input);
+      requested.push(url);
+      if (url.endsWith('/sec-filings/XTIA')) return new Response(fixture('stocktitan-filings.html'));
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    }) as typeof fetch
+  };
+
+  it('fetches the upper-cased symbol page', async () => {
+    const filings = await stockTitanFilingsProvider.load('xtia', ctx);
+
+    expect(Array.isArray(filings)).toBe(true);
+    expect(requested).toEqual(['https://www.stocktitan.net/sec-filings/XTIA']);
+  });
+
+  it('resolves null for a symbol StockTitan has no page for', async () => {
+    expect(await stockTitanFilingsProvider.load('ZZZT', ctx)).toBeNull();
+  });
+});
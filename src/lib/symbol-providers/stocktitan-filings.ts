@@ -0,0 +1,90 @@
+import * as cheerio from 'cheerio';
+import { detectFormType } from '@/lib/sec-forms';
+import { getFilingsLookbackDays, lookbackCutoff, secFilingsSchema, sortFilingsNewestFirst } from './filings';
+import type { SecFiling, SymbolProvider } from './types';
+
+export const stockTitanFilingsProvider: SymbolProvider<'secFilings'> = {
+  name: 'stocktitan-filings',
+  label: 'StockTitan SEC Filings',
+  source: 'StockTitan',
+  field: 'secFilings',
+  timeoutMs: 10000,
+  retry: { maxRetries: 3 },
+  cache: { ttlMs: 15 * 60 * 1000, staleMs: 45 * 60 * 1000 },
+  schema: secFilingsSchema,
+  isEmpty: filings => filings.length === 0,
+  load: async (symbol, ctx) => {
+    const url = `https://www.stocktitan.net/sec-filings/${symbol.toUpperCase()}`;
+
+    const response = await ctx.fetch(url, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
+      }
+    });
+
+    // StockTitan has no page for symbols without filings
+    if (response.status === 404) {
+      return null;
+    } else if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return parseStockTitanFilings(await response.text(), symbol, getFilingsLookbackDays());
+  }
+};
+
+/**
+ * Collects every filing row on a StockTitan filings page filed within the
+ * last `lookbackDays`, newest first. Throws when a filing row is missing
+ * its link or date, which means the markup changed.
+ */
+export function parseStockTitanFilings(
+  html: string,
+  symbol: string,
+  lookbackDays: number,
+  now: Date = new Date()
+): SecFiling[] {
+  const $ = cheerio.load(html);
+  const cutoff = lookbackCutoff(now, lookbackDays);
+  const filings: SecFiling[] = [];
+
+  $('.news-row-header').each(function() {
+    const header = $(this);
+    const titleDiv = header.find('.title');
+    if (titleDiv.length === 0 || titleDiv.text().trim() !== 'Filing') return;
+
+    // The title link lives in the container around the header
+    const container = header.parent();
+    const titleElem = container.find('a').first();
+    const title = titleElem.text().trim();
+    let link = titleElem.attr('href');
+
+    if (link && !link.startsWith('https://')) {
+      link = 'https://www.stocktitan.net' + link;
+    }
+
+    if (!link) {
+      throw new Error(`No link found for ${symbol}`);
+    }
+
+    const dateStr = header.find('time').attr('datetime');
+    if (!dateStr) {
+      throw new Error(`No date found for ${symbol}`);
+    }
+
+    const filedAt = new Date(dateStr);
+    if (isNaN(filedAt.getTime()) || filedAt < cutoff) return;
+
+    // StockTitan puts the form type in a badge on newer layouts, otherwise it's in the title
+    const badgeText = container.find('[data-role="form-type"], .form-type').first().text().trim();
+
+    filings.push({
+      formType: detectFormType(badgeText) || detectFormType(title) || 'UNKNOWN',
+      title,
+      filedAt: filedAt.toISOString(),
+      url: link
+    });
+  });
+
+  return sortFilingsNewestFirst(filings);
+}
@@ -0,0 +1,126 @@
+import type { Guard } from '@/lib/schema';
+import type { SecurityType } from '@/lib/security-types';
+
+export interface Executive {
+  name: string;
+  title: string;
+}
+
+export interface ExecutiveProfile {
+  country: string;
+  executives: Executive[];
+}
+
+export interface NewsArticle {
+  title: string;
+  link: string;
+  time: string;
+}
+
+export interface SecFiling {
+  /** e.g. "8-K", "S-1", "424B5"; "UNKNOWN" when the source doesn't say */
+  formType: string;
+  title: string;
+  /** ISO timestamp */
+  filedAt: string;
+  url: string;
+}
+
+/** Trading statistics of one extended-hours session, from 1-minute bars */
+export interface SessionStats {
+  open: number;
+  high: number;
+  low: number;
+  last: number;
+  volume: number;
+  vwap: number | null;
+  /** Previous close for premarket, the regular session close for after hours */
+  referencePrice: number | null;
+  /** Change of `last` against `referencePrice`, in percent */
+  gapPercent: number | null;
+  /** ISO timestamps */
+  highAt: string;
+  lowAt: string;
+  start: string;
+  end: string;
+}
+
+/**
+ * Every field a provider can contribute to the `/api/symbols` payload,
+ * keyed by the property name the UI reads.
+ */
+export interface SymbolFields {
+  executives: ExecutiveProfile;
+  premarketLow: string;
+  premarketStats: SessionStats;
+  afterHoursStats: SessionStats;
+  previousClose: number;
+  /** Latest trade, extended hours included */
+  lastPrice: number;
+  securityType: SecurityType;
+  news: NewsArticle[];
+  secFilings: SecFiling[];
+}
+
+export type SymbolField = keyof SymbolFields;
+
+/**
+ * ok      - the provider returned data
+ * empty   - the provider answered but had nothing for this symbol
+ * failed  - every attempt errored
+ * timeout - every attempt errored and the last one timed out
+ */
+export type FieldStatus = 'ok' | 'empty' | 'failed' | 'timeout';
+
+export interface FieldResult<T> {
+  status: FieldStatus;
+  value: T | null;
+  /** Upstream the value came from, e.g. "StockTitan" */
+  source: string;
+  fetchedAt: string;
+  error: string | null;
+}
+
+/** Shape of `data` in the `/api/symbols` response, minus the symbol itself */
+export type SymbolPayloadFields = { [K in SymbolField]: FieldResult<SymbolFields[K]> };
+
+export interface RetryPolicy {
+  maxRetries: number;
+}
+
+export interface CachePolicy {
+  /** How long a result is served as fresh */
+  ttlMs: number;
+  /** How long after `ttlMs` a result is still served while it is refetched in the background */
+  staleMs: number;
+}
+
+/**
+ * Dependencies handed to a provider when it runs. Providers must use
+ * `ctx.fetch` rather than the global so they can be exercised against
+ * recorded fixtures.
+ */
+export interface ProviderContext {
+  fetch: typeof fetch;
+}
+
+export interface SymbolProvider<K extends SymbolField = SymbolField> {
+  /** Unique id used in SYMBOL_PROVIDERS / SYMBOL_PROVIDERS_DISABLED */
+  name: string;
+  /** Human readable label used in retry logs */
+  label: string;
+  /** Upstream reported as the field's source */
+  source: string;
+  field: K;
+  timeoutMs: number;
+  retry: RetryPolicy;
+  cache: CachePolicy;
+  schema: Guard<SymbolFields[K]>;
+  /** Whether a successful value should be reported as `empty`, defaults to never */
+  isEmpty?(value: SymbolFields[K]): boolean;
+  /** Resolves null when the upstream has nothing for the symbol, throws on failure */
+  load: (ticker: string, ctx: ProviderContext) => Promise<SymbolFields[K] | null>;
+}
+
+/** Erases the field parameter so providers for different fields can share a list */
+export type AnySymbolProvider = { [K in SymbolField]: SymbolProvider<K> }[SymbolField];
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { fetchYahooChart } from './yahoo-chart';
+import type { ProviderContext } from './types';
+
+describe('fetchYahooChart', () => {
+  it('shares one download between concurrent requests for the same chart', async () => {
+    let calls = 0;
+    const ctx: ProviderContext = {
+      fetch: (async () => {
+        calls++;
+        return Response.json({ chart: { result: [], error: null } });
+      }) as typeof fetch
+    };
+
+    const [first, second] = await Promise.all([fetchYahooChart('XTIA', ctx), fetchYahooChart('XTIA', ctx)]);
+    expect(calls).toBe(1);
+    expect(first).toBe(second);
+
+    await fetchYahooChart('XTIA', ctx);
+    expect(calls).toBe(2);
+  });
+
+  it('throws on an HTTP error and on a body that is not JSON', async () => {
+    const failing: ProviderContext = {
+      fetch: (async () => new Response('Too Many Requests', { status: 429, statusText: 'Too Many Requests' })) as typeof fetch
+    };
+    const garbled: ProviderContext = {
+      fetch: (async () => new Response('<html>Will be right back</html>')) as typeof fetch
+    };
+
+    await expect(fetchYahooChart('XTIA', failing)).rejects.toThrow('HTTP 429: Too Many Requests');
+    await expect(fetchYahooChart('XTIA', garbled)).rejects.toThrow('JSON parsing failed');
+  });
+});
@@ -0,0 +1,40 @@
+import type { ProviderContext } from './types';
+
+const inflight = new Map<string, Promise<any>>();
+
+/**
+ * Downloads a Yahoo chart including pre- and post-market bars, by default
+ * the 1-minute chart of the latest trading day. Several providers read the
+ * same chart, so concurrent requests for it share one download.
+ */
+export function fetchYahooChart(ticker: string, ctx: ProviderContext, interval: string = '1m', range: string = '1d'): Promise<any> {
+  const key = `${ticker}:${interval}:${range}`;
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(ticker)}?interval=${interval}&range=${range}&includePrePost=true`;
+    console.log(`Fetching ${interval} chart for ${ticker} from ${url}`);
+
+    const response = await ctx.fetch(url);
+    console.log(`HTTP Status for ${ticker}: ${response.status}`);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.log(`Failed to fetch chart for ${ticker}: ${errorText}`);
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    try {
+      return JSON.parse(await response.text());
+    } catch (err) {
+      console.log(`Failed to parse JSON for ${ticker}:`, err);
+      throw new Error(`JSON parsing failed: ${err}`);
+    }
+  })().finally(() => {
+    inflight.delete(key);
+  });
+
+  inflight.set(key, request);
+  return request;
+}
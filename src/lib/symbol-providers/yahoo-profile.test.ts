@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseYahooProfileHtml, yahooProfileAppsScriptProvider, yahooProfileScrapeProvider } from './yahoo-profile';
+import type { ProviderContext } from './types';
+
+// Profile pages as Yahoo serves them, trimmed to the address and executives table
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+const respondWith = (body: string, init?: ResponseInit): ProviderContext => ({
+  fetch: (async () => new Response(body, init)) as typeof fetch
+});
+
+describe('parseYahooProfileHtml', () => {
+  it('reads the executives table and the last address line', () => {
+    expect(parseYahooProfileHtml(fixture('yahoo-profile.html'))).toEqual({
+      country: 'United States',
+      executives: [
+        { name: 'Mr. Scott Pomeroy', title: 'CEO & Director' },
+        { name: 'Ms. Brooke Turk', title: 'Chief Financial Officer' },
+        { name: 'Mr. David E. Brody', title: 'Founder & Secretary' }
+      ]
+    });
+  });
+
+  it('falls back to the older markup without the generated class names', () => {
+    expect(parseYahooProfileHtml(fixture('yahoo-profile-plain.html'))).toEqual({
+      country: 'France',
+      executives: [
+        { name: 'Dr. Marc de Garidel', title: 'CEO & Director' },
+        { name: 'Mr. Didier Blondel', title: 'Executive VP & CFO' }
+      ]
+    });
+  });
+
+  it('reports an unknown country and no executives for a page without a profile', () => {
+    expect(parseYahooProfileHtml(fixture('yahoo-quote.html'))).toEqual({ country: 'Unknown', executives: [] });
+  });
+});
+
+describe('yahooProfileScrapeProvider', () => {
+  it('parses the profile page fetched through ctx.fetch', async () => {
+    const profile = await yahooProfileScrapeProvider.load('XTIA', respondWith(fixture('yahoo-profile.html')));
+
+    expect(profile?.country).toBe('United States');
+    expect(profile?.executives).toHaveLength(3);
+  });
+
+  it('throws when Yahoo turns the request away', async () => {
+    await expect(yahooProfileScrapeProvider.load('XTIA', respondWith('Too Many Requests', { status: 429, statusText: 'Too Many Requests' })))
+      .rejects.toThrow('HTTP 429: Too Many Requests');
+  });
+});
+
+describe('yahooProfileAppsScriptProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  // The provider waits a random 1-3s before calling Apps Script
+  const load = async (ctx: ProviderContext) => {
+    vi.useFakeTimers();
+    const profile = yahooProfileAppsScriptProvider.load('XTIA', ctx);
+    profile.catch(() => {});
+    await vi.runAllTimersAsync();
+    return profile;
+  };
+
+  it('unwraps the Apps Script JSON', async () => {
+    vi.stubEnv('GOOGLE_APPS_SCRIPT_URL', 'https://script.google.com/macros/s/test/exec');
+
+    expect(await load(respondWith(fixture('apps-script-profile.json')))).toEqual({
+      country: 'United States',
+      executives: [
+        { name: 'Mr. Scott Pomeroy', title: 'CEO & Director' },
+        { name: 'Ms. Brooke Turk', title: 'Chief Financial Officer' }
+      ]
+    });
+  });
+
+  it('throws the error Apps Script reports', async () => {
+    vi.stubEnv('GOOGLE_APPS_SCRIPT_URL', 'https://script.google.com/macros/s/test/exec');
+
+    await expect(load(respondWith(fixture('apps-script-error.json')))).rejects.toThrow('Apps Script error: Yahoo returned HTTP 429');
+  });
+});
@@ -0,0 +1,201 @@
+import * as cheerio from 'cheerio';
+import { getConfig } from '@/lib/config';
+import { arrayOf, isString, shape } from '@/lib/schema';
+import type { Executive, ExecutiveProfile, SymbolProvider } from './types';
+
+const executiveProfileSchema = shape<ExecutiveProfile>({
+  country: isString,
+  executives: arrayOf(shape<Executive>({ name: isString, title: isString }))
+});
+
+// Executives and headquarters rarely change
+const PROFILE_CACHE = { ttlMs: 3 * 24 * 60 * 60 * 1000, staleMs: 4 * 24 * 60 * 60 * 1000 };
+
+function isEmptyProfile(profile: ExecutiveProfile): boolean {
+  return profile.executives.length === 0 && profile.country === 'Unknown';
+}
+
+export const yahooProfileAppsScriptProvider: SymbolProvider<'executives'> = {
+  name: 'yahoo-profile',
+  label: 'Yahoo Profile via Apps Script',
+  source: 'Yahoo Finance (Apps Script)',
+  field: 'executives',
+  timeoutMs: 10000,
+  retry: { maxRetries: 3 },
+  cache: PROFILE_CACHE,
+  schema: executiveProfileSchema,
+  isEmpty: isEmptyProfile,
+  load: async (ticker, ctx) => {
+    // Google Apps Script endpoint for Yahoo Profile scraping
+    const appsScriptUrl = getConfig().symbols.googleAppsScriptUrl;
+    if (!appsScriptUrl) {
+      throw new Error('GOOGLE_APPS_SCRIPT_URL is not configured');
+    }
+
+    console.log(`🔍 Fetching Yahoo Profile for ${ticker} via Google Apps Script`);
+
+    console.log(`🔗 Using Apps Script URL: ${appsScriptUrl.substring(0, 50)}...`);
+
+    // Add delay to avoid Yahoo rate limiting
+    await new Promise(resolve => setTimeout(resolve, Math.random() * 2000 + 1000));
+
+    const url = `${appsScriptUrl}?symbol=${encodeURIComponent(ticker)}`;
+
+    const response = await ctx.fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Apps Script HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(`Apps Script error: ${result.error}`);
+    }
+
+    console.log(`✅ Successfully fetched profile for ${ticker} via Apps Script`);
+    console.log(`📊 Country: ${result.data.country}, Executives: ${result.data.executives.length}`);
+
+    return {
+      country: result.data.country || "Unknown",
+      executives: result.data.executives || []
+    };
+  }
+};
+
+/**
+ * Scrapes the Yahoo profile page directly. Yahoo blocks most serverless IPs,
+ * which is why the Apps Script provider is the default; enable this one with
+ * SYMBOL_PROVIDERS when running from a residential connection, either on its
+ * own or listed after yahoo-profile as a fallback.
+ */
+export const yahooProfileScrapeProvider: SymbolProvider<'executives'> = {
+  name: 'yahoo-profile-scrape',
+  label: 'Yahoo Profile',
+  source: 'Yahoo Finance',
+  field: 'executives',
+  timeoutMs: 15000,
+  retry: { maxRetries: 3 },
+  cache: PROFILE_CACHE,
+  schema: executiveProfileSchema,
+  isEmpty: isEmptyProfile,
+  load: async (ticker, ctx) => {
+    const url = `https://finance.yahoo.com/quote/${ticker}/profile/`;
+
+    const headers = {
+      "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
+      "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      "Accept-Language": "en-US,en;q=0.9",
+      "Cache-Control": "no-cache",
+      "Pragma": "no-cache",
+      "Sec-Fetch-Dest": "document",
+      "Sec-Fetch-Mode": "navigate",
+      "Sec-Fetch-Site": "none",
+      "Upgrade-Insecure-Requests": "1"
+    };
+
+    const response = await ctx.fetch(url, {
+      headers,
+      method: 'GET',
+      redirect: 'follow'
+    });
+    console.log(`📊 Response status: ${response.status} ${response.statusText}`);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.log(`❌ HTTP Error ${response.status} for ${ticker}:`, errorText.substring(0, 500));
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const html = await response.text();
+    console.log(`📄 HTML response length: ${html.length} characters`);
+
+    return parseYahooProfileHtml(html);
+  }
+};
+
+export function parseYahooProfileHtml(html: string): ExecutiveProfile {
+  const $ = cheerio.load(html);
+  const execs: Executive[] = [];
+
+  // Primary selector for the exact structure of the profile page
+  const primarySelector = "div.table-container.yf-mj92za table.yf-mj92za tbody tr.yf-mj92za";
+
+  $(primarySelector).each((i, el) => {
+    const name = $(el).find("td.yf-mj92za").eq(0).text().trim();
+    const title = $(el).find("td.yf-mj92za").eq(1).text().trim();
+
+    // Skip header rows and ensure we have both name and title
+    if (name && title && name !== "Name" && title !== "Title") {
+      execs.push({ name, title });
+    }
+  });
+
+  // Fallback selectors if primary doesn't work
+  if (execs.length === 0) {
+    console.log(`🔄 Primary selector failed, trying fallback selectors...`);
+
+    const fallbackSelectors = [
+      "div.table-container tbody tr",
+      "table[data-test='executives-table'] tbody tr",
+      "div[data-test='qsp-profile'] table tbody tr",
+      ".executives-table tbody tr",
+      "table tbody tr",
+      "tr"  // Very broad fallback
+    ];
+
+    for (const selector of fallbackSelectors) {
+      $(selector).each((i, el) => {
+        const cells = $(el).find("td");
+        if (cells.length >= 2) {
+          const name = cells.eq(0).text().trim();
+          const title = cells.eq(1).text().trim();
+          if (name && title && name !== "Name" && title !== "Title") {
+            execs.push({ name, title });
+          }
+        }
+      });
+
+      if (execs.length > 0) {
+        console.log(`✅ Found ${execs.length} executives with fallback selector: ${selector}`);
+        break;
+      }
+    }
+  }
+
+  // Extract country from company info address
+  let country = "";
+
+  const addressDivs = $("div.company-info.yf-wxp4ja div.address.yf-wxp4ja div");
+  if (addressDivs.length > 0) {
+    // Get the last div which typically contains the country
+    country = addressDivs.last().text().trim();
+  }
+
+  if (!country) {
+    const addressFallbacks = [
+      "div.address.yf-wxp4ja > div:last-child",
+      "div.company-info div.address div:last-child",
+      ".company-address div:last-child",
+      "div[data-test='qsp-profile'] div.address div:last-child"
+    ];
+
+    for (const selector of addressFallbacks) {
+      const addressDiv = $(selector);
+      if (addressDiv.length) {
+        country = addressDiv.text().trim();
+        if (country) break;
+      }
+    }
+  }
+
+  return {
+    country: country || "Unknown",
+    executives: execs
+  };
+}
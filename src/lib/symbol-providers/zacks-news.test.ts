@@ -0,0 +1,56 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseZacksNews, zacksNewsProvider } from './zacks-news';
+import type { ProviderContext } from './types';
+
+// A stock_quote_news.php fragment
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('parseZacksNews', () => {
+  it('keeps linked articles from the last two days', () => {
+    const articles = parseZacksNews(fixture('zacks-news.html'), new Date('2025-03-14T16:00:00Z'));
+
+    expect(articles).toEqual([
+      {
+        title: 'XTI Aerospace (XTIA) Prices $5M Registered Direct Offering',
+        link: 'https://www.zacks.com/stock/news/2433715/xti-aerospace-xtia-prices-5m-registered-direct-offering',
+        time: '03/14/2025, 08:15 AM '
+      },
+      {
+        title: 'XTIA Stock Falls After Quarterly Results',
+        link: 'https://www.zacks.com/stock/news/2432988/xtia-stock-falls-after-quarterly-results',
+        time: '03/13/2025, 04:42 PM '
+      },
+      {
+        title: 'eVTOL Makers Line Up for FAA Certification',
+        link: 'https://www.zacks.com/stock/news/2431507/eVTOL-makers-line-up-for-faa-certification',
+        time: '03/12/2025, 09:05 AM '
+      }
+    ]);
+  });
+
+  // 10pm ET on 03/14 is already 03/15 in UTC, which used to drop 03/12
+  it('counts the days in exchange time, whatever the server time zone', () => {
+    const articles = parseZacksNews(fixture('zacks-news.html'), new Date('2025-03-15T02:00:00Z'));
+    expect(articles).toHaveLength(3);
+
+    const nextDay = parseZacksNews(fixture('zacks-news.html'), new Date('2025-03-15T04:30:00Z'));
+    expect(nextDay.map(article => article.time)).toEqual(['03/14/2025, 08:15 AM ', '03/13/2025, 04:42 PM ']);
+  });
+});
+
+describe('zacksNewsProvider', () => {
+  it('asks Zacks for the ticker news through ctx.fetch', async () => {
+    const requested: string[] = [];
+    const ctx: ProviderContext = {
+      fetch: (async (input: RequestInfo | URL) => {
+        requested.push(String(input));
+        return new Response(fixture('zacks-news.html'));
+      }) as typeof fetch
+    };
+
+    expect(Array.isArray(await zacksNewsProvider.load('XTIA', ctx))).toBe(true);
+    expect(requested[0]).toContain('stock_quote_news.php?provider=others&cat=XTIA');
+  });
+});
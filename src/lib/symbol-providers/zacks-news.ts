@@ -0,0 +1,62 @@
+import * as cheerio from 'cheerio';
+import { addDays, easternDateKey } from '@/lib/market-calendar';
+import { arrayOf, isString, shape } from '@/lib/schema';
+import type { NewsArticle, SymbolProvider } from './types';
+
+export const zacksNewsProvider: SymbolProvider<'news'> = {
+  name: 'zacks-news',
+  label: 'Zacks News',
+  source: 'Zacks',
+  field: 'news',
+  timeoutMs: 10000,
+  retry: { maxRetries: 3 },
+  cache: { ttlMs: 5 * 60 * 1000, staleMs: 10 * 60 * 1000 },
+  schema: arrayOf(shape<NewsArticle>({ title: isString, link: isString, time: isString })),
+  isEmpty: articles => articles.length === 0,
+  load: async (ticker, ctx) => {
+    const url = `https://www.zacks.com/data_handler/stocks/stock_quote_news.php?provider=others&cat=${ticker}&limit=30&record=1`;
+
+    const response = await ctx.fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return parseZacksNews(await response.text());
+  }
+};
+
+/**
+ * Articles from the last two days, counted in exchange time so the window
+ * doesn't depend on the server's time zone.
+ */
+export function parseZacksNews(html: string, now: Date = new Date()): NewsArticle[] {
+  const $ = cheerio.load(html);
+  const articles: NewsArticle[] = [];
+
+  const cutoffKey = addDays(easternDateKey(now), -2);
+
+  $("article").each((i, el) => {
+    if (articles.length >= 15) return false;
+
+    const title = $(el).find("h1 a").text().trim();
+    const relativeLink = $(el).find("h1 a").attr("href");
+    const timeElement = $(el).find("time");
+    const datetimeStr = timeElement.attr("datetime");
+    const timeStr = timeElement.text().trim();
+
+    if (!datetimeStr || !relativeLink) return;
+
+    const parsedDate = new Date(datetimeStr);
+    if (isNaN(parsedDate.getTime()) || easternDateKey(parsedDate) < cutoffKey) return;
+
+    const fullPageUrl = "https://www.zacks.com" + relativeLink;
+    articles.push({
+      title,
+      link: fullPageUrl,
+      time: timeStr.split("EST")[0]
+    });
+  });
+
+  return articles;
+}
@@ -0,0 +1,150 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loginToTmx, TmxSessionManager } from './tmx-session';
+
+/**
+ * A stand-in for tmxpowerstream.com: session.php hands out numbered
+ * PHPSESSIDs, and the pages behind it redirect to session.php once the
+ * stub has expired the caller's session.
+ */
+function createTmxStub() {
+  const state = { logins: 0, live: new Set<string>(), requests: [] as string[] };
+
+  const readBody = (req: IncomingMessage) => new Promise<string>(resolve => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+  });
+
+  const handler = async (req: IncomingMessage, res: ServerResponse) => {
+    state.requests.push(`${req.method} ${req.url}`);
+
+    if (req.url === '/session.php' && req.method === 'POST') {
+      const form = new URLSearchParams(await readBody(req));
+      // Answer slowly so concurrent callers overlap
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      if (form.get('userName') !== 'trader' || form.get('password') !== 'secret') {
+        res.writeHead(302, { Location: form.get('targetURL') || '/?loginError=true' }).end();
+        return;
+      }
+
+      const sessionId = `sess${++state.logins}`;
+      state.live.add(sessionId);
+      res.writeHead(302, {
+        'Location': form.get('forwardURL') || '/powerStreamWeb.php',
+        'Set-Cookie': [`PHPSESSID=${sessionId}; path=/; HttpOnly`, 'qmLang=en; path=/']
+      }).end();
+      return;
+    }
+
+    const sessionId = /PHPSESSID=([^;]+)/.exec(req.headers.cookie || '')?.[1];
+    if (!sessionId || !state.live.has(sessionId)) {
+      res.writeHead(302, { Location: '/session.php' }).end();
+      return;
+    }
+
+    if (req.url === '/powerStreamWeb.php') {
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html>PowerStream</html>');
+    } else if (req.url === '/includes/paramHelper.php') {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ wmid: 101020, sid: `qm-${sessionId}`, quotestreamweb_env: 'app', lang: 'en' }));
+    } else {
+      res.writeHead(404).end();
+    }
+  };
+
+  const server = createServer((req, res) => {
+    handler(req, res).catch(() => res.writeHead(500).end());
+  });
+  return { server, state };
+}
+
+describe('TmxSessionManager against a session.php stub', () => {
+  let server: Server;
+  let state: ReturnType<typeof createTmxStub>['state'];
+  let baseUrl: string;
+
+  const credentials = () => ({ username: 'trader', password: 'secret', wmid: '101020' });
+
+  beforeAll(async () => {
+    ({ server, state } = createTmxStub());
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    state.logins = 0;
+    state.live.clear();
+    state.requests = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shares one login between concurrent callers', async () => {
+    const manager = new TmxSessionManager({ credentials, baseUrl });
+
+    const sessions = await Promise.all(Array.from({ length: 5 }, () => manager.getSession()));
+
+    expect(state.logins).toBe(1);
+    expect(new Set(sessions.map(session => session.sessionId))).toEqual(new Set(['sess1']));
+    expect(sessions[0].cookies).toEqual({ PHPSESSID: 'sess1', qmLang: 'en' });
+  });
+
+  it('reuses the session until it idles out, then logs in again', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const manager = new TmxSessionManager({ credentials, baseUrl, idleTtlMs: 60 * 1000 });
+
+    expect((await manager.getSession()).sessionId).toBe('sess1');
+    vi.setSystemTime(Date.now() + 30 * 1000);
+    expect((await manager.getSession()).sessionId).toBe('sess1');
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    expect((await manager.getSession()).sessionId).toBe('sess2');
+    expect(state.logins).toBe(2);
+  });
+
+  it('logs in again once when TMX redirects an expired session to session.php', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const manager = new TmxSessionManager({ credentials, baseUrl });
+
+    expect((await manager.getQuoteStreamParams()).sid).toBe('qm-sess1');
+
+    // TMX drops the session server side while we still hold it
+    state.live.clear();
+    vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+
+    const response = await manager.withSession(session =>
+      fetch(`${baseUrl}/includes/paramHelper.php`, { headers: manager.headers(session), redirect: 'manual' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ sid: 'qm-sess2' });
+    expect(state.logins).toBe(2);
+    expect((await manager.getQuoteStreamParams()).sid).toBe('qm-sess2');
+  });
+
+  it('does not log in again when a session that was just created is turned away', async () => {
+    const manager = new TmxSessionManager({ credentials, baseUrl });
+    await manager.getSession();
+    state.live.clear();
+
+    const response = await manager.withSession(session =>
+      fetch(`${baseUrl}/powerStreamWeb.php`, { headers: manager.headers(session), redirect: 'manual' })
+    );
+
+    expect(response.status).toBe(302);
+    expect(state.logins).toBe(1);
+  });
+
+  it('rejects a login session.php bounces to the error page', async () => {
+    await expect(loginToTmx({ username: 'trader', password: 'wrong', wmid: '101020' }, { baseUrl }))
+      .rejects.toThrow('invalid username or password');
+  });
+});
@@ -0,0 +1,289 @@
+import { getConfig } from '@/lib/config';
+
+export const TMX_USER_AGENT = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36';
+
+// PHP drops idle sessions; reusing one this old risks a redirect back to the login page
+const IDLE_TTL_MS = 20 * 60 * 1000;
+// However busy, log in again after this long
+const MAX_AGE_MS = 8 * 60 * 60 * 1000;
+// A session turned away this soon after logging in didn't expire, logging in again won't help
+const FRESH_SESSION_MS = 30 * 1000;
+
+export interface TmxCredentials {
+  username: string;
+  password: string;
+  wmid: string;
+}
+
+export interface TmxSession {
+  sessionId: string;
+  wmid: string;
+  username: string;
+  /** Every cookie session.php set, PHPSESSID included */
+  cookies: Record<string, string>;
+  /** Where session.php redirected after logging in */
+  location: string | null;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+/** What paramHelper.php hands the QuoteStream Web iframe */
+export interface QuoteStreamParams {
+  wmid: string;
+  /** QuoteMedia session id, empty when TMX doesn't provide one */
+  sid: string;
+  quotestreamweb_env: string;
+  lang: string;
+}
+
+export interface TmxLoginOptions {
+  fetch?: typeof fetch;
+  baseUrl?: string;
+  forwardURL?: string;
+  targetURL?: string;
+}
+
+const tmxBaseUrl = (baseUrl?: string) => (baseUrl || getConfig().tmx.baseUrl).replace(/\/$/, '');
+
+/** Cookie name/value pairs out of Set-Cookie header values, later ones winning */
+export function parseSetCookies(setCookies: string[]): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const header of setCookies) {
+    const [pair] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) continue;
+
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    if (value && value !== 'deleted') cookies[name] = value;
+  }
+  return cookies;
+}
+
+export function extractPhpSessionId(setCookies: string[]): string | null {
+  return parseSetCookies(setCookies).PHPSESSID || null;
+}
+
+export function tmxCookieHeader(session: Pick<TmxSession, 'sessionId'> & Partial<Pick<TmxSession, 'cookies'>>): string {
+  const cookies = { ...session.cookies, PHPSESSID: session.sessionId };
+  return Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; ');
+}
+
+/**
+ * A response that means the PHP session is gone: TMX answers with a redirect
+ * to session.php or the login page instead of the requested content.
+ */
+export function isTmxSessionExpired(response: Response): boolean {
+  if (response.status === 401 || response.status === 403) return true;
+
+  const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') || '' : '';
+  return [location, response.url].some(url => /session\.php|login/i.test(url));
+}
+
+export function parseQuoteStreamParams(data: unknown): QuoteStreamParams {
+  if (!data || typeof data !== 'object') {
+    throw new Error('paramHelper.php did not return a JSON object');
+  }
+
+  const record = data as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value) : '');
+  if (!text(record.wmid)) {
+    throw new Error('paramHelper.php response has no wmid');
+  }
+
+  return {
+    wmid: text(record.wmid),
+    sid: text(record.sid),
+    quotestreamweb_env: text(record.quotestreamweb_env),
+    lang: text(record.lang)
+  };
+}
+
+/**
+ * Posts the PowerStream login form. session.php answers a good login with a
+ * redirect to the forward URL and a PHPSESSID cookie, a bad one with a
+ * redirect to the target URL carrying `loginError=true`.
+ */
+export async function loginToTmx(credentials: TmxCredentials, options: TmxLoginOptions = {}): Promise<TmxSession> {
+  if (!credentials.username || !credentials.password) {
+    throw new Error('TMX credentials not found. Set TMX_USERNAME and TMX_PASSWORD.');
+  }
+
+  const baseUrl = tmxBaseUrl(options.baseUrl);
+  const fetchFn = options.fetch || fetch;
+
+  const response = await fetchFn(`${baseUrl}/session.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'User-Agent': TMX_USER_AGENT,
+      'Referer': `${baseUrl}/`,
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+    },
+    body: new URLSearchParams({
+      wmid: credentials.wmid,
+      userName: credentials.username,
+      password: credentials.password,
+      forwardURL: options.forwardURL || `${baseUrl}/powerStreamWeb.php`,
+      targetURL: options.targetURL || `${baseUrl}/?loginError=true`
+    }),
+    redirect: 'manual'
+  });
+
+  const location = response.headers.get('location');
+  if (response.status < 300 || response.status >= 400) {
+    throw new Error(`TMX login failed: session.php answered ${response.status} instead of a redirect`);
+  }
+  if (location?.includes('loginError')) {
+    throw new Error('TMX login rejected: invalid username or password');
+  }
+
+  const cookies = parseSetCookies(response.headers.getSetCookie());
+  if (!cookies.PHPSESSID) {
+    throw new Error('TMX login returned no PHPSESSID cookie');
+  }
+
+  const now = Date.now();
+  return {
+    sessionId: cookies.PHPSESSID,
+    wmid: credentials.wmid,
+    username: credentials.username,
+    cookies,
+    location,
+    createdAt: now,
+    lastUsedAt: now
+  };
+}
+
+export interface TmxSessionManagerOptions {
+  credentials?: () => TmxCredentials;
+  fetch?: typeof fetch;
+  baseUrl?: string;
+  idleTtlMs?: number;
+  maxAgeMs?: number;
+}
+
+/**
+ * The server's own PowerStream login, reused across requests until it idles
+ * out. Concurrent callers share one login and the paramHelper.php bootstrap
+ * that goes with it; a request that finds the session expired logs in again
+ * and is retried once.
+ */
+export class TmxSessionManager {
+  private session: TmxSession | null = null;
+  private params: { session: TmxSession; params: Promise<QuoteStreamParams> } | null = null;
+  private login: Promise<TmxSession> | null = null;
+
+  private credentials: () => TmxCredentials;
+  private fetchFn: typeof fetch;
+  private idleTtlMs: number;
+  private maxAgeMs: number;
+
+  constructor(private options: TmxSessionManagerOptions = {}) {
+    this.credentials = options.credentials || (() => getConfig().tmx);
+    this.fetchFn = options.fetch || ((input, init) => fetch(input, init));
+    this.idleTtlMs = options.idleTtlMs ?? IDLE_TTL_MS;
+    this.maxAgeMs = options.maxAgeMs ?? MAX_AGE_MS;
+  }
+
+  get baseUrl(): string {
+    return tmxBaseUrl(this.options.baseUrl);
+  }
+
+  async getSession(): Promise<TmxSession> {
+    const now = Date.now();
+    const session = this.session;
+    if (session && now - session.lastUsedAt < this.idleTtlMs && now - session.createdAt < this.maxAgeMs) {
+      session.lastUsedAt = now;
+      return session;
+    }
+
+    if (!this.login) {
+      console.log('🔐 Logging in to TMX PowerStream...');
+      this.login = loginToTmx(this.credentials(), { fetch: this.fetchFn, baseUrl: this.baseUrl })
+        .then(fresh => {
+          console.log('✅ TMX session obtained:', fresh.sessionId.substring(0, 10) + '...');
+          this.session = fresh;
+          this.params = null;
+          return fresh;
+        })
+        .finally(() => {
+          this.login = null;
+        });
+    }
+    return this.login;
+  }
+
+  invalidate(): void {
+    this.session = null;
+    this.params = null;
+    console.log('🗑️ Cleared cached TMX session');
+  }
+
+  /** Runs a request on the session cookie, logging in again once if TMX says the session expired */
+  async withSession(call: (session: TmxSession) => Promise<Response>): Promise<Response> {
+    const session = await this.getSession();
+    const response = await call(session);
+    if (!isTmxSessionExpired(response) || Date.now() - session.createdAt < FRESH_SESSION_MS) return response;
+
+    console.log('🔒 TMX session expired, logging in again');
+    this.invalidate();
+    return call(await this.getSession());
+  }
+
+  /** Headers for a PowerStream XHR on the given session */
+  headers(session: TmxSession, extra: Record<string, string> = {}): Record<string, string> {
+    return {
+      'Cookie': tmxCookieHeader(session),
+      'User-Agent': TMX_USER_AGENT,
+      'Referer': `${this.baseUrl}/powerStreamWeb.php`,
+      ...extra
+    };
+  }
+
+  /**
+   * What the PowerStream page's qm_auth() fetches before it loads QuoteStream
+   * Web: the page itself, then paramHelper.php. Cached with the session.
+   */
+  async getQuoteStreamParams(): Promise<QuoteStreamParams> {
+    const session = await this.getSession();
+    if (!this.params || this.params.session !== session) {
+      const params = this.bootstrap();
+      this.params = { session, params };
+      params.catch(() => {
+        if (this.params?.params === params) this.params = null;
+      });
+    }
+    return this.params.params;
+  }
+
+  private async bootstrap(): Promise<QuoteStreamParams> {
+    const page = await this.withSession(session =>
+      this.fetchFn(`${this.baseUrl}/powerStreamWeb.php`, { headers: this.headers(session), redirect: 'manual' })
+    );
+    if (!page.ok) {
+      throw new Error(`Failed to load PowerStream interface: ${page.status}`);
+    }
+
+    const response = await this.withSession(session =>
+      this.fetchFn(`${this.baseUrl}/includes/paramHelper.php`, {
+        headers: this.headers(session, { 'Accept': 'application/json', 'X-Requested-With': 'XMLHttpRequest' }),
+        redirect: 'manual'
+      })
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to get QuoteStream parameters: ${response.status}`);
+    }
+
+    const text = await response.text();
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('paramHelper.php did not return JSON');
+    }
+    return parseQuoteStreamParams(data);
+  }
+}
+
+export const tmxSession = new TmxSessionManager();